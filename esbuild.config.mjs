@@ -42,6 +42,8 @@ const context = await esbuild.context({
   ],
   format: 'cjs',
   target: 'es2018',
+  // Obsidian loads the plugin as CommonJS, where `import()` cannot reach Node modules
+  supported: { 'dynamic-import': false },
   logLevel: 'info',
   sourcemap: prod ? false : 'inline',
   treeShaking: true,
@@ -0,0 +1,466 @@
+import type { BlockProperties } from './blockProperties'
+import { parseProps } from './blockProperties'
+import { findClosingParen } from './propTokenizer'
+
+/**
+ * A range of source offsets, `to` being exclusive
+ */
+export interface SourceRange {
+  from: number
+  to: number
+}
+
+/**
+ * A parsed `::name(props) title` or `--name(props) title` marker line
+ */
+export interface MarkerInfo {
+  name: string
+  rawProps: string | null
+  props: BlockProperties
+  title: string
+  nameRange: SourceRange // "::name" / "--name", including a collapse dash
+  propsRange: SourceRange | null // "(...)", including the parentheses
+  titleRange: SourceRange | null
+}
+
+/**
+ * Plain markdown between markers
+ */
+export interface TextNode extends SourceRange {
+  type: 'text'
+  text: string
+}
+
+/**
+ * A `--child(props) title` section and everything up to the next section or the block end
+ */
+export interface SectionNode extends SourceRange {
+  type: 'section'
+  marker: MarkerInfo
+  line: SourceRange
+  children: Array<BlockNode | TextNode>
+  bodyFrom: number
+  body: string
+}
+
+/**
+ * A `::block(props)` ... `::` block
+ */
+export interface BlockNode extends SourceRange {
+  type: 'block'
+  marker: MarkerInfo
+  collapsed: boolean
+  closed: boolean
+  openLine: SourceRange
+  closeLine: SourceRange | null
+  children: BlockChild[]
+  bodyFrom: number
+  bodyTo: number
+  body: string
+}
+
+export type BlockChild = TextNode | BlockNode | SectionNode
+
+export interface DocumentNode extends SourceRange {
+  type: 'document'
+  children: Array<BlockNode | TextNode>
+}
+
+export type BlockAstNode = DocumentNode | BlockChild
+
+/**
+ * The parts of a document the incremental parser reads. CodeMirror's `Text` satisfies it.
+ */
+export interface SourceText {
+  readonly length: number
+  sliceString: (from: number, to?: number) => string
+}
+
+const BLOCK_PREFIX = '::'
+const SECTION_PREFIX = '--'
+const MARKER_NAME = /^(?:::|--)([a-z][\w-]*)/i
+const FENCE = /^(`{3,}|~{3,})/
+
+/**
+ * Parses a marker line. `from` is the source offset of the first character of `line`.
+ */
+export function parseMarkerLine(line: string, prefix: '::' | '--', from = 0): MarkerInfo | null {
+  const indent = line.length - line.trimStart().length
+  const text = line.trim()
+  if (!text.startsWith(prefix))
+    return null
+
+  const nameMatch = text.match(MARKER_NAME)
+  if (!nameMatch)
+    return null
+
+  const name = nameMatch[1]
+  const start = from + indent
+  let pos = nameMatch[0].length
+
+  let rawProps: string | null = null
+  let propsRange: SourceRange | null = null
+  const propsStart = text.slice(pos).search(/\S/)
+  if (propsStart !== -1 && text[pos + propsStart] === '(') {
+    const open = pos + propsStart
+    const close = findClosingParen(text, open)
+    if (close !== -1) {
+      rawProps = text.slice(open + 1, close)
+      propsRange = { from: start + open, to: start + close + 1 }
+      pos = close + 1
+    }
+  }
+
+  const rest = text.slice(pos)
+  const title = rest.trim()
+  const titleOffset = pos + rest.length - rest.trimStart().length
+
+  return {
+    name,
+    rawProps,
+    props: rawProps === null ? {} : parseProps(rawProps),
+    title,
+    nameRange: { from: start, to: start + nameMatch[0].length },
+    propsRange,
+    titleRange: title ? { from: start + titleOffset, to: start + titleOffset + title.length } : null,
+  }
+}
+
+/**
+ * Checks whether a line is a block end marker
+ */
+export function isBlockEndLine(line: string): boolean {
+  return line.trim() === BLOCK_PREFIX
+}
+
+/**
+ * Returns the sections of a block, in document order
+ */
+export function getSections(block: BlockNode): SectionNode[] {
+  return block.children.filter((child): child is SectionNode => child.type === 'section')
+}
+
+/**
+ * Returns the markdown of a block that precedes its first section
+ */
+export function getLeadingBody(block: BlockNode, source: string): string {
+  const firstSection = getSections(block)[0]
+  const end = firstSection ? firstSection.line.from - 1 : block.bodyTo
+  return source.slice(block.bodyFrom, Math.max(block.bodyFrom, end))
+}
+
+/**
+ * Visits every block in a tree, outermost first
+ */
+export function walkBlocks(node: BlockAstNode, visit: (block: BlockNode, depth: number) => void, depth = 0): void {
+  if (node.type === 'text')
+    return
+
+  if (node.type === 'block')
+    visit(node, depth)
+
+  const childDepth = node.type === 'block' ? depth + 1 : depth
+  for (const child of node.children) {
+    walkBlocks(child, visit, childDepth)
+  }
+}
+
+/**
+ * Finds the innermost block containing `pos`
+ */
+export function findBlockAt(root: DocumentNode, pos: number, predicate: (block: BlockNode) => boolean = () => true): BlockNode | null {
+  let found: BlockNode | null = null
+  walkBlocks(root, (block) => {
+    if (block.from <= pos && pos <= block.to && predicate(block))
+      found = block
+  })
+  return found
+}
+
+type Container = DocumentNode | BlockNode | SectionNode
+
+/**
+ * Parses a document into a tree of blocks, sections and text.
+ *
+ * Markers are recognised at the start of a line (ignoring indentation) and
+ * never inside fenced code. Offsets are absolute: `offset` is added to every
+ * position so a slice of a larger document can be parsed in place.
+ */
+export function parseDocument(source: string, offset = 0): DocumentNode {
+  return parse(source, offset).root
+}
+
+/**
+ * Parses a single block, e.g. the region text handed to a widget.
+ * Stops as soon as the first block closes and returns null if the text does not start with a block.
+ */
+export function parseBlock(source: string, offset = 0): BlockNode | null {
+  const first = parse(source, offset, { firstBlockOnly: true }).root.children[0]
+  return first && first.type === 'block' ? first : null
+}
+
+/**
+ * Re-parses a document after an edit, reusing the parts of the previous tree the edit cannot affect.
+ *
+ * `tree` must come from parsing the whole previous document and `changes` are the
+ * ranges of that document which were replaced. Top-level nodes ending before the
+ * first change are kept as they are. Parsing restarts after them and stops at the
+ * first unchanged top-level block it reaches at top level, after which the old
+ * nodes are reused, shifted by the change in length.
+ */
+export function reparseDocument(tree: DocumentNode, text: SourceText, changes: readonly SourceRange[]): DocumentNode {
+  if (changes.length === 0)
+    return tree
+
+  const changedFrom = Math.min(...changes.map(change => change.from))
+  const changedTo = Math.max(...changes.map(change => change.to))
+  const delta = text.length - tree.to
+
+  // Trailing text is re-parsed so it merges with text the edit may add
+  let kept = tree.children.findIndex(node => node.to >= changedFrom)
+  if (kept === -1)
+    kept = tree.children.length
+  if (kept > 0 && tree.children[kept - 1].type === 'text')
+    kept--
+  const prefix = tree.children.slice(0, kept)
+  const start = kept > 0 ? prefix[kept - 1].to + 1 : 0
+
+  const firstReusable = tree.children.findIndex(node => node.type === 'block' && node.from > changedTo)
+  const reusable = firstReusable === -1 ? [] : tree.children.slice(firstReusable)
+  const resumePoints = reusable
+    .filter(node => node.type === 'block')
+    .map(node => node.from + delta)
+
+  // Parse up to a resume point and widen the window if the edit left a block open there
+  let window = 1
+  while (true) {
+    const end = window <= resumePoints.length ? resumePoints[window - 1] : text.length
+    const { root, stoppedAt } = parse(text.sliceString(start, end), start, {
+      resumeAt: new Set(resumePoints.slice(0, window)),
+    })
+
+    if (stoppedAt !== null || end === text.length) {
+      const suffix = stoppedAt === null
+        ? []
+        : reusable
+            .slice(reusable.findIndex(node => node.from + delta === stoppedAt))
+            .map(node => shiftNode(node, delta))
+
+      return {
+        type: 'document',
+        from: 0,
+        to: text.length,
+        children: [...prefix, ...root.children, ...suffix],
+      }
+    }
+
+    window *= 4
+  }
+}
+
+function shiftRange(range: SourceRange, delta: number): SourceRange {
+  return { from: range.from + delta, to: range.to + delta }
+}
+
+function shiftMarker(marker: MarkerInfo, delta: number): MarkerInfo {
+  return {
+    name: marker.name,
+    rawProps: marker.rawProps,
+    props: marker.props,
+    title: marker.title,
+    nameRange: shiftRange(marker.nameRange, delta),
+    propsRange: marker.propsRange && shiftRange(marker.propsRange, delta),
+    titleRange: marker.titleRange && shiftRange(marker.titleRange, delta),
+  }
+}
+
+/**
+ * Copies a node with all of its offsets moved by `delta`
+ */
+function shiftNode<N extends BlockChild>(node: N, delta: number): N
+function shiftNode(node: BlockChild, delta: number): BlockChild {
+  if (delta === 0)
+    return node
+
+  if (node.type === 'text') {
+    return { type: 'text', from: node.from + delta, to: node.to + delta, text: node.text }
+  }
+
+  if (node.type === 'section') {
+    return {
+      type: 'section',
+      marker: shiftMarker(node.marker, delta),
+      line: shiftRange(node.line, delta),
+      children: node.children.map(child => shiftNode(child, delta)),
+      from: node.from + delta,
+      to: node.to + delta,
+      bodyFrom: node.bodyFrom + delta,
+      body: node.body,
+    }
+  }
+
+  return {
+    type: 'block',
+    marker: shiftMarker(node.marker, delta),
+    collapsed: node.collapsed,
+    closed: node.closed,
+    openLine: shiftRange(node.openLine, delta),
+    closeLine: node.closeLine && shiftRange(node.closeLine, delta),
+    children: node.children.map(child => shiftNode(child, delta)),
+    from: node.from + delta,
+    to: node.to + delta,
+    bodyFrom: node.bodyFrom + delta,
+    bodyTo: node.bodyTo + delta,
+    body: node.body,
+  }
+}
+
+interface ParseOptions {
+  // Stop once the first block closes
+  firstBlockOnly?: boolean
+  // Stop at any of these line starts when no block or code fence is open
+  resumeAt?: ReadonlySet<number>
+}
+
+interface ParseResult {
+  root: DocumentNode
+  stoppedAt: number | null
+}
+
+function parse(source: string, offset: number, options: ParseOptions = {}): ParseResult {
+  const { firstBlockOnly = false, resumeAt } = options
+  const root: DocumentNode = { type: 'document', from: offset, to: offset + source.length, children: [] }
+  const stack: BlockNode[] = []
+  let fence: string | null = null
+  let lineStart = 0
+  let stoppedAt: number | null = null
+
+  const slice = (from: number, to: number) => source.slice(from - offset, to - offset)
+
+  const container = (): Container => {
+    const block = stack[stack.length - 1]
+    if (!block)
+      return root
+    const last = block.children[block.children.length - 1]
+    return last && last.type === 'section' ? last : block
+  }
+
+  const addText = (from: number, to: number) => {
+    const target = container()
+    const last = target.children[target.children.length - 1]
+    if (last && last.type === 'text') {
+      last.to = to
+      return
+    }
+    (target.children as BlockChild[]).push({ type: 'text', from, to, text: '' })
+  }
+
+  while (lineStart <= source.length) {
+    const newline = source.indexOf('\n', lineStart)
+    const lineEnd = newline === -1 ? source.length : newline
+    const line = source.slice(lineStart, lineEnd)
+    const trimmed = line.trim()
+    const from = offset + lineStart
+    const to = offset + lineEnd
+
+    if (resumeAt && !fence && stack.length === 0 && resumeAt.has(from)) {
+      stoppedAt = from
+      break
+    }
+
+    const fenceMatch = trimmed.match(FENCE)
+    if (fence) {
+      if (fenceMatch && trimmed.startsWith(fence) && trimmed.slice(fence.length).trim() === '')
+        fence = null
+      addText(from, to)
+    }
+    else if (fenceMatch) {
+      fence = fenceMatch[1]
+      addText(from, to)
+    }
+    else if (isBlockEndLine(line) && stack.length > 0) {
+      const block = stack.pop()!
+      block.closed = true
+      block.closeLine = { from, to }
+      block.to = to
+      block.bodyTo = Math.max(block.bodyFrom, from - 1)
+
+      if (firstBlockOnly && stack.length === 0) {
+        root.to = to
+        break
+      }
+    }
+    else if (trimmed.startsWith(BLOCK_PREFIX) && parseMarkerLine(line, '::', from)) {
+      const marker = parseMarkerLine(line, '::', from)!
+      const collapsed = marker.name.endsWith('-')
+      if (collapsed)
+        marker.name = marker.name.slice(0, -1)
+
+      const block: BlockNode = {
+        type: 'block',
+        marker,
+        collapsed,
+        closed: false,
+        openLine: { from, to },
+        closeLine: null,
+        children: [],
+        from,
+        to: root.to,
+        bodyFrom: Math.min(to + 1, root.to),
+        bodyTo: root.to,
+        body: '',
+      }
+      ;(container().children as BlockChild[]).push(block)
+      stack.push(block)
+    }
+    else if (stack.length > 0 && trimmed.startsWith(SECTION_PREFIX) && parseMarkerLine(line, '--', from)) {
+      const block = stack[stack.length - 1]
+      block.children.push({
+        type: 'section',
+        marker: parseMarkerLine(line, '--', from)!,
+        line: { from, to },
+        children: [],
+        from,
+        to,
+        bodyFrom: Math.min(to + 1, root.to),
+        body: '',
+      })
+    }
+    else {
+      if (firstBlockOnly && stack.length === 0)
+        break
+      addText(from, to)
+    }
+
+    if (newline === -1)
+      break
+    lineStart = newline + 1
+  }
+
+  finalize(root, slice)
+  return { root, stoppedAt }
+}
+
+/**
+ * Fills in section extents and the text of every node once all lines are known
+ */
+function finalize(node: Container, slice: (from: number, to: number) => string): void {
+  if (node.type === 'block') {
+    const sections = getSections(node)
+    sections.forEach((section, index) => {
+      const next = sections[index + 1]
+      const end = next ? next.line.from - 1 : node.bodyTo
+      section.to = Math.max(section.line.to, end)
+      section.bodyFrom = Math.min(section.bodyFrom, section.to)
+      section.body = slice(section.bodyFrom, section.to)
+    })
+    node.body = slice(node.bodyFrom, node.bodyTo)
+  }
+
+  for (const child of node.children) {
+    if (child.type === 'text')
+      child.text = slice(child.from, child.to)
+    else
+      finalize(child, slice)
+  }
+}
@@ -0,0 +1,70 @@
+import type { BlockNode, MarkerInfo, SectionNode } from './blockAst'
+import type { TextChange } from './types'
+import { tokenizeProps } from './propTokenizer'
+
+/**
+ * Sets the title of a marker line, the text after its name and props. An empty title removes it.
+ */
+export function setMarkerTitle(marker: MarkerInfo, title: string): TextChange[] {
+  const clean = title.replace(/\s+/g, ' ').trim()
+  const end = (marker.propsRange ?? marker.nameRange).to
+
+  if (!marker.titleRange)
+    return clean ? [{ from: end, to: end, insert: ` ${clean}` }] : []
+  if (clean === marker.title)
+    return []
+  return clean
+    ? [{ from: marker.titleRange.from, to: marker.titleRange.to, insert: clean }]
+    : [{ from: end, to: marker.titleRange.to, insert: '' }]
+}
+
+// Values written without quotes; `true` and `false` are quoted so they stay strings
+const BARE_VALUE = /^(?!(?:true|false)$)[\w.%#-]+$/
+
+/**
+ * Rewrites the props of a marker. A string sets a prop, `true` sets a flag and null
+ * removes the prop; the props not in `updates` keep their text. Values are quoted
+ * unless they are a single word, e.g. `width=40%`.
+ */
+export function updateMarkerProps(marker: MarkerInfo, updates: Record<string, string | true | null>): TextChange[] {
+  const raw = marker.rawProps ?? ''
+  const kept = tokenizeProps(raw).tokens.filter(token => !(token.key in updates)).map(token => raw.slice(token.from, token.to))
+  const set = Object.entries(updates)
+    .filter((entry): entry is [string, string | true] => entry[1] !== null)
+    .map(([key, value]) => value === true ? key : `${key}=${BARE_VALUE.test(value) ? value : JSON.stringify(value)}`)
+
+  const props = [...kept, ...set].join(' ')
+  const insert = props ? `(${props})` : ''
+  const range = marker.propsRange ?? { from: marker.nameRange.to, to: marker.nameRange.to }
+  return insert === (marker.propsRange ? `(${raw})` : '') ? [] : [{ ...range, insert }]
+}
+
+/**
+ * Adds a section with an empty body at the end of a block
+ */
+export function appendSection(block: BlockNode, markerLine: string): TextChange[] {
+  if (!block.closeLine)
+    return []
+  return [{ from: block.closeLine.from, to: block.closeLine.from, insert: `${markerLine}\n\n` }]
+}
+
+/**
+ * Removes a section, its marker line and its content
+ */
+export function removeSection(section: SectionNode): TextChange[] {
+  return [{ from: section.from, to: section.to + 1, insert: '' }]
+}
+
+/**
+ * Moves the section at index `from` to index `to`. The sections must be consecutive,
+ * such as the `--tab`s of a tabs block.
+ */
+export function moveSection(sections: readonly SectionNode[], source: string, from: number, to: number): TextChange[] {
+  if (from === to || !sections[from] || !sections[to])
+    return []
+
+  const texts = sections.map(section => source.slice(section.from, section.to))
+  const [moved] = texts.splice(from, 1)
+  texts.splice(to, 0, moved)
+  return [{ from: sections[0].from, to: sections[sections.length - 1].to, insert: texts.join('\n') }]
+}
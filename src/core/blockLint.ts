@@ -0,0 +1,271 @@
+import type { BlockNode, DocumentNode, MarkerInfo, SourceRange } from './blockAst'
+import type { BlockRegistry } from './blockRegistry'
+import type { TokenizedProps } from './propTokenizer'
+import type { BlockDefinition, LintFix, LintIssue, PropDefinition, PropSchema } from './types'
+import { getSections, isBlockEndLine, walkBlocks } from './blockAst'
+import { coerceProps } from './propSchema'
+import { tokenizeProps } from './propTokenizer'
+
+const FENCE = /^(`{3,}|~{3,})/
+
+// Every block accepts an explicit id, which keeps its saved state when its content changes
+const ID_PROP: PropDefinition = { type: 'string' }
+
+/**
+ * Levenshtein distance between two words
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * The candidates that look like a misspelling of `value`, closest first
+ */
+export function closestMatches(value: string, candidates: readonly string[], limit = 3): string[] {
+  const lower = value.toLowerCase()
+  return candidates
+    .map(candidate => ({ candidate, distance: editDistance(lower, candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate)
+}
+
+function replaceFix(label: string, range: SourceRange, insert: string): LintFix {
+  return { label, changes: [{ from: range.from, to: range.to, insert }] }
+}
+
+/**
+ * Splits a marker's props into tokens located in the source
+ */
+function tokenizeMarkerProps(marker: MarkerInfo): TokenizedProps {
+  if (!marker.propsRange || marker.rawProps === null)
+    return { tokens: [], errors: [] }
+  return tokenizeProps(marker.rawProps, marker.propsRange.from + 1)
+}
+
+/**
+ * Reports props that cannot be read, such as an unclosed quote or a value without a key
+ */
+function lintPropSyntax(marker: MarkerInfo): LintIssue[] {
+  // Props whose parenthesis is never closed, or hidden by an unclosed quote, end up in the title
+  if (!marker.propsRange && marker.titleRange && marker.title.startsWith('(')) {
+    return [{
+      ...marker.titleRange,
+      severity: 'error',
+      message: 'These props are never closed. Check for an unclosed quote or a missing `)`.',
+      fixes: [],
+    }]
+  }
+
+  return tokenizeMarkerProps(marker).errors.map(({ from, to, message }) => ({ from, to, severity: 'error', message, fixes: [] }))
+}
+
+/**
+ * Reports props a marker does not accept and values its schema cannot coerce
+ */
+function lintProps(marker: MarkerInfo, schema: PropSchema, label: string): LintIssue[] {
+  const { tokens } = tokenizeMarkerProps(marker)
+  const fallback = marker.propsRange ?? marker.nameRange
+
+  return coerceProps(marker.props, schema).errors.map(({ key, kind, message }) => {
+    const token = tokens.find(candidate => candidate.key === key)
+    const range = token ? { from: token.from, to: token.to } : fallback
+    const fixes: LintFix[] = []
+
+    if (kind === 'unknown') {
+      if (token) {
+        closestMatches(key, Object.keys(schema)).forEach(name => fixes.push(replaceFix(`Rename to ${name}`, token.keyRange, name)))
+        // Removes the separating space too, unless the prop comes first, and the
+        // parentheses along with the last prop
+        const propsRange = marker.propsRange!
+        const from = token.from > propsRange.from + 1 ? token.from - 1 : token.from
+        fixes.push(replaceFix(`Remove ${key}`, tokens.length === 1 ? propsRange : { from, to: token.to }, ''))
+      }
+      return { ...range, severity: 'warning', message: `Unknown prop \`${key}\` for \`${label}\``, fixes }
+    }
+
+    const definition = schema[key]
+    if (definition.type === 'enum' && token) {
+      const value = marker.props[key]
+      const suggestions = typeof value === 'string' ? closestMatches(value, definition.values) : definition.values
+      suggestions.forEach(allowed => fixes.push(replaceFix(`Use "${allowed}"`, token, `${key}="${allowed}"`)))
+    }
+    return { ...range, severity: 'error', message, fixes }
+  })
+}
+
+/**
+ * Reports `::` lines outside any block, which render as plain text
+ */
+function lintStrayEnds(tree: DocumentNode, source: string): LintIssue[] {
+  const issues: LintIssue[] = []
+  let fence: string | null = null
+
+  for (const node of tree.children) {
+    if (node.type !== 'text')
+      continue
+
+    let from = node.from
+    for (const line of source.slice(node.from, node.to).split('\n')) {
+      const trimmed = line.trim()
+      const fenceMatch = trimmed.match(FENCE)
+      if (fence) {
+        if (fenceMatch && trimmed.startsWith(fence) && trimmed.slice(fence.length).trim() === '')
+          fence = null
+      }
+      else if (fenceMatch) {
+        fence = fenceMatch[1]
+      }
+      else if (isBlockEndLine(line)) {
+        issues.push({
+          from,
+          to: from + line.length,
+          severity: 'warning',
+          message: 'This `::` closes no block',
+          fixes: [replaceFix('Remove line', { from, to: Math.min(from + line.length + 1, source.length) }, '')],
+        })
+      }
+      from += line.length + 1
+    }
+  }
+  return issues
+}
+
+function lintBlock(block: BlockNode, source: string, definition: BlockDefinition | undefined, registry: BlockRegistry): LintIssue[] {
+  const { marker } = block
+  const label = `::${marker.name}`
+  const issues: LintIssue[] = []
+
+  if (!block.closed) {
+    const insert = source[block.to - 1] === '\n' ? '::' : '\n::'
+    issues.push({
+      ...block.openLine,
+      severity: 'error',
+      message: `\`${label}\` is never closed, so it renders as plain text. End it with a \`::\` line.`,
+      fixes: [replaceFix('Insert closing ::', { from: block.to, to: block.to }, insert)],
+    })
+  }
+
+  if (!definition) {
+    const uncollapsed = `::${marker.name}`
+    if (block.collapsed && registry.findByStartLine(uncollapsed)) {
+      issues.push({
+        ...marker.nameRange,
+        severity: 'warning',
+        message: `\`${label}\` cannot be collapsed with a trailing \`-\``,
+        fixes: [replaceFix('Remove -', marker.nameRange, uncollapsed)],
+      })
+      return issues
+    }
+
+    const suffix = block.collapsed ? '-' : ''
+    issues.push({
+      ...marker.nameRange,
+      severity: 'warning',
+      message: `Unknown block \`${label}\``,
+      fixes: closestMatches(marker.name, registry.getBlockNames())
+        .map(name => replaceFix(`Change to ::${name}`, marker.nameRange, `::${name}${suffix}`)),
+    })
+    return issues
+  }
+
+  // A block's own check of its props, e.g. the aspect ratio, replaces the generic one
+  const ownIssues = definition.lint?.(block) ?? []
+  const { propsRange } = marker
+  const checksOwnProps = !!propsRange && ownIssues.some(issue => issue.from < propsRange.to && issue.to > propsRange.from)
+
+  issues.push(...lintPropSyntax(marker))
+  if (definition.props && !checksOwnProps)
+    issues.push(...lintProps(marker, { id: ID_PROP, ...definition.props }, label))
+
+  const childName = definition.markers.child?.replace(/^--/, '')
+  for (const section of getSections(block)) {
+    const name = section.marker.name
+    if (childName && name !== childName) {
+      issues.push({
+        ...section.marker.nameRange,
+        severity: 'warning',
+        message: `\`${label}\` has no \`--${name}\` sections, only \`--${childName}\``,
+        fixes: closestMatches(name, [childName])
+          .map(match => replaceFix(`Change to --${match}`, section.marker.nameRange, `--${match}`)),
+      })
+      continue
+    }
+
+    issues.push(...lintPropSyntax(section.marker))
+    const schema = definition.childProps?.[name]
+    if (schema)
+      issues.push(...lintProps(section.marker, schema, `--${name}`))
+  }
+
+  issues.push(...ownIssues)
+  return issues
+}
+
+/**
+ * Reports blocks of one type sharing an explicit id, which makes them share their saved state
+ */
+function lintDuplicateIds(blocks: BlockNode[]): LintIssue[] {
+  const issues: LintIssue[] = []
+  const used = new Set<string>()
+  const duplicates: Array<{ block: BlockNode, id: string }> = []
+
+  for (const block of blocks) {
+    const id = block.marker.props.id
+    if (typeof id !== 'string')
+      continue
+    const key = `${block.marker.name}:${id}`
+    if (used.has(key))
+      duplicates.push({ block, id })
+    used.add(key)
+  }
+
+  for (const { block, id } of duplicates) {
+    const token = tokenizeMarkerProps(block.marker).tokens.find(candidate => candidate.key === 'id')
+    const range = token ? { from: token.from, to: token.to } : block.marker.nameRange
+    let suffix = 2
+    while (used.has(`${block.marker.name}:${id}-${suffix}`)) {
+      suffix++
+    }
+    const unique = `${id}-${suffix}`
+    used.add(`${block.marker.name}:${unique}`)
+
+    issues.push({
+      ...range,
+      severity: 'warning',
+      message: `Another \`::${block.marker.name}\` block in this note has the id "${id}", so both share their saved state`,
+      fixes: token ? [replaceFix(`Rename to ${unique}`, token, `id="${unique}"`)] : [],
+    })
+  }
+  return issues
+}
+
+/**
+ * Checks every block of a document: unclosed blocks, stray `::` lines, unknown
+ * blocks, sections and props, props of the wrong type, duplicate ids and the
+ * checks of each block type. Markers inside fenced code are not blocks, so they
+ * are never reported.
+ */
+export function lintDocument(tree: DocumentNode, source: string, registry: BlockRegistry): LintIssue[] {
+  const issues = lintStrayEnds(tree, source)
+  const blocks: BlockNode[] = []
+
+  walkBlocks(tree, (block) => {
+    blocks.push(block)
+    const openLine = source.slice(block.openLine.from, block.openLine.to)
+    issues.push(...lintBlock(block, source, registry.findByStartLine(openLine), registry))
+  })
+  issues.push(...lintDuplicateIds(blocks))
+
+  return issues.sort((a, b) => a.from - b.from)
+}
@@ -0,0 +1,48 @@
+import type { BlockMarkers, BlockParser, BlockRange } from './types'
+import { parseBlock, parseMarkerLine } from './blockAst'
+
+interface BlockParserOptions {
+  // Accept a trailing "-" on the start marker, e.g. "::note-" for a collapsed callout
+  collapsible?: boolean
+}
+
+/**
+ * Finds the end of the block opening at `startPos`, tracking nested blocks
+ * so that the closing marker of an inner block does not end the outer one.
+ */
+export function findBlockEnd(text: string, startPos: number): BlockRange | null {
+  const block = parseBlock(text.slice(startPos), startPos)
+  if (!block || !block.closed)
+    return null
+
+  return {
+    from: block.from,
+    to: block.to,
+    content: text.slice(block.from, block.to).trim(),
+  }
+}
+
+/**
+ * Creates a parser for blocks delimited by the given markers
+ */
+export function createBlockParser(markers: BlockMarkers, options: BlockParserOptions = {}): BlockParser {
+  const name = markers.start.replace(/^::/, '')
+
+  const matches = (line: string): boolean => {
+    const marker = parseMarkerLine(line, '::')
+    return !!marker && (marker.name === name
+      || (!!options.collapsible && marker.name === `${name}-`))
+  }
+
+  return {
+    matches,
+    parse: (text: string, from: number): BlockRange | null => {
+      const lineEnd = text.indexOf('\n', from)
+      const firstLine = text.slice(from, lineEnd === -1 ? text.length : lineEnd)
+      if (!matches(firstLine))
+        return null
+
+      return findBlockEnd(text, from)
+    },
+  }
+}
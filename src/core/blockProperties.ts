@@ -0,0 +1,53 @@
+import { findClosingParen, tokenizeProps } from './propTokenizer'
+
+/**
+ * Interface for generic block properties
+ */
+export interface BlockProperties {
+  [key: string]: string | boolean | string[] | undefined
+}
+
+/**
+ * Parses the contents of a marker's parentheses, e.g. `defaultTab="2" showIcons=true`.
+ * Bare `true`/`false` become booleans and a key without a value is a `true` flag;
+ * every other value is kept as written, for the block's prop schema to coerce.
+ */
+export function parseProps(propString: string): BlockProperties {
+  const properties: BlockProperties = {}
+
+  for (const token of tokenizeProps(propString).tokens) {
+    const { key, value, quoted } = token
+    if (value === null)
+      properties[key] = true
+    else if (!quoted && typeof value === 'string' && /^(?:true|false)$/i.test(value))
+      properties[key] = value.toLowerCase() === 'true'
+    else
+      properties[key] = value
+  }
+
+  return properties
+}
+
+/**
+ * Parses properties from a block declaration line
+ * Examples:
+ * ::tabs(defaultTab="2" showIcons=true)
+ * --col(xs showBorder=true title="My Column")
+ *
+ * @param line - The line containing properties
+ * @param pattern - Regex matching the line up to and including the opening parenthesis of the props
+ * @returns Parsed properties
+ */
+export function parseBlockProperties(line: string, pattern: RegExp): BlockProperties {
+  const match = line.match(pattern)
+  if (!match || match.index === undefined)
+    return {}
+
+  // The props end at the parenthesis closing the first one, skipping quoted values
+  const open = line.indexOf('(', match.index)
+  const close = open === -1 ? -1 : findClosingParen(line, open)
+  if (close === -1)
+    return {}
+
+  return parseProps(line.slice(open + 1, close))
+}
@@ -0,0 +1,97 @@
+import type { BlockDefinition, BlockSettingEntry } from './types'
+
+/**
+ * Central registry for all block types.
+ * Editor extensions, post processors, syntax highlighting and settings
+ * entries are all derived from the blocks registered here.
+ */
+export class BlockRegistry {
+  private blocks = new Map<string, BlockDefinition>()
+
+  /**
+   * Register a new block type
+   */
+  register(block: BlockDefinition): boolean {
+    if (this.blocks.has(block.id)) {
+      console.warn(`[GinkoBlocks] Block type "${block.id}" is already registered`)
+      return false
+    }
+
+    this.blocks.set(block.id, block)
+    return true
+  }
+
+  /**
+   * Get a block definition by ID
+   */
+  get(id: string): BlockDefinition | undefined {
+    return this.blocks.get(id)
+  }
+
+  /**
+   * Get all registered blocks, in registration order
+   */
+  getAll(): BlockDefinition[] {
+    return Array.from(this.blocks.values())
+  }
+
+  /**
+   * Check if a block type is registered
+   */
+  has(id: string): boolean {
+    return this.blocks.has(id)
+  }
+
+  /**
+   * Unregister a block type
+   */
+  unregister(id: string): void {
+    this.blocks.delete(id)
+  }
+
+  /**
+   * Find the block type opened by a line, e.g. "::tabs(id=x)"
+   */
+  findByStartLine(line: string): BlockDefinition | undefined {
+    return this.getAll().find(block => block.parser.matches(line))
+  }
+
+  /**
+   * Names of all registered start markers without the leading "::"
+   */
+  getBlockNames(): string[] {
+    return this.getAll().map(block => block.markers.start.replace(/^::/, ''))
+  }
+
+  /**
+   * Names of all registered child markers without the leading "--"
+   */
+  getChildNames(): string[] {
+    const names = this.getAll()
+      .map(block => block.markers.child?.replace(/^--/, ''))
+      .filter((name): name is string => !!name)
+    return Array.from(new Set(names))
+  }
+
+  /**
+   * Settings entries for all blocks that can be toggled.
+   * Blocks sharing a setting key are grouped under the first one registered.
+   */
+  getSettingEntries(): BlockSettingEntry[] {
+    const entries = new Map<string, BlockSettingEntry>()
+
+    for (const block of this.getAll()) {
+      if (!block.settingKey || entries.has(block.settingKey))
+        continue
+
+      entries.set(block.settingKey, {
+        id: block.settingKey,
+        name: block.settingLabel?.name ?? block.name,
+        description: block.settingLabel?.description ?? block.description,
+        docLink: block.docLink || `/${block.id}`,
+      })
+    }
+
+    return Array.from(entries.values())
+  }
+}
@@ -0,0 +1,77 @@
+import type { BlockDefinition, BlockMarkers, BlockTemplate } from './types'
+
+const HEADING = /^#{1,6}[ \t](.*)$/
+const IMAGE_EMBED = /!\[\[[^\]]+\]\]|!\[[^\]]*\]\([^)]+\)/g
+
+/**
+ * Splits text into paragraphs at blank lines
+ */
+export function splitParagraphs(text: string): string[] {
+  return text.split(/\n[ \t]*\n/).map(paragraph => paragraph.trim()).filter(Boolean)
+}
+
+/**
+ * A template that wraps the selection in the block, or leaves an empty line to type into
+ */
+export function createWrapTemplate(
+  markers: BlockMarkers,
+  { id, name, start = markers.start }: { id: string, name: string, start?: string },
+): BlockTemplate {
+  return {
+    id,
+    name,
+    build: selection => `${start}\n${selection.trim()}\n${markers.end}`,
+  }
+}
+
+/**
+ * A template with one section per selected paragraph, or `count` empty sections.
+ * With `title`, sections are titled: a paragraph's leading heading becomes the title
+ * of its section, other sections get `title(index)`.
+ */
+export function createSectionsTemplate(
+  markers: BlockMarkers,
+  { id, name, count, title }: { id: string, name: string, count: number, title?: (index: number) => string },
+): BlockTemplate {
+  const child = markers.child ?? ''
+
+  const section = (paragraph: string, index: number): string => {
+    if (!title)
+      return `${child}\n${paragraph}`
+
+    const [first, ...rest] = paragraph.split('\n')
+    const heading = first.match(HEADING)
+    return heading?.[1].trim()
+      ? `${child} ${heading[1].trim()}\n${rest.join('\n').trim()}`
+      : `${child} ${title(index)}\n${paragraph}`
+  }
+
+  return {
+    id,
+    name,
+    build: (selection) => {
+      const paragraphs = splitParagraphs(selection)
+      const sections = (paragraphs.length > 0 ? paragraphs : Array.from({ length: count }, () => '')).map(section)
+      return [markers.start, ...sections, markers.end].join('\n')
+    },
+  }
+}
+
+/**
+ * A template that collects the image embeds of the selection, one per line
+ */
+export function createImagesTemplate(markers: BlockMarkers, { id, name }: { id: string, name: string }): BlockTemplate {
+  return {
+    id,
+    name,
+    needsSelection: true,
+    build: selection => [markers.start, ...selection.match(IMAGE_EMBED) ?? [''], markers.end].join('\n'),
+  }
+}
+
+/**
+ * The templates a block offers: its own, or a wrapping one
+ */
+export function getBlockTemplates(block: BlockDefinition): BlockTemplate[] {
+  return block.templates ?? [createWrapTemplate(block.markers, { id: block.id, name: block.name })]
+}
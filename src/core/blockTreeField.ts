@@ -0,0 +1,22 @@
+import type { DocumentNode, SourceRange } from './blockAst'
+import { StateField } from '@codemirror/state'
+import { parseDocument, reparseDocument } from './blockAst'
+
+/**
+ * Block tree of the current document, shared by every block extension
+ * so the document is parsed once per change rather than once per block type.
+ * Edits only re-parse the top-level blocks they touch.
+ */
+export const blockTreeField = StateField.define<DocumentNode>({
+  create: state => parseDocument(state.doc.toString()),
+  update: (tree, transaction) => {
+    if (!transaction.docChanged)
+      return tree
+
+    const changes: SourceRange[] = []
+    transaction.changes.iterChangedRanges((fromA, toA) => {
+      changes.push({ from: fromA, to: toA })
+    })
+    return reparseDocument(tree, transaction.state.doc, changes)
+  },
+})
@@ -0,0 +1,158 @@
+import type { BlockProperties } from './blockProperties'
+import type { PropDefinition, PropSchema } from './types'
+
+export type PropValue = string | number | boolean | readonly string[]
+
+/**
+ * The value type a prop definition coerces to, e.g. `number` for `{ type: 'number' }`
+ * and the union of its values for an enum
+ */
+export type PropValueOf<D extends PropDefinition> =
+  D extends { type: 'number' | 'percent' } ? number
+    : D extends { type: 'boolean' } ? boolean
+      : D extends { type: 'enum', values: readonly (infer V)[] } ? V
+        : D extends { type: 'list' } ? string[]
+          : string
+
+/**
+ * Typed props of a schema. Props with a default are always set.
+ */
+export type TypedProps<S extends PropSchema> = {
+  [K in keyof S]: S[K] extends { default: PropValue } ? PropValueOf<S[K]> : PropValueOf<S[K]> | undefined
+}
+
+/**
+ * A prop the schema does not know, or a value it cannot coerce
+ */
+export interface PropError {
+  key: string
+  kind: 'unknown' | 'invalid'
+  message: string
+}
+
+export interface CoercedProps<S extends PropSchema> {
+  values: TypedProps<S>
+  errors: PropError[]
+}
+
+const HEX_COLOR = /^#(?:[\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/i
+const FUNCTION_COLOR = /^(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|var)\([^()]*\)$/i
+const NAMED_COLOR = /^[a-z]+$/i
+const WIKILINK = /^!?\[\[[^[\]]+\]\]$/
+const PERCENT = /^(-?\d+(?:\.\d+)?)%?$/
+
+/**
+ * Declares a prop schema. Pass it `as const` so its literal types are kept and
+ * `coerceProps` can type the values.
+ */
+export function definePropSchema<S extends PropSchema>(schema: S): S {
+  return schema
+}
+
+/**
+ * Clamps a number to the range of its definition, with an error when it was outside
+ */
+function clampToRange(key: string, number: number, { min = -Infinity, max = Infinity }: { min?: number, max?: number }): { value: number, error?: string } {
+  if (number >= min && number <= max)
+    return { value: number }
+
+  const range = Number.isFinite(min) && Number.isFinite(max) ? `between ${min} and ${max}` : Number.isFinite(min) ? `at least ${min}` : `at most ${max}`
+  return { value: Math.min(Math.max(number, min), max), error: `\`${key}\` must be ${range}` }
+}
+
+/**
+ * Coerces one raw value to its definition's type. A value that cannot be coerced
+ * comes back as an error; a number out of range comes back clamped, with an error.
+ */
+function coerceValue(key: string, raw: BlockProperties[string], definition: PropDefinition): { value?: PropValue, error?: string } {
+  if (Array.isArray(raw) !== (definition.type === 'list')) {
+    return Array.isArray(raw)
+      ? { error: `\`${key}\` takes a single value, not a list` }
+      : { error: `\`${key}\` expects a list, e.g. ${key}=[a, b]` }
+  }
+
+  switch (definition.type) {
+    case 'list':
+      return { value: raw as string[] }
+
+    case 'boolean':
+      return typeof raw === 'boolean'
+        ? { value: raw }
+        : { error: `\`${key}\` is a flag: write \`${key}\` or \`${key}=false\`` }
+
+    case 'number': {
+      const number = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : Number.NaN
+      if (!Number.isFinite(number))
+        return { error: `\`${key}\` expects a number` }
+      if (definition.integer && !Number.isInteger(number))
+        return { value: Math.round(number), error: `\`${key}\` expects a whole number` }
+      return clampToRange(key, number, definition)
+    }
+
+    case 'percent': {
+      const match = typeof raw === 'string' ? raw.trim().match(PERCENT) : null
+      return match
+        ? clampToRange(key, Number(match[1]), definition)
+        : { error: `\`${key}\` expects a percentage, e.g. ${key}=40%` }
+    }
+
+    case 'enum': {
+      // Matched regardless of case, but always passed on as declared
+      const value = typeof raw === 'string' ? definition.values.find(allowed => allowed.toLowerCase() === raw.toLowerCase()) : undefined
+      return value !== undefined
+        ? { value }
+        : { error: `\`${key}\` expects one of ${definition.values.map(allowed => `"${allowed}"`).join(', ')}` }
+    }
+
+    case 'color': {
+      const value = typeof raw === 'string' ? raw.trim() : ''
+      return HEX_COLOR.test(value) || FUNCTION_COLOR.test(value) || NAMED_COLOR.test(value)
+        ? { value }
+        : { error: `\`${key}\` expects a CSS color, e.g. ${key}="#7c3aed"` }
+    }
+
+    case 'link': {
+      const value = typeof raw === 'string' ? raw.trim() : ''
+      if (!value)
+        return { error: `\`${key}\` needs a link, e.g. ${key}="[[Note]]" or ${key}="https://…"` }
+      if (value.includes('[[') && !WIKILINK.test(value))
+        return { error: `\`${key}\` has a malformed wikilink` }
+      return { value }
+    }
+
+    default:
+      return typeof raw === 'string'
+        ? { value: raw }
+        : { error: `\`${key}\` needs a value, e.g. ${key}="…"` }
+  }
+}
+
+/**
+ * Coerces the props of a marker to the types of `schema` and fills in defaults.
+ * Unknown props are left out of the values; they and values that cannot be coerced
+ * are reported as errors, and an invalid value falls back to the default.
+ */
+export function coerceProps<S extends PropSchema>(props: BlockProperties, schema: S): CoercedProps<S> {
+  const values: Record<string, PropValue | undefined> = {}
+  const errors: PropError[] = []
+
+  for (const [key, definition] of Object.entries(schema)) {
+    values[key] = definition.default
+  }
+
+  for (const [key, raw] of Object.entries(props)) {
+    const definition = schema[key]
+    if (!definition) {
+      errors.push({ key, kind: 'unknown', message: `Unknown prop \`${key}\`` })
+      continue
+    }
+
+    const { value, error } = coerceValue(key, raw, definition)
+    if (value !== undefined)
+      values[key] = value
+    if (error)
+      errors.push({ key, kind: 'invalid', message: error })
+  }
+
+  return { values: values as TypedProps<S>, errors }
+}
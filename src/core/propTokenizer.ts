@@ -0,0 +1,182 @@
+import type { SourceRange } from './blockAst'
+
+/**
+ * One `key`, `key=value`, `key="quoted value"` or `key=[a, b]` of a props string
+ */
+export interface PropToken extends SourceRange {
+  key: string
+  keyRange: SourceRange
+  equalsRange: SourceRange | null
+  valueRange: SourceRange | null
+  value: string | string[] | null // Null for a bare flag
+  quoted: boolean // Whether a string value was quoted, so `"true"` stays a string
+}
+
+export interface PropSyntaxError extends SourceRange {
+  message: string
+}
+
+export interface TokenizedProps {
+  tokens: PropToken[]
+  errors: PropSyntaxError[]
+}
+
+const KEY = /[a-z_][\w-]*/iy
+const BARE_VALUE = /[^\s,]+/y
+const BARE_ITEM = /[^\s,\]]+/y
+const SEPARATOR = /[\s,]*/y
+const SPACES = /[ \t]*/y
+
+/**
+ * Finds the index of the parenthesis closing the one at `open`, skipping quoted strings
+ */
+export function findClosingParen(text: string, open: number): number {
+  let quote: string | null = null
+
+  for (let i = open + 1; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === '\\')
+        i++
+      else if (char === quote)
+        quote = null
+    }
+    else if (char === '"' || char === '\'') {
+      quote = char
+    }
+    else if (char === ')') {
+      return i
+    }
+  }
+
+  return -1
+}
+
+/**
+ * Matches a sticky regex at `pos` and returns the matched text, or null
+ */
+function matchAt(regex: RegExp, text: string, pos: number): string | null {
+  regex.lastIndex = pos
+  return regex.exec(text)?.[0] ?? null
+}
+
+/**
+ * Reads a string quoted with `"` or `'` starting at `pos`. A backslash escapes the next character.
+ */
+function readQuoted(text: string, pos: number): { value: string, end: number, closed: boolean } {
+  const quote = text[pos]
+  let value = ''
+  for (let i = pos + 1; i < text.length; i++) {
+    const char = text[i]
+    if (char === '\\' && i + 1 < text.length)
+      value += text[++i]
+    else if (char === quote)
+      return { value, end: i + 1, closed: true }
+    else
+      value += char
+  }
+  return { value, end: text.length, closed: false }
+}
+
+/**
+ * Reads a `[a, "b c", d]` list starting at `pos`
+ */
+function readList(text: string, pos: number): { value: string[], end: number, closed: boolean } {
+  const value: string[] = []
+  let i = pos + 1
+  while (i < text.length) {
+    i += matchAt(SEPARATOR, text, i)!.length
+    if (text[i] === ']')
+      return { value, end: i + 1, closed: true }
+    if (i >= text.length)
+      break
+
+    if (text[i] === '"' || text[i] === '\'') {
+      const item = readQuoted(text, i)
+      value.push(item.value)
+      i = item.end
+    }
+    else {
+      const item = matchAt(BARE_ITEM, text, i)!
+      value.push(item)
+      i += item.length
+    }
+  }
+  return { value, end: text.length, closed: false }
+}
+
+/**
+ * Splits the contents of a marker's parentheses into props. Props are separated by
+ * spaces or commas; keys may contain hyphens; values are bare (`cols=3`, `ratio=-1.5`),
+ * quoted with either quote and backslash escapes, or lists (`tags=[a, b]`).
+ * Offsets are relative to `text` plus `offset`.
+ */
+export function tokenizeProps(text: string, offset = 0): TokenizedProps {
+  const tokens: PropToken[] = []
+  const errors: PropSyntaxError[] = []
+  const range = (from: number, to: number): SourceRange => ({ from: offset + from, to: offset + to })
+
+  let pos = matchAt(SEPARATOR, text, 0)!.length
+  while (pos < text.length) {
+    const start = pos
+    const key = matchAt(KEY, text, pos)
+    if (!key) {
+      // Skip to the next separator and carry on with the props after it
+      const skipped = matchAt(BARE_VALUE, text, pos) ?? text[pos]
+      errors.push({ ...range(pos, pos + skipped.length), message: `Unexpected "${skipped}"` })
+      pos += skipped.length
+      pos += matchAt(SEPARATOR, text, pos)!.length
+      continue
+    }
+    pos += key.length
+
+    const token: PropToken = {
+      key,
+      keyRange: range(start, pos),
+      equalsRange: null,
+      valueRange: null,
+      value: null,
+      quoted: false,
+      ...range(start, pos),
+    }
+
+    const equals = pos + matchAt(SPACES, text, pos)!.length
+    if (text[equals] === '=') {
+      token.equalsRange = range(equals, equals + 1)
+      const valueStart = equals + 1 + matchAt(SPACES, text, equals + 1)!.length
+      const char = text[valueStart]
+      let valueEnd = valueStart
+
+      if (char === '"' || char === '\'') {
+        const quoted = readQuoted(text, valueStart)
+        token.value = quoted.value
+        token.quoted = true
+        valueEnd = quoted.end
+        if (!quoted.closed)
+          errors.push({ ...range(valueStart, valueEnd), message: `Missing closing ${char}` })
+      }
+      else if (char === '[') {
+        const list = readList(text, valueStart)
+        token.value = list.value
+        valueEnd = list.end
+        if (!list.closed)
+          errors.push({ ...range(valueStart, valueEnd), message: 'Missing closing ]' })
+      }
+      else {
+        token.value = matchAt(BARE_VALUE, text, valueStart) ?? ''
+        valueEnd = valueStart + token.value.length
+        if (!token.value)
+          errors.push({ ...range(start, equals + 1), message: `Missing value for \`${key}\`` })
+      }
+
+      token.valueRange = range(valueStart, valueEnd)
+      token.to = offset + valueEnd
+      pos = valueEnd
+    }
+
+    tokens.push(token)
+    pos += matchAt(SEPARATOR, text, pos)!.length
+  }
+
+  return { tokens, errors }
+}
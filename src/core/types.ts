@@ -0,0 +1,151 @@
+import type { Extension } from '@codemirror/state'
+import type { App, MarkdownPostProcessor, TFile } from 'obsidian'
+import type { BlockNode, SourceRange } from './blockAst'
+
+/**
+ * Markers that delimit a block in the document
+ */
+export interface BlockMarkers {
+  start: string // e.g. "::tabs"
+  end: string // e.g. "::"
+  child?: string // e.g. "--tab"
+}
+
+/**
+ * A block located in a document
+ */
+export interface BlockRange {
+  from: number
+  to: number
+  content: string
+}
+
+/**
+ * Locates blocks of a single type in a document
+ */
+export interface BlockParser {
+  /**
+   * Checks whether a line opens a block of this type
+   */
+  matches: (line: string) => boolean
+
+  /**
+   * Parses the block that opens at `from`, including any nested blocks
+   */
+  parse: (text: string, from: number) => BlockRange | null
+}
+
+/**
+ * A prop a marker accepts: its type, its default and the constraints of its values.
+ * `percent` takes numbers with an optional `%`, e.g. `width=40%`; `color` takes CSS
+ * colors; `link` takes URLs, vault paths and wikilinks; `icon` takes anything the icon
+ * resolver reads, e.g. `lucide:star` or `mdi:home`.
+ */
+export type PropDefinition =
+  | { type: 'string', default?: string }
+  | { type: 'boolean', default?: boolean }
+  | { type: 'number', default?: number, min?: number, max?: number, integer?: boolean }
+  | { type: 'percent', default?: number, min?: number, max?: number }
+  | { type: 'enum', values: readonly string[], default?: string }
+  | { type: 'color', default?: string }
+  | { type: 'link', default?: string }
+  | { type: 'icon', default?: string }
+  | { type: 'list', default?: readonly string[] }
+
+export type PropType = PropDefinition['type']
+
+/**
+ * The props a marker accepts, by name
+ */
+export type PropSchema = Record<string, PropDefinition>
+
+/**
+ * A replacement of the source between `from` and `to`
+ */
+export interface TextChange {
+  from: number
+  to: number
+  insert: string
+}
+
+/**
+ * An edit that resolves a lint issue
+ */
+export interface LintFix {
+  label: string
+  changes: TextChange[]
+}
+
+/**
+ * A problem found in a block, with absolute document offsets
+ */
+export interface LintIssue extends SourceRange {
+  severity: 'error' | 'warning' | 'info'
+  message: string
+  fixes: LintFix[]
+}
+
+/**
+ * A skeleton of a block that the insert commands and the block picker put into a note.
+ * `build` receives the selected text, which the skeleton wraps, or an empty string.
+ */
+export interface BlockTemplate {
+  id: string // e.g. "layout-2-columns", the insert command is "insert-layout-2-columns"
+  name: string // e.g. "2-column layout"
+  build: (selection: string) => string
+  needsSelection?: boolean // Only offered while text is selected
+}
+
+/**
+ * Everything the plugin needs to know about a block type
+ */
+export interface BlockDefinition {
+  // Unique identifier for the block type
+  id: string
+
+  // Display name and description for settings
+  name: string
+  description: string
+  docLink?: string
+
+  // Key in GinkoBlocksSettings.components; blocks without one are always enabled
+  settingKey?: string
+  // Shown for the setting instead of the block's name and description, for blocks sharing a key
+  settingLabel?: { name: string, description: string }
+
+  markers: BlockMarkers
+  parser: BlockParser
+
+  // Live preview extension for this block type
+  livePreview: (app: App, block: BlockDefinition) => Extension
+
+  // Reading mode renderer for this block type
+  readingMode?: (app: App, block: BlockDefinition) => MarkdownPostProcessor
+
+  // Props of the start marker and of each child marker, e.g. "tab" for "--tab". Markers
+  // without a schema accept any props.
+  props?: PropSchema
+  childProps?: Record<string, PropSchema>
+
+  // Checks specific to this block type, run after the generic ones. An issue on the
+  // props of the start marker replaces the generic checks of those props.
+  lint?: (block: BlockNode) => LintIssue[]
+
+  // Skeletons offered as insert commands and in the block picker. Blocks without any
+  // are offered in the picker as an empty block wrapping the selection.
+  templates?: BlockTemplate[]
+
+  // Clears what blocks of this type persist, such as UI state and caches, for the blocks
+  // in `file` or across the vault when `file` is null. Resolves to the number of entries removed.
+  reset?: (app: App, block: BlockDefinition, file: TFile | null) => Promise<number>
+}
+
+/**
+ * A settings entry derived from one or more registered blocks
+ */
+export interface BlockSettingEntry {
+  id: string
+  name: string
+  description: string
+  docLink: string
+}
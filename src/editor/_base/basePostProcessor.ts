@@ -0,0 +1,148 @@
+import type { App, MarkdownPostProcessorContext, MarkdownSectionInformation } from 'obsidian'
+import type { BlockNode, DocumentNode } from '../../core/blockAst'
+import type { BlockDefinition } from '../../core/types'
+import type { BaseWidget } from './baseWidget'
+import { MarkdownRenderChild, MarkdownRenderer } from 'obsidian'
+import { parseDocument } from '../../core/blockAst'
+import { getBlockId } from '../utils'
+
+/**
+ * Configuration for creating a reading mode post processor
+ */
+export interface PostProcessorConfig {
+  fieldName: string // Same as the live preview extension, so both modes share widget ids and state
+}
+
+interface ParsedSource {
+  text: string
+  tree: DocumentNode
+  lineStarts: number[]
+}
+
+// Every section of a note hands the post processors the same source text, so it is parsed once per render
+let lastParsed: ParsedSource | null = null
+
+function parseSource(text: string): ParsedSource {
+  if (lastParsed?.text !== text) {
+    const lineStarts = [0]
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+      lineStarts.push(i + 1)
+    }
+    lastParsed = { text, tree: parseDocument(text), lineStarts }
+  }
+  return lastParsed
+}
+
+/**
+ * Ties a reading mode widget to the lifetime of its section, so the widget is
+ * destroyed when the section unloads, as the editor does with its widgets
+ */
+class WidgetRenderChild extends MarkdownRenderChild {
+  private readonly widget: BaseWidget
+
+  constructor(containerEl: HTMLElement, widget: BaseWidget) {
+    super(containerEl)
+    this.widget = widget
+  }
+
+  onunload(): void {
+    this.widget.destroy(this.containerEl)
+  }
+}
+
+/**
+ * Abstract base class for reading mode post processors.
+ *
+ * Reading view renders a note section by section and `getSectionInfo` tells each
+ * section where it sits in the source. The section a block starts in is replaced
+ * by the block's widget, rendered as in live preview but without editor
+ * interactions, and the other sections of the block are hidden.
+ */
+export abstract class BasePostProcessor<T extends BaseWidget> {
+  protected readonly app: App
+  protected readonly block: BlockDefinition
+  protected readonly config: PostProcessorConfig
+
+  constructor(app: App, block: BlockDefinition, config: PostProcessorConfig) {
+    this.app = app
+    this.block = block
+    this.config = config
+  }
+
+  /**
+   * Creates a widget instance. Must be implemented by derived classes.
+   * `sourcePath` is the note being rendered.
+   */
+  protected abstract createWidget(content: string, id: string, app: App, sourcePath: string): T
+
+  process(el: HTMLElement, ctx: MarkdownPostProcessorContext): void {
+    const sectionInfo = ctx.getSectionInfo(el)
+    if (!sectionInfo)
+      return
+
+    const source = parseSource(sectionInfo.text)
+    const sectionFrom = source.lineStarts[sectionInfo.lineStart]
+    if (sectionFrom === undefined)
+      return
+
+    // Start of the section's last line
+    const lastLineFrom = source.lineStarts[sectionInfo.lineEnd] ?? source.text.length
+    const block = this.findBlock(source, sectionFrom, lastLineFrom)
+    if (!block)
+      return
+
+    if (block.from >= sectionFrom) {
+      this.renderBlock(el, block, source, sectionInfo, ctx)
+    }
+    else if (this.isInsideBlock(block, source, sectionInfo)) {
+      el.style.display = 'none'
+      el.classList.add('ginko-block-hidden-section')
+    }
+  }
+
+  /**
+   * Finds the closed top-level block of this type containing `from` or opening on a line
+   * from `from` to `lastLineFrom`: a block opening right after a paragraph shares its section.
+   * Nested blocks are rendered by the widget of their enclosing block.
+   */
+  private findBlock(source: ParsedSource, from: number, lastLineFrom: number): BlockNode | null {
+    for (const node of source.tree.children) {
+      if (node.type !== 'block' || !node.closed || node.to < from || node.from > lastLineFrom)
+        continue
+      const openLine = source.text.slice(node.openLine.from, node.openLine.to)
+      return this.block.parser.matches(openLine) ? node : null
+    }
+    return null
+  }
+
+  private isInsideBlock(block: BlockNode, source: ParsedSource, sectionInfo: MarkdownSectionInformation): boolean {
+    const sectionEnd = source.lineStarts[sectionInfo.lineEnd] ?? source.text.length
+    return sectionEnd <= block.to
+  }
+
+  private renderBlock(el: HTMLElement, block: BlockNode, source: ParsedSource, sectionInfo: MarkdownSectionInformation, ctx: MarkdownPostProcessorContext): void {
+    const content = source.text.slice(block.from, block.to).trim()
+    const id = getBlockId(this.config.fieldName, content, block.marker.props)
+    const widget = this.createWidget(content, id, this.app, ctx.sourcePath)
+
+    const dom = widget.toReadingDOM()
+    const sectionFrom = source.lineStarts[sectionInfo.lineStart]
+    const sectionTo = (source.lineStarts[sectionInfo.lineEnd + 1] ?? source.text.length + 1) - 1
+    el.empty()
+    // Text sharing the section with the block is rendered around it
+    this.renderText(el, source.text.slice(sectionFrom, block.from), ctx)
+    el.appendChild(dom)
+    ctx.addChild(new WidgetRenderChild(dom, widget))
+    this.renderText(el, source.text.slice(block.to, sectionTo), ctx)
+  }
+
+  private renderText(el: HTMLElement, text: string, ctx: MarkdownPostProcessorContext): void {
+    if (!text.trim())
+      return
+
+    const textEl = el.createDiv()
+    const markdownChild = new MarkdownRenderChild(textEl)
+    ctx.addChild(markdownChild)
+    MarkdownRenderer.render(this.app, text.trim(), textEl, ctx.sourcePath, markdownChild)
+  }
+}
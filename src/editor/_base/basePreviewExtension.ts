@@ -1,15 +1,19 @@
 import type {
   Extension,
   StateEffect,
+  Text,
   Transaction,
 } from '@codemirror/state'
 import type {
   DecorationSet,
   ViewUpdate,
-  WidgetType,
 } from '@codemirror/view'
 import type { App } from 'obsidian'
-import type { CursorLocation, RegionData } from '../utils'
+import type { BlockNode, DocumentNode } from '../../core/blockAst'
+import type { BlockParser } from '../../core/types'
+import type { BlockProperties, CursorLocation, RegionData } from '../utils'
+import type { BaseWidget } from './baseWidget'
+import type { RenderedBlock } from './renderedBlocks'
 import { syntaxTree } from '@codemirror/language'
 import {
   RangeSetBuilder,
@@ -19,27 +23,27 @@ import {
   Decoration,
   EditorView,
 } from '@codemirror/view'
-import { editorLivePreviewField } from 'obsidian'
+import { editorInfoField, editorLivePreviewField } from 'obsidian'
+import { findBlockEnd } from '../../core/blockParser'
+import { blockTreeField } from '../../core/blockTreeField'
 import {
   checkCursorInRegion,
-  collectExistingWidgets,
-
+  getBlockId,
   getCursorLocations,
-  getRegionByTags,
-  hashContent,
-
 } from '../utils'
+import { renameBlockState } from '../utils/blockState'
+import { mapRenderedBlocks } from './renderedBlocks'
 
 /**
  * Base interface for update context shared across all preview extensions
  */
-export interface BaseUpdateContext<T extends WidgetType> {
-  docText: string
+export interface BaseUpdateContext<T extends BaseWidget> {
   editState: Map<string, boolean>
   ranges: CursorLocation[]
   existingWidgets: Map<string, T>
   app: App
   transaction: Transaction
+  sourcePath: string // Note open in the editor, for state kept per note
 }
 
 /**
@@ -49,12 +53,23 @@ export interface PreviewExtensionConfig {
   startTag: string // e.g., "++center"
   endTag: string // e.g., "++"
   fieldName: string // e.g., "centerPreview"
+  parser?: BlockParser // Registered block parser; defaults to plain marker matching
 }
 
+/**
+ * Value of the preview field: the decorations and the blocks they were built from
+ */
+interface PreviewState {
+  decorations: DecorationSet
+  blocks: RenderedBlock[]
+}
+
+const emptyPreviewState: PreviewState = { decorations: Decoration.none, blocks: [] }
+
 /**
  * Abstract base class for preview extensions
  */
-export abstract class BasePreviewExtension<T extends WidgetType> {
+export abstract class BasePreviewExtension<T extends BaseWidget> {
   protected readonly app: App
   protected readonly config: PreviewExtensionConfig
   protected readonly editStateField: StateField<Map<string, boolean>>
@@ -69,23 +84,57 @@ export abstract class BasePreviewExtension<T extends WidgetType> {
    * Creates the preview extension with all necessary state fields
    */
   public createExtension(): Extension[] {
-    const previewField = StateField.define<DecorationSet>({
-      create: () => Decoration.none,
+    const previewField = StateField.define<PreviewState>({
+      create: () => emptyPreviewState,
       update: (oldState, transaction) => this.updatePreviews(oldState, transaction),
-      provide: field => EditorView.decorations.from(field),
+      provide: field => EditorView.decorations.from(field, value => value.decorations),
     })
 
-    return [previewField, this.editStateField]
+    return [
+      blockTreeField,
+      previewField,
+      this.editStateField,
+      EditorView.updateListener.of(update => this.moveBlockStates(update)),
+    ]
+  }
+
+  /**
+   * Moves the persisted state of each block an edit changed, and with it the block's id,
+   * to the new id. Runs for every edit, whether the editor is in live preview or source mode.
+   */
+  private moveBlockStates(update: ViewUpdate): void {
+    if (!update.docChanged)
+      return
+
+    const { startState, state, changes } = update
+    const edited = new Map(this.findBlocks(state.field(blockTreeField), state.doc).map(block => [block.from, block]))
+    const sourcePath = state.field(editorInfoField, false)?.file?.path ?? ''
+
+    for (const block of this.findBlocks(startState.field(blockTreeField), startState.doc)) {
+      if (changes.touchesRange(block.from, block.to) === false)
+        continue
+
+      const next = edited.get(changes.mapPos(block.from, 1))
+      if (!next)
+        continue
+
+      const fromId = this.getWidgetId(startState.doc.sliceString(block.from, block.to).trim(), block.marker.props)
+      const toId = this.getWidgetId(state.doc.sliceString(next.from, next.to).trim(), next.marker.props)
+      if (fromId !== toId)
+        renameBlockState(fromId, toId, sourcePath)
+    }
   }
 
   /**
    * Creates a widget instance. Must be implemented by derived classes.
+   * `sourcePath` is the note open in the editor.
    */
   protected abstract createWidget(
     content: string,
     id: string,
     isEditing: boolean,
-    app: App
+    app: App,
+    sourcePath: string,
   ): T
 
   /**
@@ -113,63 +162,116 @@ export abstract class BasePreviewExtension<T extends WidgetType> {
   protected abstract isToggleEditEffect(effect: StateEffect<unknown>): effect is StateEffect<{ id: string, value: boolean }>
 
   /**
-   * Updates previews based on the current transaction
+   * Updates previews based on the current transaction.
+   *
+   * Blocks come from the shared block tree, which is parsed incrementally. Blocks an
+   * edit did not touch keep their content and widget id, and the previous decorations
+   * are returned as they are when no widget appeared, disappeared or changed.
+   *
+   * Blocks are followed through edits by their start position. Their persisted state is
+   * moved by `moveBlockStates`, so this stays free of side effects.
    */
-  private updatePreviews(oldState: DecorationSet, transaction: Transaction): DecorationSet {
+  private updatePreviews(oldState: PreviewState, transaction: Transaction): PreviewState {
     if (!this.shouldUpdatePreviews(transaction)) {
       return oldState
     }
 
-    const docText = transaction.state.doc.toString()
-    if (!docText.includes(this.config.startTag)) {
-      return Decoration.none
+    const { doc } = transaction.state
+    const blocks = this.findBlocks(transaction.state.field(blockTreeField), doc)
+    if (blocks.length === 0) {
+      return oldState.blocks.length === 0 ? oldState : emptyPreviewState
     }
 
-    const builder = new RangeSetBuilder<Decoration>()
-    let pos = 0
-
-    while (pos < docText.length) {
-      const nextTag = docText.indexOf(this.config.startTag, pos)
-      if (nextTag === -1)
-        break
-
-      const parseResult = this.parseContent(docText, nextTag)
-
-      if (parseResult) {
-        if (this.shouldProcessContent(parseResult.content)) {
-          const region: RegionData = {
-            startIndex: nextTag,
-            endIndex: parseResult.endPos,
-            regionText: parseResult.content,
-            remainingText: docText.slice(parseResult.endPos),
-          }
+    const previous = mapRenderedBlocks(oldState.blocks, transaction.changes)
+    const context: BaseUpdateContext<T> = {
+      editState: transaction.state.field(this.editStateField),
+      ranges: getCursorLocations(transaction),
+      existingWidgets: this.collectWidgets(oldState.blocks),
+      app: this.app,
+      transaction,
+      sourcePath: transaction.state.field(editorInfoField, false)?.file?.path ?? '',
+    }
 
-          const context: BaseUpdateContext<T> = {
-            docText,
-            editState: transaction.state.field(this.editStateField),
-            ranges: getCursorLocations(transaction),
-            existingWidgets: collectExistingWidgets(
-              oldState,
-              transaction.state.doc.length,
-              this.createWidget('', '', false, this.app).constructor,
-            ),
-            app: this.app,
-            transaction,
-          }
+    const rendered: RenderedBlock[] = []
+    for (const block of blocks) {
+      const known = previous.get(block.from)
+      const reusable = known && !known.edited && known.to === block.to ? known : null
+      const content = reusable ? reusable.content : doc.sliceString(block.from, block.to).trim()
+      if (!this.shouldProcessContent(content))
+        continue
+
+      const region: RegionData = {
+        startIndex: block.marker.nameRange.from,
+        endIndex: block.to,
+        regionText: content,
+      }
+      const id = reusable ? reusable.id : this.getWidgetId(content, block.marker.props)
+
+      rendered.push({
+        from: block.from,
+        to: block.to,
+        content,
+        id,
+        decoration: this.createDecoration(region, context, id),
+      })
+    }
 
-          const decoration = this.createDecoration(region, context)
-          if (decoration) {
-            builder.add(region.startIndex, region.endIndex, decoration)
-          }
-        }
-        pos = parseResult.endPos
+    if (!transaction.docChanged && this.hasSameWidgets(oldState.blocks, rendered)) {
+      return oldState
+    }
+
+    const builder = new RangeSetBuilder<Decoration>()
+    for (const block of rendered) {
+      if (block.decoration) {
+        builder.add(block.from, block.to, block.decoration)
       }
-      else {
-        pos = nextTag + this.config.startTag.length
+    }
+
+    return { decorations: builder.finish(), blocks: rendered }
+  }
+
+  /**
+   * Widgets of the previous update by id, so unchanged blocks keep their rendered DOM
+   */
+  private collectWidgets(blocks: RenderedBlock[]): Map<string, T> {
+    const widgets = new Map<string, T>()
+    for (const block of blocks) {
+      const widget = block.decoration?.spec.widget as T | undefined
+      if (widget) {
+        widgets.set(block.id, widget)
       }
     }
+    return widgets
+  }
+
+  private hasSameWidgets(previous: RenderedBlock[], current: RenderedBlock[]): boolean {
+    return previous.length === current.length
+      && previous.every((block, index) =>
+        block.from === current[index].from
+        && block.decoration?.spec.widget === current[index].decoration?.spec.widget,
+      )
+  }
+
+  /**
+   * Finds the closed top-level blocks handled by this extension.
+   * Nested blocks are rendered by the widget of their enclosing block.
+   */
+  protected findBlocks(tree: DocumentNode, doc: Text): BlockNode[] {
+    return tree.children.filter((node): node is BlockNode =>
+      node.type === 'block'
+      && node.closed
+      && this.matchesBlock(node, doc),
+    )
+  }
 
-    return builder.finish()
+  /**
+   * Checks whether a block is of the type handled by this extension
+   */
+  protected matchesBlock(block: BlockNode, doc: Text): boolean {
+    if (this.config.parser) {
+      return this.config.parser.matches(doc.sliceString(block.openLine.from, block.openLine.to))
+    }
+    return `::${block.marker.name}` === this.config.startTag
   }
 
   /**
@@ -189,42 +291,14 @@ export abstract class BasePreviewExtension<T extends WidgetType> {
     return shouldUpdate
   }
 
-  /**
-   * Builds decorations for all regions
-   */
-  protected buildDecorations(context: BaseUpdateContext<T>): DecorationSet {
-    const builder = new RangeSetBuilder<Decoration>()
-    let workingText = context.docText
-    let startIndexOffset = 0
-
-    while (true) {
-      const region = getRegionByTags(
-        workingText,
-        startIndexOffset,
-        context.docText,
-        this.config.startTag,
-        this.config.endTag,
-      )
-
-      if (!region)
-        break
-
-      workingText = region.remainingText
-      startIndexOffset = region.endIndex
-
-      const decoration = this.createDecoration(region, context)
-      if (decoration) {
-        builder.add(region.startIndex, region.endIndex, decoration)
-      }
-    }
-
-    return builder.finish()
-  }
-
   /**
    * Creates a decoration for a single region
    */
-  protected createDecoration(region: RegionData, context: BaseUpdateContext<T>): Decoration | null {
+  protected createDecoration(
+    region: RegionData,
+    context: BaseUpdateContext<T>,
+    id: string,
+  ): Decoration | null {
     // First check if we're in a code block
     if (this.isInCodeBlock(context.transaction, region.startIndex)) {
       return null
@@ -241,8 +315,6 @@ export abstract class BasePreviewExtension<T extends WidgetType> {
       return null
     }
 
-    const contentHash = hashContent(region.regionText)
-    const id = `${this.config.fieldName}-${contentHash}`
     const isEditing = context.editState.get(id) || false
 
     const widget = this.getOrCreateWidget(region, id, isEditing, context)
@@ -252,6 +324,14 @@ export abstract class BasePreviewExtension<T extends WidgetType> {
     })
   }
 
+  /**
+   * Widget ids are derived from the block content so a widget survives edits elsewhere,
+   * unless the block sets an explicit `id`
+   */
+  protected getWidgetId(content: string, properties: BlockProperties): string {
+    return getBlockId(this.config.fieldName, content, properties)
+  }
+
   /**
    * Gets an existing widget or creates a new one
    */
@@ -261,62 +341,21 @@ export abstract class BasePreviewExtension<T extends WidgetType> {
     isEditing: boolean,
     context: BaseUpdateContext<T>,
   ): T {
+    // Blocks with an explicit id keep it when their content changes
     const existingWidget = context.existingWidgets.get(id)
-    if (existingWidget) {
+    if (existingWidget && existingWidget.getContent() === region.regionText) {
       return existingWidget
     }
 
-    return this.createWidget(region.regionText, id, isEditing, context.app)
+    return this.createWidget(region.regionText, id, isEditing, context.app, context.sourcePath)
   }
 
   protected parseContent(text: string, startPos: number): { content: string, endPos: number } | null {
-    const stack: string[] = []
-    let currentPos = startPos
-    let contentStart = -1
-    let nestingLevel = 0
-
-    // Split text into lines for easier processing
-    const lines = text.slice(startPos).split('\n')
-
-    // Track the initial tag we're looking for
-    let initialTag = ''
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const lineStart = currentPos
-
-      // Check for end tags first
-      if (line.trim() === '::') {
-        if (stack.length > 0) {
-          nestingLevel--
-          const lastTag = stack.pop()
-
-          // Only return content if we're closing our initial tag
-          if (nestingLevel === 0 && lastTag === initialTag) {
-            const content = text.slice(contentStart, lineStart + line.length).trim()
-            return {
-              content,
-              endPos: lineStart + line.length,
-            }
-          }
-        }
-      }
-      // Then check for start tags
-      else if (line.trim().startsWith('::')) {
-        const tagName = line.trim().split(/[\s(]/)[0] // Get the tag name before any parameters
-
-        if (contentStart === -1) {
-          contentStart = lineStart
-          initialTag = tagName
-        }
-        nestingLevel++
-        stack.push(tagName)
-      }
+    const range = this.config.parser
+      ? this.config.parser.parse(text, startPos)
+      : findBlockEnd(text, startPos)
 
-      currentPos += line.length + 1 // +1 for the newline character
-    }
-
-    return null
+    return range ? { content: range.content, endPos: range.to } : null
   }
 
   protected shouldProcessContent(content: string): boolean {
@@ -337,30 +376,14 @@ export abstract class BasePreviewExtension<T extends WidgetType> {
    */
   protected abstract processContentBlock(content: string, startPos: number, endPos: number): void
 
-  // Update the update method to use these new helpers
   update(transaction: ViewUpdate): void {
-    const docText = transaction.state.doc.toString()
-
-    if (!docText.includes(this.config.startTag)) {
-      return
-    }
+    const { doc } = transaction.state
 
-    let pos = 0
-    while (pos < docText.length) {
-      const nextTag = docText.indexOf(this.config.startTag, pos)
-      if (nextTag === -1) {
-        break
+    for (const block of this.findBlocks(transaction.state.field(blockTreeField), doc)) {
+      const content = doc.sliceString(block.from, block.to).trim()
+      if (this.shouldProcessContent(content)) {
+        this.processContentBlock(content, block.marker.nameRange.from, block.to)
       }
-
-      const parseResult = this.parseContent(docText, nextTag)
-
-      if (parseResult) {
-        if (this.shouldProcessContent(parseResult.content)) {
-          this.processContentBlock(parseResult.content, nextTag, parseResult.endPos)
-        }
-      }
-
-      pos = parseResult ? parseResult.endPos : nextTag + this.config.startTag.length
     }
   }
 
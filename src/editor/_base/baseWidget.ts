@@ -1,13 +1,16 @@
 import type { EditorView } from '@codemirror/view'
 import type { App } from 'obsidian'
+import type { BlockNode } from '../../core/blockAst'
+import type { TextChange } from '../../core/types'
 import { randomUUID } from 'node:crypto'
 import { WidgetType } from '@codemirror/view'
-
+import { blockTreeField } from '../../core/blockTreeField'
 
 export interface BaseWidgetConfig {
   content: string
   id: string
   app: App
+  sourcePath?: string // Note the block is in, for state kept per note
 }
 
 /**
@@ -19,15 +22,15 @@ export abstract class BaseWidget extends WidgetType {
   protected readonly content: string
   protected readonly id: string
   protected readonly app: App
+  protected readonly sourcePath: string
 
-  constructor({ content, id, app }: BaseWidgetConfig) {
+  constructor({ content, id, app, sourcePath = '' }: BaseWidgetConfig) {
     super()
     this.instanceId = randomUUID()
     this.content = content
     this.id = id
     this.app = app
-
-
+    this.sourcePath = sourcePath
   }
 
   /**
@@ -46,9 +49,17 @@ export abstract class BaseWidget extends WidgetType {
   }
 
   /**
-   * Abstract method that must be implemented by child classes to create the preview view
+   * Creates the widget's DOM for reading mode: the same structure as in the editor, without editing controls
+   */
+  toReadingDOM(): HTMLElement {
+    return this.createPreviewView(null)
+  }
+
+  /**
+   * Abstract method that must be implemented by child classes to create the preview view.
+   * `view` is null in reading mode, where there is no editor to jump into.
    */
-  protected abstract createPreviewView(view: EditorView): HTMLElement
+  protected abstract createPreviewView(view: EditorView | null): HTMLElement
 
   /**
    * Creates an edit button with the specified click handler
@@ -68,6 +79,29 @@ export abstract class BaseWidget extends WidgetType {
     return editButton
   }
 
+  /**
+   * Finds the block a widget renders, in the editor's current block tree
+   */
+  protected findBlock(view: EditorView, container: HTMLElement): BlockNode | null {
+    const pos = view.posAtDOM(container)
+    const tree = view.state.field(blockTreeField, false)
+    return tree?.children.find((node): node is BlockNode => node.type === 'block' && node.from === pos) ?? null
+  }
+
+  /**
+   * Rewrites the markdown of the block a widget renders. `edit` computes the changes from
+   * the block as it is now, so edits made since the widget was drawn are not lost.
+   */
+  protected editBlock(view: EditorView, container: HTMLElement, edit: (block: BlockNode, source: string) => TextChange[]): void {
+    const block = this.findBlock(view, container)
+    if (!block)
+      return
+
+    const changes = edit(block, view.state.doc.toString())
+    if (changes.length > 0)
+      view.dispatch({ changes })
+  }
+
   /**
    * Creates a container element with common attributes
    */
@@ -0,0 +1,43 @@
+import type { ChangeDesc } from '@codemirror/state'
+import type { Decoration } from '@codemirror/view'
+
+/**
+ * A block found by the last update, kept so unchanged blocks are not re-read and re-hashed
+ */
+export interface RenderedBlock {
+  from: number
+  to: number
+  content: string
+  id: string
+  decoration: Decoration | null
+}
+
+/**
+ * A block of the last update mapped into the new document
+ */
+export interface MappedBlock extends RenderedBlock {
+  edited: boolean // An edit touched the block, so its content must be re-read
+}
+
+/**
+ * Maps the blocks of the previous update into the new document by their new start position.
+ * Text inserted right before a block moves the block rather than joining it.
+ */
+export function mapRenderedBlocks(blocks: readonly RenderedBlock[], changes: ChangeDesc): Map<number, MappedBlock> {
+  const mapped = new Map<number, MappedBlock>()
+  for (const block of blocks) {
+    if (changes.empty) {
+      mapped.set(block.from, { ...block, edited: false })
+      continue
+    }
+
+    const from = changes.mapPos(block.from, 1)
+    mapped.set(from, {
+      ...block,
+      from,
+      to: changes.mapPos(block.to, -1),
+      edited: changes.touchesRange(block.from, block.to) !== false,
+    })
+  }
+  return mapped
+}
@@ -0,0 +1,47 @@
+import type { App, FuzzyMatch } from 'obsidian'
+import type { BlockDefinition, BlockTemplate } from '../../core/types'
+import { FuzzySuggestModal } from 'obsidian'
+
+/**
+ * A template offered in the picker, with the block it belongs to
+ */
+export interface BlockPickerItem {
+  block: BlockDefinition
+  template: BlockTemplate
+}
+
+/**
+ * Lists every block template with a preview of its skeleton and inserts the one chosen
+ */
+export class BlockPickerModal extends FuzzySuggestModal<BlockPickerItem> {
+  private readonly items: BlockPickerItem[]
+  private readonly onChoose: (item: BlockPickerItem) => void
+
+  constructor(app: App, items: BlockPickerItem[], onChoose: (item: BlockPickerItem) => void) {
+    super(app)
+    this.items = items
+    this.onChoose = onChoose
+    this.setPlaceholder('Insert a block…')
+    this.modalEl.addClass('ginko-blocks-picker')
+  }
+
+  getItems(): BlockPickerItem[] {
+    return this.items
+  }
+
+  getItemText(item: BlockPickerItem): string {
+    return `${item.template.name} ${item.block.markers.start}`
+  }
+
+  renderSuggestion(match: FuzzyMatch<BlockPickerItem>, el: HTMLElement): void {
+    const { block, template } = match.item
+    el.addClass('ginko-blocks-picker-item')
+    el.createDiv({ cls: 'ginko-blocks-picker-name', text: template.name })
+    el.createDiv({ cls: 'ginko-blocks-picker-description', text: block.description })
+    el.createEl('pre', { cls: 'ginko-blocks-picker-preview', text: template.build('') })
+  }
+
+  onChooseItem(item: BlockPickerItem): void {
+    this.onChoose(item)
+  }
+}
@@ -0,0 +1,117 @@
+import type { App } from 'obsidian'
+import type { IconifyCollection } from '../utils/iconifySets'
+import type { IconEntry } from './iconSearch'
+import { getIcon, getIconIds, Modal } from 'obsidian'
+import { getIconifySvg } from '../utils/iconifySets'
+import { getIconProvider } from '../utils/iconProvider'
+import { sanitizeSvg } from '../utils/svgSanitizer'
+import { getBuiltinIconEntries, getIconifyEntries, searchIcons } from './iconSearch'
+
+// Rendering every icon of a large set at once would stall the modal
+const MAX_RESULTS = 240
+
+/**
+ * Searches Lucide, Obsidian's icons and the Iconify sets of the icon folder, shows the
+ * matches as a grid of previews and passes the id of the chosen icon to `onChoose`
+ */
+export class IconPickerModal extends Modal {
+  private readonly onChoose: (id: string) => void
+  private readonly query: string
+  private readonly collections = new Map<string, IconifyCollection>()
+  private entries: IconEntry[] = []
+
+  constructor(app: App, onChoose: (id: string) => void, query = '') {
+    super(app)
+    this.onChoose = onChoose
+    this.query = query
+  }
+
+  onOpen() {
+    const { contentEl, modalEl, titleEl } = this
+    titleEl.setText('Insert icon')
+    modalEl.addClass('ginko-icon-picker')
+
+    const input = contentEl.createEl('input', {
+      type: 'search',
+      cls: 'ginko-icon-picker-search',
+      placeholder: 'Search icons, e.g. file code or mdi:home',
+      value: this.query,
+    })
+    const status = contentEl.createDiv('ginko-icon-picker-status')
+    const grid = contentEl.createDiv('ginko-icon-picker-grid')
+    const render = () => this.renderResults(input.value, status, grid)
+
+    input.addEventListener('input', render)
+    input.addEventListener('keydown', (e) => {
+      if (e.key !== 'Enter')
+        return
+      e.preventDefault()
+      const first = searchIcons(this.entries, input.value, 1)[0]
+      if (first)
+        this.choose(first)
+    })
+
+    this.entries = getBuiltinIconEntries(getIconIds())
+    render()
+    input.focus()
+    this.loadIconSets().then(render)
+  }
+
+  onClose() {
+    this.contentEl.empty()
+  }
+
+  /**
+   * Adds the icons of the Iconify sets once they are read
+   */
+  private async loadIconSets(): Promise<void> {
+    const provider = getIconProvider()
+    if (!provider)
+      return
+
+    for (const prefix of await provider.getPrefixes()) {
+      const collection = await provider.getCollection(prefix)
+      if (collection) {
+        this.collections.set(collection.prefix, collection)
+        this.entries.push(...getIconifyEntries(collection))
+      }
+    }
+  }
+
+  private renderResults(query: string, status: HTMLElement, grid: HTMLElement): void {
+    const results = searchIcons(this.entries, query, MAX_RESULTS)
+    grid.empty()
+    results.forEach(entry => this.renderEntry(grid, entry))
+
+    const sets = this.collections.size > 0 ? ` from Lucide, Obsidian and ${this.collections.size} icon ${this.collections.size === 1 ? 'set' : 'sets'}` : ''
+    status.setText(results.length === 0
+      ? 'No matching icons'
+      : results.length === MAX_RESULTS ? `Showing the first ${MAX_RESULTS} icons${sets}` : `${results.length} ${results.length === 1 ? 'icon' : 'icons'}${sets}`)
+  }
+
+  private renderEntry(grid: HTMLElement, entry: IconEntry): void {
+    const item = grid.createEl('button', { cls: 'ginko-icon-picker-item', attr: { 'aria-label': `${entry.id} (${entry.source})` } })
+    const preview = item.createDiv('ginko-icon-picker-preview')
+    item.createDiv({ cls: 'ginko-icon-picker-name', text: entry.name })
+
+    if (entry.iconId) {
+      const icon = getIcon(entry.iconId)
+      if (icon)
+        preview.appendChild(icon)
+    }
+    else {
+      const [prefix, name] = entry.id.split(':')
+      const collection = this.collections.get(prefix)
+      const svg = collection && sanitizeSvg(getIconifySvg(collection, name, 24) ?? '')
+      if (svg)
+        preview.innerHTML = svg
+    }
+
+    item.addEventListener('click', () => this.choose(entry))
+  }
+
+  private choose(entry: IconEntry): void {
+    this.close()
+    this.onChoose(entry.id)
+  }
+}
@@ -0,0 +1,50 @@
+import type { IconifyCollection } from '../utils/iconifySets'
+
+/**
+ * An icon offered in the icon picker
+ */
+export interface IconEntry {
+  id: string // What is inserted, e.g. `lucide:star` or `mdi:home`
+  name: string
+  source: string // Lucide, Obsidian or the name of an Iconify set
+  iconId?: string // Obsidian's id of a built-in icon, for its preview
+}
+
+/**
+ * The icons registered with Obsidian: Lucide icons as `lucide:name`, others by their id
+ */
+export function getBuiltinIconEntries(iconIds: readonly string[]): IconEntry[] {
+  return iconIds.map(iconId => iconId.startsWith('lucide-')
+    ? { id: `lucide:${iconId.slice('lucide-'.length)}`, name: iconId.slice('lucide-'.length), source: 'Lucide', iconId }
+    : { id: iconId, name: iconId, source: 'Obsidian', iconId })
+}
+
+/**
+ * The icons and aliases of an Iconify set, as `prefix:name`
+ */
+export function getIconifyEntries(collection: IconifyCollection): IconEntry[] {
+  const source = collection.info?.name ?? collection.prefix
+  return [...Object.keys(collection.icons), ...Object.keys(collection.aliases ?? {})]
+    .map(name => ({ id: `${collection.prefix}:${name}`, name, source }))
+}
+
+/**
+ * The icons matching every word of the query in their id or source, exact names first,
+ * then names starting with the first word. At most `limit` are returned.
+ */
+export function searchIcons(entries: readonly IconEntry[], query: string, limit: number): IconEntry[] {
+  const terms = query.toLowerCase().split(/[\s:]+/).filter(Boolean)
+  if (terms.length === 0)
+    return entries.slice(0, limit)
+
+  const rank = (entry: IconEntry) => entry.name === terms[terms.length - 1] ? 0 : entry.name.startsWith(terms[0]) ? 1 : 2
+  return entries
+    .filter((entry) => {
+      const text = `${entry.id} ${entry.source}`.toLowerCase()
+      return terms.every(term => text.includes(term))
+    })
+    .map(entry => ({ entry, rank: rank(entry) }))
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ entry }) => entry)
+}
@@ -0,0 +1,27 @@
+import type { Editor } from 'obsidian'
+import type { BlockTemplate } from '../../core/types'
+
+/**
+ * Inserts a block skeleton at the cursor, wrapping the selection if there is one.
+ * The block gets lines of its own; without a selection the cursor is left on the
+ * line after the start marker, e.g. on the first section's title.
+ */
+export function insertBlockTemplate(editor: Editor, template: BlockTemplate): void {
+  const from = editor.getCursor('from')
+  const to = editor.getCursor('to')
+  const selection = editor.getSelection()
+
+  const before = editor.getLine(from.line).slice(0, from.ch).trim() !== ''
+  const after = editor.getLine(to.line).slice(to.ch).trim() !== ''
+  const text = `${before ? '\n' : ''}${template.build(selection)}${after ? '\n' : ''}`
+  editor.replaceRange(text, from, to)
+
+  const startLine = from.line + (before ? 1 : 0)
+  if (selection) {
+    const lastLine = startLine + text.trim().split('\n').length - 1
+    editor.setCursor({ line: lastLine, ch: editor.getLine(lastLine).length })
+  }
+  else {
+    editor.setCursor({ line: startLine + 1, ch: editor.getLine(startLine + 1).length })
+  }
+}
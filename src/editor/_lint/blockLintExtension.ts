@@ -0,0 +1,60 @@
+import type { Action, Diagnostic } from '@codemirror/lint'
+import type { Extension } from '@codemirror/state'
+import type { EditorView } from '@codemirror/view'
+import type { BlockRegistry } from '../../core/blockRegistry'
+import type { LintIssue } from '../../core/types'
+import { linter } from '@codemirror/lint'
+import { lintDocument } from '../../core/blockLint'
+import { blockTreeField } from '../../core/blockTreeField'
+
+const LINT_DELAY = 750 // Wait for a pause in typing; half-typed blocks are always broken
+
+/**
+ * Renders a message with its `quoted` parts as inline code
+ */
+function renderMessage(message: string): Node {
+  const fragment = document.createDocumentFragment()
+  message.split('`').forEach((part, index) => {
+    if (index % 2 === 1)
+      fragment.appendChild(document.createElement('code')).textContent = part
+    else if (part)
+      fragment.appendChild(document.createTextNode(part))
+  })
+  return fragment
+}
+
+function toDiagnostic(issue: LintIssue): Diagnostic {
+  const actions: Action[] = issue.fixes.map(fix => ({
+    name: fix.label,
+    apply: (view: EditorView, from: number) => {
+      // The document may have changed since the lint run; the diagnostic has been mapped, the fix has not
+      const delta = from - issue.from
+      view.dispatch({
+        changes: fix.changes.map(change => ({ from: change.from + delta, to: change.to + delta, insert: change.insert })),
+      })
+    },
+  }))
+
+  return {
+    from: issue.from,
+    to: issue.to,
+    severity: issue.severity,
+    source: 'Ginko Blocks',
+    message: issue.message.replace(/`/g, ''),
+    renderMessage: () => renderMessage(issue.message),
+    actions,
+  }
+}
+
+/**
+ * Creates the linter that reports problems in Ginko blocks as editor diagnostics, with quick fixes
+ */
+export function createBlockLintExtension(registry: BlockRegistry): Extension {
+  return [
+    blockTreeField,
+    linter((view) => {
+      const { state } = view
+      return lintDocument(state.field(blockTreeField), state.doc.toString(), registry).map(toDiagnostic)
+    }, { delay: LINT_DELAY }),
+  ]
+}
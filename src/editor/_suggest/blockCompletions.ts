@@ -0,0 +1,201 @@
+import type { BlockDefinition, PropDefinition, PropSchema } from '../../core/types'
+import { parseDocument, walkBlocks } from '../../core/blockAst'
+import { findClosingParen, tokenizeProps } from '../../core/propTokenizer'
+
+/**
+ * One suggestion: a block name, a child marker, a prop or a prop value
+ */
+export interface BlockCompletion {
+  label: string
+  detail: string
+  insert: string
+  cursor?: number // Offset of the cursor in `insert` once inserted, the end by default
+  block?: BlockDefinition // Set for block names, so the block can be closed
+  pickIcon?: boolean // Opens the icon picker, which inserts the chosen icon instead
+}
+
+/**
+ * The completions for a cursor position and the part of its line they replace
+ */
+export interface CompletionResult {
+  from: number
+  to: number
+  query: string
+  completions: BlockCompletion[]
+}
+
+// A letter is required after `::`, so typing a closing `::` never opens the popover
+const BLOCK_NAME = /^\s*::([a-z][\w-]*)$/i
+const CHILD_NAME = /^\s*--([a-z][\w-]*)?$/i
+const MARKER_PROPS = /^\s*(::|--)([a-z][\w-]*)\(/i
+const PROP_VALUE = /([a-z_][\w-]*)[ \t]*=[ \t]*(["']?)([^\s"',]*)$/i
+const PROP_KEY = /(?:^|[\s,])([a-z_][\w-]*)?$/i
+
+/**
+ * Matches names containing the query, those starting with it first
+ */
+function filterByQuery<T>(items: T[], query: string, name: (item: T) => string): T[] {
+  const lower = query.toLowerCase()
+  const matching = items.filter(item => name(item).toLowerCase().includes(lower))
+  return [
+    ...matching.filter(item => name(item).toLowerCase().startsWith(lower)),
+    ...matching.filter(item => !name(item).toLowerCase().startsWith(lower)),
+  ]
+}
+
+/**
+ * A short description of what a prop takes, e.g. "number 1–6, default 2"
+ */
+function describeProp(definition: PropDefinition): string {
+  let type: string
+  switch (definition.type) {
+    case 'boolean':
+      return 'flag'
+    case 'number':
+    case 'percent':
+      type = definition.min !== undefined && definition.max !== undefined ? `${definition.type} ${definition.min}–${definition.max}` : definition.type
+      break
+    case 'enum':
+      type = `one of ${definition.values.join(', ')}`
+      break
+    case 'color':
+      type = 'CSS color'
+      break
+    case 'string':
+      type = 'text'
+      break
+    default:
+      type = definition.type
+  }
+  return definition.default === undefined ? type : `${type}, default ${String(definition.default)}`
+}
+
+/**
+ * The text inserted for a prop: a flag on its own, lists and quoted values with the cursor inside
+ */
+function propCompletion(key: string, definition: PropDefinition): BlockCompletion {
+  const detail = describeProp(definition)
+  switch (definition.type) {
+    case 'boolean':
+      return { label: key, detail, insert: key }
+    case 'number':
+    case 'percent':
+      return { label: key, detail, insert: `${key}=` }
+    case 'list':
+      return { label: key, detail, insert: `${key}=[]`, cursor: key.length + 2 }
+    default:
+      return { label: key, detail, insert: `${key}=""`, cursor: key.length + 2 }
+  }
+}
+
+function completeBlockNames(blocks: readonly BlockDefinition[], line: string, query: string): CompletionResult {
+  const from = line.length - query.length
+  const completions = filterByQuery([...blocks], query, block => block.markers.start.slice(2))
+    .map(block => ({ label: block.markers.start, detail: block.description, insert: block.markers.start.slice(2), block }))
+  return { from, to: from + query.length, query, completions }
+}
+
+function completeProps(schema: PropSchema, line: string, open: number, ch: number): CompletionResult | null {
+  const text = line.slice(open + 1, ch)
+  const { tokens, errors } = tokenizeProps(text)
+
+  const valueMatch = text.match(PROP_VALUE)
+  if (valueMatch) {
+    const [, key, quote, query] = valueMatch
+    const definition = schema[key]
+    const values = definition?.type === 'enum'
+      ? definition.values.map(value => ({ label: value, detail: key, insert: `"${value}"` }))
+      : definition?.type === 'boolean'
+        ? ['true', 'false'].map(value => ({ label: value, detail: key, insert: value }))
+        : []
+    const from = ch - quote.length - query.length
+    // Replaces a closing quote the editor paired with the opening one
+    const to = quote && line[ch] === quote ? ch + 1 : ch
+    const completions = definition?.type === 'icon'
+      ? [{ label: 'Browse icons…', detail: key, insert: '', pickIcon: true }]
+      : filterByQuery(values, query, value => value.label)
+    return { from, to, query, completions }
+  }
+
+  // No props inside a quoted value
+  if (errors.some(error => error.message.startsWith('Missing closing')))
+    return null
+
+  const query = text.match(PROP_KEY)?.[1] ?? ''
+  const used = new Set(tokens.map(token => token.key))
+  used.delete(query)
+  const completions = Object.entries(schema)
+    .filter(([key]) => !used.has(key))
+    .map(([key, definition]) => propCompletion(key, definition))
+  return { from: ch - query.length, to: ch, query, completions: filterByQuery(completions, query, completion => completion.label) }
+}
+
+/**
+ * Finds the completions at a cursor position in a line: block names after `::`, the
+ * child marker of the enclosing block after `--`, and props and their values inside
+ * the parentheses of a marker. `getEnclosingBlock` is only called for child markers.
+ */
+export function getBlockCompletions(
+  blocks: readonly BlockDefinition[],
+  line: string,
+  ch: number,
+  getEnclosingBlock: () => BlockDefinition | undefined,
+): CompletionResult | null {
+  const before = line.slice(0, ch)
+
+  const blockName = before.match(BLOCK_NAME)
+  if (blockName)
+    return completeBlockNames(blocks, before, blockName[1])
+
+  const childName = before.match(CHILD_NAME)
+  if (childName) {
+    const child = getEnclosingBlock()?.markers.child
+    const query = childName[1] ?? ''
+    if (!child || !child.slice(2).startsWith(query))
+      return null
+    return { from: ch - query.length - 2, to: ch, query, completions: [{ label: child, detail: 'Section', insert: child }] }
+  }
+
+  const marker = before.match(MARKER_PROPS)
+  if (!marker)
+    return null
+
+  const open = marker[0].length - 1
+  const close = findClosingParen(line, open)
+  if (close !== -1 && close < ch)
+    return null
+
+  const [, prefix, name] = marker
+  const schema = prefix === '::'
+    ? blocks.find(block => block.parser.matches(line))?.props
+    : getEnclosingBlock()?.childProps?.[name]
+  return schema ? completeProps(schema, line, open, ch) : null
+}
+
+function countUnclosed(source: string): number {
+  let count = 0
+  walkBlocks(parseDocument(source), (block) => {
+    if (!block.closed)
+      count++
+  })
+  return count
+}
+
+/**
+ * Whether the start marker between `from` and `to` leaves a block unclosed, either its
+ * own or, by taking its `::`, the block around it
+ */
+export function needsClosingMarker(source: string, from: number, to: number): boolean {
+  return countUnclosed(source) > countUnclosed(source.slice(0, from) + source.slice(to))
+}
+
+/**
+ * The lines that close a block opened at the end of a line: its first section, if it has
+ * sections, and the `::`. `cursor` is where to continue typing, relative to the marker line.
+ */
+export function getClosingSnippet(block: BlockDefinition, indent: string): { text: string, cursor: { line: number, ch: number } } {
+  const child = block.markers.child
+  return child
+    ? { text: `\n${indent}${child} \n${indent}${block.markers.end}`, cursor: { line: 1, ch: indent.length + child.length + 1 } }
+    : { text: `\n${indent}\n${indent}${block.markers.end}`, cursor: { line: 1, ch: indent.length } }
+}
@@ -0,0 +1,94 @@
+import type { App, Editor, EditorPosition, EditorSuggestContext, EditorSuggestTriggerInfo } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import type GinkoBlocksPlugin from '../../main'
+import type { BlockCompletion } from './blockCompletions'
+import { EditorSuggest } from 'obsidian'
+import { findBlockAt, parseDocument } from '../../core/blockAst'
+import { IconPickerModal } from '../_insert/iconPickerModal'
+import { getBlockCompletions, getClosingSnippet, needsClosingMarker } from './blockCompletions'
+
+/**
+ * Suggests block names after `::`, the child marker of the enclosing block after `--`
+ * and props inside a marker's parentheses. Choosing a block name closes the block
+ * when it is not closed yet; icon props open the icon picker.
+ */
+export class BlockSuggest extends EditorSuggest<BlockCompletion> {
+  private readonly plugin: GinkoBlocksPlugin
+  private completions: BlockCompletion[] = []
+
+  constructor(app: App, plugin: GinkoBlocksPlugin) {
+    super(app)
+    this.plugin = plugin
+  }
+
+  onTrigger(cursor: EditorPosition, editor: Editor): EditorSuggestTriggerInfo | null {
+    if (!this.plugin.settings.utilities.autocomplete)
+      return null
+
+    const blocks = this.plugin.registry.getAll().filter(block => this.plugin.isBlockEnabled(block))
+    const line = editor.getLine(cursor.line)
+    const result = getBlockCompletions(blocks, line, cursor.ch, () => this.getEnclosingBlock(editor, cursor, blocks))
+    if (!result || result.completions.length === 0)
+      return null
+
+    this.completions = result.completions
+    return {
+      start: { line: cursor.line, ch: result.from },
+      end: { line: cursor.line, ch: result.to },
+      query: result.query,
+    }
+  }
+
+  getSuggestions(_context: EditorSuggestContext): BlockCompletion[] {
+    return this.completions
+  }
+
+  renderSuggestion(completion: BlockCompletion, el: HTMLElement): void {
+    el.addClass('ginko-blocks-suggestion')
+    el.createDiv({ cls: 'ginko-blocks-suggestion-label', text: completion.label })
+    el.createDiv({ cls: 'ginko-blocks-suggestion-detail', text: completion.detail })
+  }
+
+  selectSuggestion(completion: BlockCompletion): void {
+    if (!this.context)
+      return
+
+    const { editor, start, end, query } = this.context
+    if (completion.pickIcon) {
+      new IconPickerModal(this.app, (id) => {
+        editor.replaceRange(`"${id}"`, start, end)
+        editor.setCursor({ line: start.line, ch: start.ch + id.length + 2 })
+      }, query).open()
+      this.close()
+      return
+    }
+
+    editor.replaceRange(completion.insert, start, end)
+    let cursor: EditorPosition = { line: start.line, ch: start.ch + (completion.cursor ?? completion.insert.length) }
+
+    if (completion.block) {
+      const line = editor.getLine(start.line)
+      const from = editor.posToOffset({ line: start.line, ch: 0 })
+      if (needsClosingMarker(editor.getValue(), from, from + line.length)) {
+        const snippet = getClosingSnippet(completion.block, line.match(/^\s*/)![0])
+        editor.replaceRange(snippet.text, { line: start.line, ch: line.length })
+        cursor = { line: start.line + snippet.cursor.line, ch: snippet.cursor.ch }
+      }
+    }
+
+    editor.setCursor(cursor)
+  }
+
+  /**
+   * The type of the innermost block around the cursor
+   */
+  private getEnclosingBlock(editor: Editor, cursor: EditorPosition, blocks: BlockDefinition[]): BlockDefinition | undefined {
+    const source = editor.getValue()
+    const block = findBlockAt(parseDocument(source), editor.posToOffset(cursor))
+    if (!block)
+      return undefined
+
+    const openLine = source.slice(block.openLine.from, block.openLine.to)
+    return blocks.find(definition => definition.parser.matches(openLine))
+  }
+}
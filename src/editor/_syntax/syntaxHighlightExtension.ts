@@ -1,8 +1,13 @@
-import type { Transaction } from '@codemirror/state'
+import type { EditorState, Extension, Line, Transaction } from '@codemirror/state'
 import type { DecorationSet } from '@codemirror/view'
+import type { MarkerInfo } from '../../core/blockAst'
+import type { BlockRegistry } from '../../core/blockRegistry'
 import { syntaxTree } from '@codemirror/language'
 import { RangeSetBuilder, StateField } from '@codemirror/state'
 import { Decoration, EditorView } from '@codemirror/view'
+import { getSections, walkBlocks } from '../../core/blockAst'
+import { blockTreeField } from '../../core/blockTreeField'
+import { findClosingParen, tokenizeProps } from '../../core/propTokenizer'
 
 /**
  * Configuration for syntax highlighting behavior
@@ -10,11 +15,8 @@ import { Decoration, EditorView } from '@codemirror/view'
 const CONFIG = {
   maxPropLength: 1000, // Prevent excessive prop parsing
   patterns: {
-    start: /^::([\w-]+)(?:\(([^)]*)\))?$/,
-    middle: /^--[\w-]+(?:\(([^)]*)\))?(?:[ \t].*)?$/,
-    end: /^::$/, // Only match exactly '::'
-    singleLine: /^:([\w-]+)(?:\(([^)]*)\))?(?:[ \t].*)?$/,  // Match :component-name with optional props
-    inline: /:([\w-]+)(?:\(([^)]*)\))?/,  // Match :component-name with optional props inline (non-global)
+    singleLine: /^:([\w-]+)(?=[( \t]|$)/, // Match :component-name, followed by its props or content
+    inline: /:([\w-]+)/, // Match :component-name inline (non-global); props are read by the tokenizer
   },
   codeBlockTypes: new Set([
     'codeblock',
@@ -26,7 +28,6 @@ const CONFIG = {
 /**
  * Types for improved type safety
  */
-type BlockCategory = string
 type DecorationFactory = (category?: string) => Decoration
 interface DecorationFactories {
   [key: string]: DecorationFactory
@@ -120,118 +121,146 @@ class DecorationManager {
 
 /**
  * Processes and decorates properties within block markers.
- * Handles both string props (key="value") and boolean props (flag).
+ * Handles both valued props (key="value", cols=3, tags=[a, b]) and boolean props (flag).
  *
- * The function carefully parses the props section to apply appropriate decorations
- * while avoiding infinite loops and handling edge cases. It uses a position-based
- * approach to process each prop sequentially.
+ * The props are split by the shared prop tokenizer, so the highlighting agrees with
+ * what the blocks parse: quoted values may contain parentheses, keys may contain hyphens.
  *
  * @param manager - The decoration manager instance
- * @param lineStart - The starting position of the current line
- * @param text - The full text of the line containing props
- * @param _category - The block category
+ * @param from - The document position of the opening parenthesis
+ * @param text - The text from the opening parenthesis onwards
+ * @returns The offset of the closing parenthesis in `text`, or -1 if the props are not closed
  */
 function processProps(
   manager: DecorationManager,
-  lineStart: number,
+  from: number,
   text: string,
-  _category: BlockCategory,
-): void {
-  try {
-    const propsStart = text.indexOf('(')
-    const propsEnd = text.lastIndexOf(')')
-
-    if (propsStart === -1 || propsEnd === -1 || propsEnd <= propsStart) {
-      return
-    }
+): number {
+  const propsEnd = findClosingParen(text, 0)
+  if (propsEnd === -1) {
+    return -1
+  }
 
-    const propsContent = text.slice(propsStart + 1, propsEnd)
-    if (propsContent.length > CONFIG.maxPropLength) {
-      manager.addError(new Error(`Props content exceeds maximum length of ${CONFIG.maxPropLength}`))
-      return
-    }
+  if (propsEnd - 1 > CONFIG.maxPropLength) {
+    manager.addError(new Error(`Props content exceeds maximum length of ${CONFIG.maxPropLength}`))
+    return propsEnd
+  }
 
+  try {
     manager.enterProps()
+    manager.add(from, from + propsEnd + 1, decorations.propsContainer())
 
-    manager.add(
-      lineStart + propsStart,
-      lineStart + propsEnd + 1,
-      decorations.propsContainer(),
-    )
-
-    let pos = 0
-
-    while (pos < propsContent.length) {
-      const startPos = pos
+    for (const token of tokenizeProps(text.slice(1, propsEnd), from + 1).tokens) {
+      if (!token.equalsRange || !token.valueRange) {
+        manager.add(token.keyRange.from, token.keyRange.to, decorations.booleanProp())
+        continue
+      }
 
-      while (pos < propsContent.length && /\s/.test(propsContent[pos])) pos++
-      if (pos >= propsContent.length)
-        break
+      manager.add(token.keyRange.from, token.keyRange.to, decorations.propName())
+      manager.add(token.equalsRange.from, token.equalsRange.to, decorations.propEquals())
+      if (token.valueRange.to > token.valueRange.from) {
+        manager.add(token.valueRange.from, token.valueRange.to, decorations.propValue())
+      }
+    }
+  }
+  catch (error) {
+    manager.addError(error instanceof Error ? error : new Error(String(error)))
+  }
+  finally {
+    manager.exitProps()
+  }
 
-      const nameStart = pos
-      while (pos < propsContent.length && /[\w-]/.test(propsContent[pos])) pos++
-      const name = propsContent.slice(nameStart, pos)
+  return propsEnd
+}
 
-      if (!name) {
-        pos++
-        continue
-      }
+/**
+ * Checks whether a line starts with a child marker (--tab, --col, ...) of a registered block.
+ */
+function isRegisteredChildMarker(registry: BlockRegistry, lineText: string): boolean {
+  const name = lineText.trim().match(/^--([\w-]+)/)?.[1]
+  return !!name && registry.getChildNames().includes(name)
+}
 
-      while (pos < propsContent.length && /\s/.test(propsContent[pos])) pos++
+/**
+ * Decorates a markdown line outside of block markers: a single line component
+ * (`:type(props)`) or inline components anywhere in the line.
+ */
+function decorateTextLine(manager: DecorationManager, line: Line): void {
+  const lineText = line.text
+  const singleLineMatch = CONFIG.patterns.singleLine.exec(lineText.trim())
 
-      if (pos < propsContent.length && propsContent[pos] === '=') {
-        const equalsPos = pos
-        pos++
+  if (singleLineMatch) {
+    // Highlight the single line marker (:type)
+    const markerStart = lineText.indexOf(':')
+    const markerEnd = markerStart + singleLineMatch[0].length
 
-        while (pos < propsContent.length && /\s/.test(propsContent[pos])) pos++
+    manager.add(
+      line.from + markerStart,
+      line.from + markerEnd,
+      decorations.singleLineMarker(singleLineMatch[1]),
+    )
 
-        if (pos < propsContent.length && propsContent[pos] === '"') {
-          const valueStart = pos
-          pos++
+    // Process props if they exist
+    let contentStart = markerEnd
+    if (lineText[markerEnd] === '(') {
+      const propsEnd = processProps(manager, line.from + markerEnd, lineText.slice(markerEnd))
+      if (propsEnd !== -1) {
+        contentStart = markerEnd + propsEnd + 1
+      }
+    }
 
-          while (pos < propsContent.length && propsContent[pos] !== '"') pos++
-          if (pos < propsContent.length)
-            pos++
+    // Highlight remaining content
+    if (contentStart < lineText.length) {
+      manager.add(line.from + contentStart, line.to, decorations.content())
+    }
+    return
+  }
 
-          manager.add(
-            lineStart + propsStart + 1 + nameStart,
-            lineStart + propsStart + 1 + nameStart + name.length,
-            decorations.propName(),
-          )
+  // Check for inline components
+  const inlineRegex = new RegExp(CONFIG.patterns.inline.source, 'g')
 
-          manager.add(
-            lineStart + propsStart + 1 + equalsPos,
-            lineStart + propsStart + 1 + equalsPos + 1,
-            decorations.propEquals(),
-          )
+  for (let inlineMatch = inlineRegex.exec(lineText); inlineMatch; inlineMatch = inlineRegex.exec(lineText)) {
+    const matchStart = inlineMatch.index
+    const componentName = inlineMatch[1]
 
-          manager.add(
-            lineStart + propsStart + 1 + valueStart,
-            lineStart + propsStart + 1 + pos,
-            decorations.propValue(),
-          )
-        }
-      }
-      else {
-        manager.add(
-          lineStart + propsStart + 1 + nameStart,
-          lineStart + propsStart + 1 + pos,
-          decorations.booleanProp(),
-        )
-      }
+    // Calculate the end of the component name
+    const nameEnd = matchStart + 1 + componentName.length
 
-      while (pos < propsContent.length && /[\s,]/.test(propsContent[pos])) pos++
+    // Highlight the component name
+    manager.add(
+      line.from + matchStart,
+      line.from + nameEnd,
+      decorations.inlineMarker(componentName),
+    )
 
-      if (pos === startPos) {
-        break
+    // Process props if they exist, and carry on after them
+    if (lineText[nameEnd] === '(') {
+      const propsEnd = processProps(manager, line.from + nameEnd, lineText.slice(nameEnd))
+      if (propsEnd !== -1) {
+        inlineRegex.lastIndex = nameEnd + propsEnd + 1
       }
     }
   }
-  catch (error) {
-    manager.addError(error instanceof Error ? error : new Error(String(error)))
+}
+
+/**
+ * Decorates a block or section marker line: the marker name, its props and the title after them.
+ */
+function decorateMarker(
+  manager: DecorationManager,
+  state: EditorState,
+  marker: MarkerInfo,
+  decoration: Decoration,
+): void {
+  manager.add(marker.nameRange.from, marker.nameRange.to, decoration)
+
+  if (marker.propsRange) {
+    const { from, to } = marker.propsRange
+    processProps(manager, from, state.doc.sliceString(from, to))
   }
-  finally {
-    manager.exitProps()
+
+  if (marker.titleRange) {
+    manager.add(marker.titleRange.from, marker.titleRange.to, decorations.content())
   }
 }
 
@@ -240,13 +269,13 @@ function processProps(
  * This is crucial for preventing syntax highlighting within code blocks
  * where the markers should be treated as literal text.
  *
- * @param transaction - The current CodeMirror transaction
+ * @param state - The current editor state
  * @param pos - The position to check
  * @returns true if the position is inside a code block
  */
-function isInCodeBlock(transaction: Transaction, pos: number): boolean {
+function isInCodeBlock(state: EditorState, pos: number): boolean {
   try {
-    const tree = syntaxTree(transaction.state)
+    const tree = syntaxTree(state)
     let currentNode = tree.resolveInner(pos, 1)
 
     while (currentNode && currentNode.parent) {
@@ -264,10 +293,60 @@ function isInCodeBlock(transaction: Transaction, pos: number): boolean {
 }
 
 /**
- * CodeMirror state field that manages syntax highlighting for block markers.
+ * Builds the highlighting decorations for a document from its block tree.
+ * Marker lines are taken from the tree; every other line is checked for
+ * single line and inline components.
+ */
+function buildDecorations(state: EditorState, registry: BlockRegistry): DecorationSet {
+  const builder = new RangeSetBuilder<Decoration>()
+  const manager = new DecorationManager()
+  const markerLines = new Set<number>()
+
+  walkBlocks(state.field(blockTreeField), (block) => {
+    markerLines.add(block.openLine.from)
+    if (block.closeLine) {
+      markerLines.add(block.closeLine.from)
+    }
+
+    if (isInCodeBlock(state, block.openLine.from)) {
+      return
+    }
+
+    if (registry.findByStartLine(state.doc.sliceString(block.openLine.from, block.openLine.to))) {
+      decorateMarker(manager, state, block.marker, decorations.startMarker(block.marker.name))
+
+      for (const section of getSections(block)) {
+        markerLines.add(section.line.from)
+        const lineText = state.doc.sliceString(section.line.from, section.line.to)
+        if (isRegisteredChildMarker(registry, lineText)) {
+          decorateMarker(manager, state, section.marker, decorations.middleMarker(section.marker.name))
+        }
+      }
+    }
+
+    if (block.closeLine) {
+      manager.add(block.closeLine.from, block.closeLine.to, decorations.endMarker())
+    }
+  })
+
+  for (let lineNumber = 1; lineNumber <= state.doc.lines; lineNumber++) {
+    const line = state.doc.line(lineNumber)
+    if (!line.text || markerLines.has(line.from) || isInCodeBlock(state, line.from)) {
+      continue
+    }
+    decorateTextLine(manager, line)
+  }
+
+  manager.applyTo(builder)
+  return builder.finish()
+}
+
+/**
+ * Creates the CodeMirror state field that manages syntax highlighting for block markers.
  * This field tracks and updates decorations as the document changes.
+ * Only markers of blocks in the registry are highlighted.
  *
- * The field processes the document line by line, identifying and decorating:
+ * Block structure comes from the shared block tree, which identifies:
  * - Block start markers (::type)
  * - Block continuation markers (--type)
  * - Block end markers (::)
@@ -278,228 +357,37 @@ function isInCodeBlock(transaction: Transaction, pos: number): boolean {
  * - Preventing recursive decoration in props
  * - Managing decoration ranges to avoid overlaps
  */
-export const syntaxHighlightField = StateField.define<DecorationSet>({
-  create() {
-    return Decoration.none
-  },
-
-  update(oldState: DecorationSet, tr: Transaction) {
-    try {
-      const builder = new RangeSetBuilder<Decoration>()
-      const manager = new DecorationManager()
+export function createSyntaxHighlightExtension(registry: BlockRegistry): Extension {
+  const field = StateField.define<DecorationSet>({
+    create(state) {
+      try {
+        return buildDecorations(state, registry)
+      }
+      catch (error) {
+        console.warn('[syntaxHighlightField]', error)
+        return Decoration.none
+      }
+    },
 
-      if (!tr.state || !tr.state.doc) {
+    update(oldState: DecorationSet, tr: Transaction) {
+      // Code block detection depends on the markdown syntax tree, which may finish parsing later
+      if (!tr.docChanged && syntaxTree(tr.state) === syntaxTree(tr.startState)) {
         return oldState
       }
 
-      const docText = tr.state.doc.toString()
-      let pos = 0
-
-      while (pos < docText.length) {
-        const line = tr.state.doc.lineAt(pos)
-        const lineText = line.text
-
-        if (!lineText) {
-          pos = line.to + 1
-          continue
-        }
-
-        // Skip if we're in a code block
-        if (isInCodeBlock(tr, line.from)) {
-          pos = line.to + 1
-          continue
-        }
-
-        const startMatch = CONFIG.patterns.start.exec(lineText.trim())
-        const middleMatch = CONFIG.patterns.middle.exec(lineText.trim())
-        const endMatch = CONFIG.patterns.end.exec(lineText.trim())
-        const singleLineMatch = CONFIG.patterns.singleLine.exec(lineText.trim())
-
-        if (startMatch) {
-          // Highlight the start marker (::type)
-          const markerEnd = lineText.includes('(') ? lineText.indexOf('(') : lineText.includes(' ') ? lineText.indexOf(' ') : lineText.length
-          manager.add(line.from, line.from + markerEnd, decorations.startMarker(startMatch[1]))
-
-          // Process props if they exist
-          if (startMatch[2]) {
-            processProps(manager, line.from, lineText, startMatch[1])
-          }
-
-          // Highlight remaining content
-          const contentStart = lineText.includes(')') ? lineText.indexOf(')') + 1 : markerEnd
-          if (contentStart < lineText.length) {
-            manager.add(line.from + contentStart, line.to, decorations.content())
-          }
-        }
-        else if (middleMatch) {
-          // Highlight the middle marker (--type)
-          const markerEnd = lineText.includes('(') ? lineText.indexOf('(') : lineText.includes(' ') ? lineText.indexOf(' ') : lineText.length
-          const category = lineText.trim().slice(2, markerEnd).trim()
-          manager.add(line.from, line.from + markerEnd, decorations.middleMarker(category))
-
-          // Process props if they exist
-          if (middleMatch[1]) {
-            processProps(manager, line.from, lineText, category)
-          }
-
-          // Highlight remaining content
-          const contentStart = lineText.includes(')') ? lineText.indexOf(')') + 1 : markerEnd
-          if (contentStart < lineText.length) {
-            manager.add(line.from + contentStart, line.to, decorations.content())
-          }
-        }
-        else if (endMatch) {
-          manager.add(line.from, line.to, decorations.endMarker())
-        }
-        else if (singleLineMatch) {
-          // Highlight the single line marker (:type)
-          const markerStart = lineText.indexOf(':')
-          const markerEnd = lineText.includes('(') ? lineText.indexOf('(') : lineText.includes(' ') ? lineText.indexOf(' ') : lineText.length
-
-          manager.add(
-            line.from + markerStart,
-            line.from + markerEnd,
-            decorations.singleLineMarker(singleLineMatch[1])
-          )
-
-          // Process props if they exist
-          if (singleLineMatch[2]) {
-            processProps(manager, line.from, lineText, singleLineMatch[1])
-          }
-
-          // Highlight remaining content
-          const contentStart = lineText.includes(')') ? lineText.indexOf(')') + 1 : markerEnd
-          if (contentStart < lineText.length) {
-            manager.add(line.from + contentStart, line.to, decorations.content())
-          }
-        }
-        else {
-          // Check for inline components
-          const inlinePattern = CONFIG.patterns.inline.source
-          const inlineRegex = new RegExp(inlinePattern, 'g')
-          let inlineMatch
-
-          while ((inlineMatch = inlineRegex.exec(lineText)) !== null) {
-            const matchStart = inlineMatch.index
-            const componentName = inlineMatch[1]
-            const fullMatch = inlineMatch[0]
-
-            // Calculate the end of the component name
-            const nameEnd = matchStart + 1 + componentName.length
-
-            // Highlight the component name
-            manager.add(
-              line.from + matchStart,
-              line.from + nameEnd,
-              decorations.inlineMarker(componentName)
-            )
-
-            // Process props if they exist
-            if (inlineMatch[2]) {
-              const propsText = inlineMatch[2]
-              const propsStart = fullMatch.indexOf('(')
-              const propsEnd = fullMatch.lastIndexOf(')')
-
-              if (propsStart !== -1 && propsEnd !== -1) {
-                // Add the props container decoration
-                manager.add(
-                  line.from + matchStart + propsStart,
-                  line.from + matchStart + propsEnd + 1,
-                  decorations.propsContainer()
-                )
-
-                // Process individual props
-                let pos = 0
-                while (pos < propsText.length) {
-                  const startPos = pos
-
-                  // Skip whitespace
-                  while (pos < propsText.length && /\s/.test(propsText[pos])) pos++
-                  if (pos >= propsText.length) break
-
-                  // Find prop name
-                  const nameStart = pos
-                  while (pos < propsText.length && /[\w-]/.test(propsText[pos])) pos++
-                  const name = propsText.slice(nameStart, pos)
-
-                  if (!name) {
-                    pos++
-                    continue
-                  }
-
-                  // Skip whitespace
-                  while (pos < propsText.length && /\s/.test(propsText[pos])) pos++
-
-                  if (pos < propsText.length && propsText[pos] === '=') {
-                    const equalsPos = pos
-                    pos++
-
-                    // Skip whitespace
-                    while (pos < propsText.length && /\s/.test(propsText[pos])) pos++
-
-                    if (pos < propsText.length && propsText[pos] === '"') {
-                      const valueStart = pos
-                      pos++
-
-                      // Find end of value
-                      while (pos < propsText.length && propsText[pos] !== '"') pos++
-                      if (pos < propsText.length) pos++
-
-                      // Add decorations for name, equals, and value
-                      manager.add(
-                        line.from + matchStart + propsStart + 1 + nameStart,
-                        line.from + matchStart + propsStart + 1 + nameStart + name.length,
-                        decorations.propName()
-                      )
-
-                      manager.add(
-                        line.from + matchStart + propsStart + 1 + equalsPos,
-                        line.from + matchStart + propsStart + 1 + equalsPos + 1,
-                        decorations.propEquals()
-                      )
-
-                      manager.add(
-                        line.from + matchStart + propsStart + 1 + valueStart,
-                        line.from + matchStart + propsStart + 1 + pos,
-                        decorations.propValue()
-                      )
-                    }
-                  } else {
-                    // Boolean prop
-                    manager.add(
-                      line.from + matchStart + propsStart + 1 + nameStart,
-                      line.from + matchStart + propsStart + 1 + pos,
-                      decorations.booleanProp()
-                    )
-                  }
-
-                  // Skip to next prop
-                  while (pos < propsText.length && /[\s,]/.test(propsText[pos])) pos++
-
-                  if (pos === startPos) {
-                    break
-                  }
-                }
-              }
-            }
-          }
-        }
-
-        pos = line.to + 1
+      try {
+        return buildDecorations(tr.state, registry)
       }
+      catch (error) {
+        console.warn('[syntaxHighlightField]', error)
+        return oldState
+      }
+    },
 
-      manager.applyTo(builder)
-      return builder.finish()
-    }
-    catch (error) {
-      console.warn('[syntaxHighlightField]', error)
-      return oldState
-    }
-  },
-
-  provide(field) {
-    return EditorView.decorations.from(field)
-  },
-})
+    provide(field) {
+      return EditorView.decorations.from(field)
+    },
+  })
 
-export const syntaxHighlight = [syntaxHighlightField]
+  return [blockTreeField, field]
+}
@@ -0,0 +1,22 @@
+import type { BlockDefinition } from '../../core/types'
+import { createBlockParser } from '../../core/blockParser'
+import { lintAspectRatio } from './aspectLint'
+import { createAspectPostProcessor } from './aspectPostProcessor'
+import { createAspectPreviewExtension } from './aspectPreviewExtension'
+import { aspectProps } from './aspectWidget'
+
+const markers = { start: '::aspect', end: '::' }
+
+export const aspectBlock: BlockDefinition = {
+  id: 'aspect',
+  name: 'Aspect',
+  description: 'Create responsive images with maintained aspect ratios',
+  docLink: '/aspect-image',
+  settingKey: 'aspectImage',
+  markers,
+  parser: createBlockParser(markers),
+  livePreview: createAspectPreviewExtension,
+  readingMode: createAspectPostProcessor,
+  props: aspectProps,
+  lint: lintAspectRatio,
+}
@@ -0,0 +1,26 @@
+import type { BlockNode } from '../../core/blockAst'
+import type { LintIssue } from '../../core/types'
+import { closestMatches } from '../../core/blockLint'
+import { ASPECT_RATIOS } from './aspectWidget'
+
+/**
+ * Reports an aspect ratio the widget does not know, which it renders as a square
+ */
+export function lintAspectRatio(block: BlockNode): LintIssue[] {
+  const { rawProps, propsRange } = block.marker
+  const ratio = rawProps?.trim()
+  if (!ratio || !propsRange || ratio in ASPECT_RATIOS)
+    return []
+
+  const ratios = Object.keys(ASPECT_RATIOS)
+  const suggestions = closestMatches(ratio, ratios)
+  return [{
+    ...propsRange,
+    severity: 'warning',
+    message: `Unknown aspect ratio "${ratio}", shown as a square. Use one of ${ratios.join(', ')}.`,
+    fixes: (suggestions.length > 0 ? suggestions : ['square']).map(suggestion => ({
+      label: `Use ${suggestion}`,
+      changes: [{ from: propsRange.from, to: propsRange.to, insert: `(${suggestion})` }],
+    })),
+  }]
+}
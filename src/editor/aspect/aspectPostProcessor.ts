@@ -0,0 +1,22 @@
+import type { App, MarkdownPostProcessor } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import { BasePostProcessor } from '../_base/basePostProcessor'
+import { AspectWidget } from './aspectWidget'
+
+/**
+ * Renders `::aspect` blocks in reading mode
+ */
+export class AspectPostProcessor extends BasePostProcessor<AspectWidget> {
+  constructor(app: App, block: BlockDefinition) {
+    super(app, block, { fieldName: 'aspectPreview' })
+  }
+
+  protected createWidget(content: string, id: string, app: App, sourcePath: string): AspectWidget {
+    return new AspectWidget({ content, id, app, sourcePath })
+  }
+}
+
+export function createAspectPostProcessor(app: App, block: BlockDefinition): MarkdownPostProcessor {
+  const postProcessor = new AspectPostProcessor(app, block)
+  return (el, ctx) => postProcessor.process(el, ctx)
+}
@@ -1,5 +1,6 @@
 import type { Extension } from '@codemirror/state'
 import type { App } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
 import { StateEffect } from '@codemirror/state'
 import { BasePreviewExtension } from '../_base/basePreviewExtension'
 import { AspectWidget } from './aspectWidget'
@@ -7,16 +8,17 @@ import { AspectWidget } from './aspectWidget'
 export const toggleAspectEditEffect = StateEffect.define<{ id: string, value: boolean }>()
 
 export class AspectPreviewExtension extends BasePreviewExtension<AspectWidget> {
-  constructor(app: App) {
+  constructor(app: App, block: BlockDefinition) {
     super(app, {
-      startTag: '::aspect',
-      endTag: '::',
+      startTag: block.markers.start,
+      endTag: block.markers.end,
       fieldName: 'aspectPreview',
+      parser: block.parser,
     })
   }
 
-  protected createWidget(content: string, id: string, isEditing: boolean, app: App): AspectWidget {
-    return new AspectWidget({ content, id, app })
+  protected createWidget(content: string, id: string, isEditing: boolean, app: App, sourcePath: string): AspectWidget {
+    return new AspectWidget({ content, id, app, sourcePath })
   }
 
   protected isToggleEditEffect(effect: StateEffect<unknown>): effect is StateEffect<{ id: string, value: boolean }> {
@@ -36,7 +38,7 @@ export class AspectPreviewExtension extends BasePreviewExtension<AspectWidget> {
 /**
  * Creates the aspect preview extension with the given Obsidian app instance
  */
-export function createAspectPreviewExtension(app: App): Extension[] {
-  const extension = new AspectPreviewExtension(app)
+export function createAspectPreviewExtension(app: App, block: BlockDefinition): Extension[] {
+  const extension = new AspectPreviewExtension(app, block)
   return extension.createExtension()
 }
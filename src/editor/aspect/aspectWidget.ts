@@ -1,12 +1,14 @@
+import type { PropSchema } from '../../core/types'
 import type { BaseWidgetConfig } from '../_base/baseWidget'
 import { EditorView } from '@codemirror/view'
 import { MarkdownRenderChild, MarkdownRenderer } from 'obsidian'
+import { parseBlock } from '../../core/blockAst'
 import { BaseWidget } from '../_base/baseWidget'
 import { toggleAspectEditEffect } from './aspectPreviewExtension'
 
-type AspectRatio = 'square' | 'video' | 'mobile' | 'photo' | 'portrait' | 'landscape' | 'pano'
+export type AspectRatio = 'square' | 'video' | 'mobile' | 'photo' | 'portrait' | 'landscape' | 'pano'
 
-const ASPECT_RATIOS: Record<AspectRatio, number> = {
+export const ASPECT_RATIOS: Record<AspectRatio, number> = {
   square: 1,
   video: 9 / 16,
   mobile: 16 / 9,
@@ -16,25 +18,32 @@ const ASPECT_RATIOS: Record<AspectRatio, number> = {
   pano: 9 / 28,
 }
 
+/**
+ * Props of an aspect block: its ratio as a flag, e.g. `::aspect(video)`
+ */
+export const aspectProps: PropSchema = Object.fromEntries(
+  Object.keys(ASPECT_RATIOS).map(ratio => [ratio, { type: 'boolean', default: false }]),
+)
+
 export class AspectWidget extends BaseWidget {
   private aspectRatio: AspectRatio = 'square'
 
-  constructor({ content, id, app }: BaseWidgetConfig) {
-    super({ content, id, app })
+  constructor({ content, id, app, sourcePath }: BaseWidgetConfig) {
+    super({ content, id, app, sourcePath })
     this.parseAspectRatio(content)
   }
 
   private parseAspectRatio(content: string): void {
-    const match = content.match(/::aspect\((.*?)\)/)
-    if (match && match[1]) {
-      const ratio = match[1].trim() as AspectRatio
+    const rawProps = parseBlock(content)?.marker.rawProps
+    if (rawProps) {
+      const ratio = rawProps.trim() as AspectRatio
       if (ratio in ASPECT_RATIOS) {
         this.aspectRatio = ratio
       }
     }
   }
 
-  protected createPreviewView(view: EditorView): HTMLElement {
+  protected createPreviewView(view: EditorView | null): HTMLElement {
     const container = this.createContainer('ginko-blocks-aspect-container')
 
     // Create aspect ratio wrapper
@@ -53,7 +62,7 @@ export class AspectWidget extends BaseWidget {
         this.app,
         fullMatch,
         content,
-        '',
+        this.sourcePath,
         markdownChild,
       ).then(() => {
         // Find the rendered image element
@@ -70,30 +79,32 @@ export class AspectWidget extends BaseWidget {
     }
 
     container.appendChild(wrapper)
-    container.appendChild(this.createEditButton((e) => {
-      e.preventDefault()
-
-      // Find the position of this widget in the document
-      const widgetPos = view.posAtDOM(container)
-
-      // Find the position after the ::aspect line
-      const content = this.content
-      const aspectLineEnd = content.indexOf('\n')
-      if (aspectLineEnd !== -1) {
-        const cursorPos = widgetPos + aspectLineEnd + 1
-
-        // Set cursor position and scroll into view
-        view.dispatch({
-          selection: { anchor: cursorPos, head: cursorPos },
-          effects: [
-            toggleAspectEditEffect.of({ id: this.id, value: true }),
-            EditorView.scrollIntoView(cursorPos),
-          ],
-        })
-      }
+    if (view) {
+      container.appendChild(this.createEditButton((e) => {
+        e.preventDefault()
+
+        // Find the position of this widget in the document
+        const widgetPos = view.posAtDOM(container)
+
+        // Find the position after the ::aspect line
+        const content = this.content
+        const aspectLineEnd = content.indexOf('\n')
+        if (aspectLineEnd !== -1) {
+          const cursorPos = widgetPos + aspectLineEnd + 1
 
-      view.focus()
-    }))
+          // Set cursor position and scroll into view
+          view.dispatch({
+            selection: { anchor: cursorPos, head: cursorPos },
+            effects: [
+              toggleAspectEditEffect.of({ id: this.id, value: true }),
+              EditorView.scrollIntoView(cursorPos),
+            ],
+          })
+        }
+
+        view.focus()
+      }))
+    }
 
     return container
   }
@@ -0,0 +1,27 @@
+import type { BlockDefinition } from '../core/types'
+import { aspectBlock } from './aspect/aspectBlock'
+import { calloutBlocks } from './callout/calloutBlock'
+import { cardGridBlock } from './card-grid/cardGridBlock'
+import { cardBlock } from './card/cardBlock'
+import { fileTreeBlock } from './file-tree/fileTreeBlock'
+import { galleryFolderBlock } from './gallery-folder/galleryFolderBlock'
+import { galleryBlock } from './gallery/galleryBlock'
+import { layoutBlock } from './layout/layoutBlock'
+import { stepsBlock } from './steps/stepsBlock'
+import { tabsBlock } from './tabs/tabsBlock'
+
+/**
+ * Blocks that ship with the plugin, in settings order
+ */
+export const builtinBlocks: readonly BlockDefinition[] = [
+  aspectBlock,
+  cardBlock,
+  cardGridBlock,
+  fileTreeBlock,
+  galleryBlock,
+  galleryFolderBlock,
+  layoutBlock,
+  stepsBlock,
+  tabsBlock,
+  ...calloutBlocks,
+]
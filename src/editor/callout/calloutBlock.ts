@@ -0,0 +1,27 @@
+import type { BlockDefinition } from '../../core/types'
+import { createBlockParser } from '../../core/blockParser'
+import { createBlockStateReset } from '../utils/blockReset'
+import { createCalloutPostProcessor } from './calloutPostProcessor'
+import { createCalloutPreviewExtension, VALID_CALLOUT_TYPES } from './calloutPreviewExtension'
+
+/**
+ * One block per callout type, e.g. "::note" or the collapsed "::note-".
+ * They share one setting, so all callouts are switched on and off together.
+ */
+export const calloutBlocks: BlockDefinition[] = VALID_CALLOUT_TYPES.map((type) => {
+  const markers = { start: `::${type}`, end: '::', child: '--title' }
+
+  return {
+    id: type,
+    name: `${type.charAt(0).toUpperCase()}${type.slice(1)} Callout`,
+    description: `Highlight content in a ${type} callout`,
+    docLink: '/callout',
+    settingKey: 'callout',
+    settingLabel: { name: 'Callout', description: 'Highlight content in tip, info, warning, danger and note callouts' },
+    markers,
+    parser: createBlockParser(markers, { collapsible: true }),
+    livePreview: createCalloutPreviewExtension,
+    readingMode: createCalloutPostProcessor,
+    reset: createBlockStateReset('callout'),
+  }
+})
@@ -0,0 +1,23 @@
+import type { App, MarkdownPostProcessor } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import { BasePostProcessor } from '../_base/basePostProcessor'
+import { CalloutWidget } from './calloutWidget'
+
+/**
+ * Renders the callout blocks of a single type in reading mode
+ */
+export class CalloutPostProcessor extends BasePostProcessor<CalloutWidget> {
+  constructor(app: App, block: BlockDefinition) {
+    const type = block.markers.start.replace(/^::/, '')
+    super(app, block, { fieldName: `calloutPreview-${type}` })
+  }
+
+  protected createWidget(content: string, id: string, app: App, sourcePath: string): CalloutWidget {
+    return new CalloutWidget(content, id, false, app, sourcePath)
+  }
+}
+
+export function createCalloutPostProcessor(app: App, block: BlockDefinition): MarkdownPostProcessor {
+  const postProcessor = new CalloutPostProcessor(app, block)
+  return (el, ctx) => postProcessor.process(el, ctx)
+}
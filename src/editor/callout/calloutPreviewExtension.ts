@@ -1,5 +1,6 @@
 import type { Extension } from '@codemirror/state'
 import type { App } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
 import type { PreviewExtensionConfig } from '../_base/basePreviewExtension'
 import { StateEffect } from '@codemirror/state'
 import { BasePreviewExtension } from '../_base/basePreviewExtension'
@@ -13,8 +14,8 @@ export const toggleCalloutEdit = StateEffect.define<{ id: string, value: boolean
 /**
  * Valid callout types that we want to handle
  */
-const VALID_CALLOUT_TYPES = ['tip', 'info', 'warning', 'danger', 'note'] as const
-type CalloutType = typeof VALID_CALLOUT_TYPES[number]
+export const VALID_CALLOUT_TYPES = ['tip', 'info', 'warning', 'danger', 'note'] as const
+export type CalloutType = typeof VALID_CALLOUT_TYPES[number]
 
 /**
  * Extension for handling a specific callout type
@@ -22,11 +23,12 @@ type CalloutType = typeof VALID_CALLOUT_TYPES[number]
 class SingleCalloutPreviewExtension extends BasePreviewExtension<CalloutWidget> {
   private readonly calloutType: CalloutType
 
-  constructor(app: App, type: CalloutType) {
+  constructor(app: App, type: CalloutType, block: BlockDefinition) {
     const config: PreviewExtensionConfig = {
-      startTag: `::${type}`,
-      endTag: '::',
+      startTag: block.markers.start,
+      endTag: block.markers.end,
       fieldName: `calloutPreview-${type}`,
+      parser: block.parser,
     }
     super(app, config)
     this.calloutType = type
@@ -40,8 +42,8 @@ class SingleCalloutPreviewExtension extends BasePreviewExtension<CalloutWidget>
       .trim()
   }
 
-  protected createWidget(content: string, id: string, isEditing: boolean, app: App): CalloutWidget {
-    return new CalloutWidget(content, id, isEditing, app)
+  protected createWidget(content: string, id: string, isEditing: boolean, app: App, sourcePath: string): CalloutWidget {
+    return new CalloutWidget(content, id, isEditing, app, sourcePath)
   }
 
   protected isToggleEditEffect(effect: StateEffect<unknown>): effect is StateEffect<{ id: string, value: boolean }> {
@@ -55,11 +57,9 @@ class SingleCalloutPreviewExtension extends BasePreviewExtension<CalloutWidget>
 }
 
 /**
- * Creates the callout preview extension with the given Obsidian app instance
+ * Creates the preview extension for a single registered callout type
  */
-export function createCalloutPreviewExtension(app: App): Extension[] {
-  // Create an extension for each callout type
-  return VALID_CALLOUT_TYPES.flatMap(type =>
-    new SingleCalloutPreviewExtension(app, type).createExtension()
-  )
+export function createCalloutPreviewExtension(app: App, block: BlockDefinition): Extension[] {
+  const type = block.markers.start.replace(/^::/, '') as CalloutType
+  return new SingleCalloutPreviewExtension(app, type, block).createExtension()
 }
@@ -1,8 +1,9 @@
+import type { EditorView } from '@codemirror/view'
 import type { App } from 'obsidian'
 import type { BaseWidgetConfig } from '../_base/baseWidget'
 import { StateEffect } from '@codemirror/state'
-import { EditorView } from '@codemirror/view'
-import { MarkdownRenderChild, MarkdownRenderer, getIcon } from 'obsidian'
+import { getIcon, MarkdownRenderChild, MarkdownRenderer } from 'obsidian'
+import { getSections, parseBlock } from '../../core/blockAst'
 import { BaseWidget } from '../_base/baseWidget'
 import { getBlockState, setBlockState } from '../utils/blockState'
 
@@ -25,8 +26,8 @@ export class CalloutWidget extends BaseWidget {
   protected content: string // Changed to protected to match base class
   private isCollapsed: boolean
 
-  constructor(content: string, id: string, isEditing: boolean, app: App) {
-    super({ content, id, app })
+  constructor(content: string, id: string, isEditing: boolean, app: App, sourcePath = '') {
+    super({ content, id, app, sourcePath })
     this.isEditing = isEditing
     this.content = content
     this.properties = this.parseCalloutProperties(content)
@@ -34,55 +35,51 @@ export class CalloutWidget extends BaseWidget {
   }
 
   private loadCollapsedState(): boolean {
-    return getBlockState<boolean>(this.id, 'callout', this.properties.collapsed || false)
+    return getBlockState<boolean>(this.id, 'callout', this.properties.collapsed || false, this.sourcePath)
   }
 
   private saveCollapsedState(collapsed: boolean): void {
-    setBlockState<boolean>(this.id, 'callout', collapsed)
+    setBlockState<boolean>(this.id, 'callout', collapsed, this.sourcePath)
   }
 
   private parseCalloutProperties(content: string): CalloutProperties {
-    const firstLine = content.split('\n')[0]
-    const properties: CalloutProperties = {
-      type: 'note',
-      collapsed: false
+    const block = parseBlock(content)
+    if (!block)
+      return { type: 'note', collapsed: false }
+
+    const titleSection = getSections(block).find(section => section.marker.name === 'title')
+    return {
+      type: block.marker.name,
+      collapsed: block.collapsed,
+      title: titleSection?.marker.title || undefined,
     }
-
-    // Parse the callout type and collapsed state
-    const match = firstLine.match(/^::(\w+)(-)?/)
-    if (match) {
-      properties.type = match[1]
-      properties.collapsed = !!match[2]
-    }
-
-    // Parse title if present
-    const titleMatch = content.match(/--title\s+(.+)/)
-    if (titleMatch) {
-      properties.title = titleMatch[1].trim()
-    }
-
-    return properties
   }
 
   private getCalloutContent(): string {
-    let content = this.content
-      .replace(/^::\w+(-)?/, '') // Remove the callout type
-      .replace(/--title\s+[^\n]+\n?/, '') // Remove the title line
-      .replace(/\n?::$/, '') // Remove the ending tag
-      .trim()
-
-    return content
+    const block = parseBlock(this.content)
+    if (!block)
+      return ''
+
+    // The title line only carries the title, everything else is callout content
+    const titleSection = getSections(block).find(section => section.marker.name === 'title')
+    if (!titleSection)
+      return block.body.trim()
+
+    const before = this.content.slice(block.bodyFrom, titleSection.line.from)
+    const after = this.content.slice(Math.min(titleSection.line.to + 1, block.bodyTo), block.bodyTo)
+    return (before + after).trim()
   }
 
   eq(other: BaseWidget): boolean {
-    if (!(other instanceof CalloutWidget)) return false
+    if (!(other instanceof CalloutWidget))
+      return false
     return this.id === other.id
       && this.content === other.content
       && this.isEditing === other.isEditing
       && this.isCollapsed === other.isCollapsed
   }
 
-  protected createPreviewView(view: EditorView): HTMLElement {
+  protected createPreviewView(_view: EditorView | null): HTMLElement {
     const container = document.createElement('div')
     container.className = `ginko-callout type-${this.properties.type}`
     if (this.isCollapsed) {
@@ -97,7 +94,8 @@ export class CalloutWidget extends BaseWidget {
     const icon = document.createElement('div')
     icon.className = 'ginko-callout-icon'
     const iconEl = this.getIconForType(this.properties.type)
-    if (iconEl) icon.appendChild(iconEl)
+    if (iconEl)
+      icon.appendChild(iconEl)
     header.appendChild(icon)
 
     // Add title
@@ -138,7 +136,8 @@ export class CalloutWidget extends BaseWidget {
     const collapseBtn = document.createElement('div')
     collapseBtn.className = 'ginko-callout-collapse'
     const collapseIcon = getIcon(this.isCollapsed ? 'chevron-down' : 'chevron-up')
-    if (collapseIcon) collapseBtn.appendChild(collapseIcon)
+    if (collapseIcon)
+      collapseBtn.appendChild(collapseIcon)
     collapseBtn.addEventListener('click', () => {
       this.isCollapsed = !this.isCollapsed
       container.classList.toggle('is-collapsed')
@@ -163,7 +162,7 @@ export class CalloutWidget extends BaseWidget {
       this.app,
       this.getCalloutContent(),
       contentEl,
-      '',
+      this.sourcePath,
       markdownChild,
     )
 
@@ -0,0 +1,26 @@
+import type { BlockDefinition } from '../../core/types'
+import { createBlockParser } from '../../core/blockParser'
+import { createSectionsTemplate } from '../../core/blockTemplates'
+import { cardProps } from '../card/cardWidget'
+import { createCardGridPostProcessor } from './cardGridPostProcessor'
+import { createCardGridPreviewExtension } from './cardGridPreviewExtension'
+import { cardGridProps } from './cardGridWidget'
+
+const markers = { start: '::card-grid', end: '::', child: '--card' }
+
+export const cardGridBlock: BlockDefinition = {
+  id: 'card-grid',
+  name: 'Card Grid',
+  description: 'Organize cards in responsive grid layouts with automatic spacing',
+  docLink: '/card-grid',
+  settingKey: 'cardGrid',
+  markers,
+  parser: createBlockParser(markers),
+  livePreview: createCardGridPreviewExtension,
+  readingMode: createCardGridPostProcessor,
+  props: cardGridProps,
+  childProps: { card: cardProps },
+  templates: [
+    createSectionsTemplate(markers, { id: 'card-grid', name: 'Card grid', count: 2, title: index => `Card ${index + 1}` }),
+  ],
+}
@@ -0,0 +1,22 @@
+import type { App, MarkdownPostProcessor } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import { BasePostProcessor } from '../_base/basePostProcessor'
+import { CardGridWidget } from './cardGridWidget'
+
+/**
+ * Renders `::card-grid` blocks in reading mode
+ */
+export class CardGridPostProcessor extends BasePostProcessor<CardGridWidget> {
+  constructor(app: App, block: BlockDefinition) {
+    super(app, block, { fieldName: 'cardGridPreview' })
+  }
+
+  protected createWidget(content: string, id: string, app: App, sourcePath: string): CardGridWidget {
+    return new CardGridWidget(content, id, false, app, sourcePath)
+  }
+}
+
+export function createCardGridPostProcessor(app: App, block: BlockDefinition): MarkdownPostProcessor {
+  const postProcessor = new CardGridPostProcessor(app, block)
+  return (el, ctx) => postProcessor.process(el, ctx)
+}
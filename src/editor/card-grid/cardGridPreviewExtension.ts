@@ -0,0 +1,41 @@
+import type { Extension, StateEffect } from '@codemirror/state'
+import type { App } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import type { PreviewExtensionConfig } from '../_base/basePreviewExtension'
+import { BasePreviewExtension } from '../_base/basePreviewExtension'
+import { CardGridWidget, toggleCardGridEdit } from './cardGridWidget'
+
+/**
+ * Extension for handling card grid preview functionality
+ */
+class CardGridPreviewExtension extends BasePreviewExtension<CardGridWidget> {
+  constructor(app: App, block: BlockDefinition) {
+    const config: PreviewExtensionConfig = {
+      startTag: block.markers.start,
+      endTag: block.markers.end,
+      fieldName: 'cardGridPreview',
+      parser: block.parser,
+    }
+    super(app, config)
+  }
+
+  protected createWidget(content: string, id: string, isEditing: boolean, app: App, sourcePath: string): CardGridWidget {
+    return new CardGridWidget(content, id, isEditing, app, sourcePath)
+  }
+
+  protected isToggleEditEffect(effect: StateEffect<unknown>): effect is StateEffect<{ id: string, value: boolean }> {
+    return effect.is(toggleCardGridEdit)
+  }
+
+  protected processContentBlock(_content: string, _startPos: number, _endPos: number): void {
+    // No additional processing needed for card grid blocks
+  }
+}
+
+/**
+ * Creates the card grid preview extension with the given Obsidian app instance
+ */
+export function createCardGridPreviewExtension(app: App, block: BlockDefinition): Extension[] {
+  const extension = new CardGridPreviewExtension(app, block)
+  return extension.createExtension()
+}
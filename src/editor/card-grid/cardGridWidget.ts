@@ -0,0 +1,99 @@
+import type { App } from 'obsidian'
+import type { CardData } from '../card/cardWidget'
+import { StateEffect } from '@codemirror/state'
+import { EditorView } from '@codemirror/view'
+import { getSections, parseBlock } from '../../core/blockAst'
+import { coerceProps, definePropSchema } from '../../core/propSchema'
+import { BaseWidget } from '../_base/baseWidget'
+import { createCardElement, getCardData } from '../card/cardWidget'
+
+export const toggleCardGridEdit = StateEffect.define<{ id: string, value: boolean }>()
+
+/**
+ * Props of a card grid: its column count on wide screens and whether alternating columns are shifted down
+ */
+export const cardGridProps = definePropSchema({
+  cols: { type: 'number', default: 2, min: 1, max: 6, integer: true },
+  stagger: { type: 'boolean', default: false },
+} as const)
+
+/**
+ * CardGridWidget renders a `::card-grid` block: its `--card` sections laid out in a responsive grid.
+ * With `stagger`, alternating columns are shifted down.
+ */
+export class CardGridWidget extends BaseWidget {
+  private readonly cards: readonly CardData[]
+  private readonly columns: number
+  private readonly stagger: boolean
+  private readonly firstCardBody: number
+  private isEditing: boolean
+
+  constructor(content: string, id: string, isEditing: boolean, app: App, sourcePath = '') {
+    super({ content, id, app, sourcePath })
+    this.isEditing = isEditing
+
+    const block = parseBlock(content)
+    const sections = block ? getSections(block).filter(section => section.marker.name === 'card') : []
+    this.cards = sections.map(section => getCardData(section.marker, section.body))
+    const props = coerceProps(block?.marker.props ?? {}, cardGridProps).values
+    this.columns = props.cols
+    this.stagger = props.stagger
+    this.firstCardBody = sections[0]?.bodyFrom ?? -1
+  }
+
+  eq(other: CardGridWidget): boolean {
+    return this.id === other.id
+      && this.content === other.content
+      && this.isEditing === other.isEditing
+  }
+
+  protected createPreviewView(view: EditorView | null): HTMLElement {
+    const container = this.createContainer('ginko-card-grid-container')
+
+    const grid = document.createElement('div')
+    grid.className = 'ginko-card-grid'
+    grid.style.setProperty('--ginko-card-grid-cols', String(this.columns))
+    grid.style.setProperty('--ginko-card-grid-narrow-cols', String(Math.min(this.columns, 2)))
+    if (this.stagger && this.columns > 1)
+      grid.classList.add('is-staggered')
+
+    this.cards.forEach((card, index) => {
+      const cardEl = createCardElement(this.app, card, this.sourcePath)
+      // Offset every other column when all columns fit; narrower panes stagger in CSS
+      if ((index % this.columns) % 2 === 1)
+        cardEl.classList.add('is-offset')
+      grid.appendChild(cardEl)
+    })
+
+    container.appendChild(grid)
+
+    if (view) {
+      container.appendChild(this.createEditButton(() => {
+        // Place the cursor in the first card, or after the opening line without cards
+        const widgetPos = view.posAtDOM(container)
+        const lineEnd = this.content.indexOf('\n')
+        const offset = this.firstCardBody !== -1
+          ? this.firstCardBody
+          : (lineEnd === -1 ? this.content.length : lineEnd + 1)
+        const cursorPos = widgetPos + offset
+
+        view.dispatch({
+          selection: { anchor: cursorPos, head: cursorPos },
+          effects: EditorView.scrollIntoView(cursorPos, {
+            y: 'center',
+            x: 'nearest',
+            yMargin: 50,
+            xMargin: 20,
+          }),
+        })
+        view.focus()
+      }))
+    }
+
+    return container
+  }
+
+  isEditingState(): boolean {
+    return this.isEditing
+  }
+}
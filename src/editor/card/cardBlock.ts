@@ -0,0 +1,20 @@
+import type { BlockDefinition } from '../../core/types'
+import { createBlockParser } from '../../core/blockParser'
+import { createCardPostProcessor } from './cardPostProcessor'
+import { createCardPreviewExtension } from './cardPreviewExtension'
+import { cardProps } from './cardWidget'
+
+const markers = { start: '::card', end: '::' }
+
+export const cardBlock: BlockDefinition = {
+  id: 'card',
+  name: 'Card',
+  description: 'Design beautiful content cards with customizable layouts and styles',
+  docLink: '/card',
+  settingKey: 'card',
+  markers,
+  parser: createBlockParser(markers),
+  livePreview: createCardPreviewExtension,
+  readingMode: createCardPostProcessor,
+  props: cardProps,
+}
@@ -0,0 +1,22 @@
+import type { App, MarkdownPostProcessor } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import { BasePostProcessor } from '../_base/basePostProcessor'
+import { CardWidget } from './cardWidget'
+
+/**
+ * Renders `::card` blocks in reading mode
+ */
+export class CardPostProcessor extends BasePostProcessor<CardWidget> {
+  constructor(app: App, block: BlockDefinition) {
+    super(app, block, { fieldName: 'cardPreview' })
+  }
+
+  protected createWidget(content: string, id: string, app: App, sourcePath: string): CardWidget {
+    return new CardWidget(content, id, false, app, sourcePath)
+  }
+}
+
+export function createCardPostProcessor(app: App, block: BlockDefinition): MarkdownPostProcessor {
+  const postProcessor = new CardPostProcessor(app, block)
+  return (el, ctx) => postProcessor.process(el, ctx)
+}
@@ -0,0 +1,41 @@
+import type { Extension, StateEffect } from '@codemirror/state'
+import type { App } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import type { PreviewExtensionConfig } from '../_base/basePreviewExtension'
+import { BasePreviewExtension } from '../_base/basePreviewExtension'
+import { CardWidget, toggleCardEdit } from './cardWidget'
+
+/**
+ * Extension for handling card preview functionality
+ */
+class CardPreviewExtension extends BasePreviewExtension<CardWidget> {
+  constructor(app: App, block: BlockDefinition) {
+    const config: PreviewExtensionConfig = {
+      startTag: block.markers.start,
+      endTag: block.markers.end,
+      fieldName: 'cardPreview',
+      parser: block.parser,
+    }
+    super(app, config)
+  }
+
+  protected createWidget(content: string, id: string, isEditing: boolean, app: App, sourcePath: string): CardWidget {
+    return new CardWidget(content, id, isEditing, app, sourcePath)
+  }
+
+  protected isToggleEditEffect(effect: StateEffect<unknown>): effect is StateEffect<{ id: string, value: boolean }> {
+    return effect.is(toggleCardEdit)
+  }
+
+  protected processContentBlock(_content: string, _startPos: number, _endPos: number): void {
+    // No additional processing needed for card blocks
+  }
+}
+
+/**
+ * Creates the card preview extension with the given Obsidian app instance
+ */
+export function createCardPreviewExtension(app: App, block: BlockDefinition): Extension[] {
+  const extension = new CardPreviewExtension(app, block)
+  return extension.createExtension()
+}
@@ -0,0 +1,202 @@
+import type { App } from 'obsidian'
+import type { MarkerInfo } from '../../core/blockAst'
+import { StateEffect } from '@codemirror/state'
+import { EditorView } from '@codemirror/view'
+import { Keymap, MarkdownRenderChild, MarkdownRenderer } from 'obsidian'
+import { parseBlock } from '../../core/blockAst'
+import { coerceProps, definePropSchema } from '../../core/propSchema'
+import { BaseWidget } from '../_base/baseWidget'
+import { createIcon } from '../utils/iconResolver'
+
+export const toggleCardEdit = StateEffect.define<{ id: string, value: boolean }>()
+
+/**
+ * Everything needed to render a card, from `::card(...)` or a `--card(...)` section
+ */
+export interface CardData {
+  title: string
+  icon?: string
+  href?: string
+  image?: string
+  content: string
+}
+
+/**
+ * Props of a card, shared with the `--card` sections of a card grid
+ */
+export const cardProps = definePropSchema({
+  title: { type: 'string' },
+  icon: { type: 'icon' },
+  href: { type: 'link' },
+  image: { type: 'link' },
+} as const)
+
+const WIKILINK = /^!?\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]$/
+const EXTERNAL_URL = /^(?:https?|data|app):/i
+const URL_SCHEME = /^[a-z][\w+.-]*:/i
+
+/**
+ * Reads card data from a marker: props take precedence over the text after the marker
+ */
+export function getCardData(marker: MarkerInfo, content: string): CardData {
+  const { title, icon, href, image } = coerceProps(marker.props, cardProps).values
+  return { title: title ?? marker.title, icon, href, image, content }
+}
+
+/**
+ * Resolves an `image` prop to a source the browser can load: URLs are kept,
+ * vault paths and wikilinks are resolved from the note to the file's resource path.
+ */
+function resolveImageSource(app: App, image: string, sourcePath: string): string {
+  const path = image.match(WIKILINK)?.[1] ?? image
+  if (EXTERNAL_URL.test(path))
+    return path
+
+  const file = app.metadataCache.getFirstLinkpathDest(path, sourcePath)
+  return file ? app.vault.getResourcePath(file) : path
+}
+
+/**
+ * Opens a card's `href`: URLs with a scheme open externally, wikilinks and vault paths
+ * navigate within the vault, resolved from the note the card is in
+ */
+function openCardLink(app: App, href: string, sourcePath: string, event: MouseEvent): void {
+  const linktext = href.match(WIKILINK)?.[1] ?? (URL_SCHEME.test(href) ? null : href)
+  if (linktext) {
+    let path = linktext.trim()
+    try {
+      path = decodeURI(path)
+    }
+    catch {
+      // Not URI-encoded; use the link as written
+    }
+    app.workspace.openLinkText(path, sourcePath, Keymap.isModEvent(event))
+  }
+  else {
+    window.open(href, '_blank')
+  }
+}
+
+/**
+ * Creates the DOM of a single card. Shared by the card and card grid widgets.
+ * `sourcePath` is the note the card is in, which its links are resolved from.
+ */
+export function createCardElement(app: App, card: CardData, sourcePath = ''): HTMLElement {
+  const cardEl = document.createElement('div')
+  cardEl.className = 'ginko-card'
+
+  if (card.image) {
+    const image = document.createElement('img')
+    image.className = 'ginko-card-image'
+    image.src = resolveImageSource(app, card.image, sourcePath)
+    image.alt = card.title
+    cardEl.appendChild(image)
+  }
+
+  const body = document.createElement('div')
+  body.className = 'ginko-card-body'
+
+  if (card.title || card.icon) {
+    const header = document.createElement('div')
+    header.className = 'ginko-card-header'
+
+    if (card.icon) {
+      const icon = document.createElement('span')
+      icon.className = 'ginko-card-icon'
+      header.appendChild(icon)
+      createIcon(card.icon, { app, sourcePath, size: 20 }).then((iconEl) => {
+        if (iconEl)
+          icon.appendChild(iconEl)
+        else
+          icon.remove()
+      })
+    }
+
+    const title = document.createElement('span')
+    title.className = 'ginko-card-title'
+    title.textContent = card.title
+    header.appendChild(title)
+    body.appendChild(header)
+  }
+
+  if (card.content.trim()) {
+    const content = document.createElement('div')
+    content.className = 'ginko-card-content'
+    const markdownChild = new MarkdownRenderChild(content)
+    MarkdownRenderer.render(app, card.content.trim(), content, sourcePath, markdownChild)
+    body.appendChild(content)
+  }
+
+  cardEl.appendChild(body)
+
+  const href = card.href
+  if (href) {
+    cardEl.classList.add('is-link')
+    cardEl.setAttribute('role', 'link')
+    cardEl.setAttribute('aria-label', card.title || href)
+    cardEl.addEventListener('click', (e) => {
+      // Links inside the card body handle their own clicks
+      if ((e.target as HTMLElement).closest('a'))
+        return
+      e.preventDefault()
+      openCardLink(app, href, sourcePath, e)
+    })
+  }
+
+  return cardEl
+}
+
+/**
+ * CardWidget renders a `::card` block: a titled, optionally linked card with a markdown body
+ */
+export class CardWidget extends BaseWidget {
+  private readonly card: CardData
+  private isEditing: boolean
+
+  constructor(content: string, id: string, isEditing: boolean, app: App, sourcePath = '') {
+    super({ content, id, app, sourcePath })
+    this.isEditing = isEditing
+
+    const block = parseBlock(content)
+    this.card = block
+      ? getCardData(block.marker, block.body)
+      : { title: '', content: '' }
+  }
+
+  eq(other: CardWidget): boolean {
+    return this.id === other.id
+      && this.content === other.content
+      && this.isEditing === other.isEditing
+  }
+
+  protected createPreviewView(view: EditorView | null): HTMLElement {
+    const container = this.createContainer('ginko-card-container')
+    container.appendChild(createCardElement(this.app, this.card, this.sourcePath))
+
+    if (view) {
+      container.appendChild(this.createEditButton(() => {
+        // Place the cursor at the start of the card body
+        const widgetPos = view.posAtDOM(container)
+        const lineEnd = this.content.indexOf('\n')
+        const cursorPos = widgetPos + (lineEnd === -1 ? this.content.length : lineEnd + 1)
+
+        view.dispatch({
+          selection: { anchor: cursorPos, head: cursorPos },
+          effects: EditorView.scrollIntoView(cursorPos, {
+            y: 'center',
+            x: 'nearest',
+            yMargin: 50,
+            xMargin: 20,
+          }),
+        })
+        view.focus()
+      }))
+    }
+
+    return container
+  }
+
+  isEditingState(): boolean {
+    return this.isEditing
+  }
+}
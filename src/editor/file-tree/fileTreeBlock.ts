@@ -0,0 +1,20 @@
+import type { BlockDefinition } from '../../core/types'
+import { createBlockParser } from '../../core/blockParser'
+import { createFileTreePostProcessor } from './fileTreePostProcessor'
+import { createFileTreePreviewExtension } from './fileTreePreviewExtension'
+import { fileTreeProps } from './fileTreeWidget'
+
+const markers = { start: '::file-tree', end: '::' }
+
+export const fileTreeBlock: BlockDefinition = {
+  id: 'file-tree',
+  name: 'File Tree',
+  description: 'Display your vault structure in an interactive tree view',
+  docLink: '/file-tree',
+  settingKey: 'fileTree',
+  markers,
+  parser: createBlockParser(markers),
+  livePreview: createFileTreePreviewExtension,
+  readingMode: createFileTreePostProcessor,
+  props: fileTreeProps,
+}
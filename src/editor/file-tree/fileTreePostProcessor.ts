@@ -1,8 +1,22 @@
-import type { Extension } from '@codemirror/state'
-import type { App } from 'obsidian'
-import { FileTreePreviewExtension } from './fileTreePreviewExtension'
+import type { App, MarkdownPostProcessor } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import { BasePostProcessor } from '../_base/basePostProcessor'
+import { FileTreeWidget } from './fileTreeWidget'
 
-export function createFileTreeExtension(app: App): Extension[] {
-  const extension = new FileTreePreviewExtension(app)
-  return extension.createExtension()
+/**
+ * Renders `::file-tree` blocks in reading mode
+ */
+export class FileTreePostProcessor extends BasePostProcessor<FileTreeWidget> {
+  constructor(app: App, block: BlockDefinition) {
+    super(app, block, { fieldName: 'fileTreePreview' })
+  }
+
+  protected createWidget(content: string, id: string, app: App): FileTreeWidget {
+    return new FileTreeWidget({ content, id, app })
+  }
+}
+
+export function createFileTreePostProcessor(app: App, block: BlockDefinition): MarkdownPostProcessor {
+  const postProcessor = new FileTreePostProcessor(app, block)
+  return (el, ctx) => postProcessor.process(el, ctx)
 }
@@ -1,4 +1,6 @@
+import type { Extension } from '@codemirror/state'
 import type { App } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
 import { StateEffect } from '@codemirror/state'
 import { BasePreviewExtension } from '../_base/basePreviewExtension'
 import { FileTreeWidget } from './fileTreeWidget'
@@ -11,11 +13,12 @@ interface FileTreeToggleEditEffect {
 export class FileTreePreviewExtension extends BasePreviewExtension<FileTreeWidget> {
   private readonly toggleEditEffect = StateEffect.define<FileTreeToggleEditEffect>()
 
-  constructor(app: App) {
+  constructor(app: App, block: BlockDefinition) {
     super(app, {
-      startTag: '::file-tree',
-      endTag: '::',
+      startTag: block.markers.start,
+      endTag: block.markers.end,
       fieldName: 'fileTreePreview',
+      parser: block.parser,
     })
   }
 
@@ -35,3 +38,8 @@ export class FileTreePreviewExtension extends BasePreviewExtension<FileTreeWidge
     // No additional processing needed for file tree blocks
   }
 }
+
+export function createFileTreePreviewExtension(app: App, block: BlockDefinition): Extension[] {
+  const extension = new FileTreePreviewExtension(app, block)
+  return extension.createExtension()
+}
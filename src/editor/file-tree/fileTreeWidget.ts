@@ -1,7 +1,16 @@
-import type { EditorView } from '@codemirror/view'
 import type { App } from 'obsidian'
+import { EditorView } from '@codemirror/view'
+import { parseBlock } from '../../core/blockAst'
+import { coerceProps, definePropSchema } from '../../core/propSchema'
 import { BaseWidget } from '../_base/baseWidget'
-import { createIconElement, parseBlockProperties } from '../utils'
+import { createIcon } from '../utils/iconResolver'
+
+/**
+ * Props of a file tree: whether the file and folder icons are hidden
+ */
+export const fileTreeProps = definePropSchema({
+  'no-icons': { type: 'boolean', default: false },
+} as const)
 
 interface FileTreeNode {
   name: string
@@ -15,11 +24,11 @@ export class FileTreeWidget extends BaseWidget {
 
   constructor({ content, id, app }: { content: string, id: string, app: App }) {
     super({ content, id, app })
-    const properties = this.parseProperties()
-    this.showIcons = properties['no-icons'] !== true
+    const props = coerceProps(parseBlock(this.content)?.marker.props ?? {}, fileTreeProps).values
+    this.showIcons = !props['no-icons']
   }
 
-  protected createPreviewView(_view: EditorView): HTMLElement {
+  protected createPreviewView(view: EditorView | null): HTMLElement {
     const container = this.createContainer('ginko-filetree-container')
     const tree = this.parseFileTree()
 
@@ -28,28 +37,29 @@ export class FileTreeWidget extends BaseWidget {
     container.appendChild(treeView)
 
     // Add edit button
-    const editButton = this.createEditButton(() => {
-      // Handle edit click
-    })
-    container.appendChild(editButton)
+    if (view) {
+      const editButton = this.createEditButton(() => {
+        // Put the cursor on the first line of the tree
+        const block = this.findBlock(view, container)
+        if (!block)
+          return
+
+        view.dispatch({
+          selection: { anchor: block.bodyFrom },
+          effects: EditorView.scrollIntoView(block.bodyFrom, { y: 'center' }),
+        })
+        view.focus()
+      })
+      container.appendChild(editButton)
+    }
 
     return container
   }
 
-  private parseProperties(): Record<string, boolean> {
-    const firstLine = this.content.split('\n')[0]
-    const props = parseBlockProperties(firstLine, /::file-tree\((.*?)\)/)
-    return Object.fromEntries(
-      Object.entries(props)
-        .filter(([_, value]) => typeof value === 'boolean'),
-    ) as Record<string, boolean>
-  }
-
   private parseFileTree(): FileTreeNode[] {
-    const lines = this.content
+    const lines = (parseBlock(this.content)?.body ?? '')
       .split('\n')
       .filter(line => line.trim())
-      .filter(line => !line.startsWith('::file-tree') && line !== '::')
 
     const tree: FileTreeNode[] = []
     const stack: { node: FileTreeNode, level: number }[] = []
@@ -109,7 +119,7 @@ export class FileTreeWidget extends BaseWidget {
 
         // Load icon asynchronously
         const iconName = node.type === 'folder' ? 'lucide:folder' : this.getFileIcon(node.name)
-        createIconElement(iconName).then((iconEl) => {
+        createIcon(iconName).then((iconEl) => {
           if (iconEl) {
             iconContainer.appendChild(iconEl)
           }
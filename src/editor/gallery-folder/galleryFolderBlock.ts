@@ -0,0 +1,22 @@
+import type { BlockDefinition } from '../../core/types'
+import { createBlockParser } from '../../core/blockParser'
+import { createGalleryFolderPostProcessor } from './galleryFolderPostProcessor'
+import { createGalleryFolderPreviewExtension } from './galleryFolderPreviewExtension'
+import { resetGalleryFolder } from './galleryFolderReset'
+import { galleryFolderProps } from './galleryFolderWidget'
+
+const markers = { start: '::gallery-folder', end: '::' }
+
+export const galleryFolderBlock: BlockDefinition = {
+  id: 'gallery-folder',
+  name: 'Gallery Folder',
+  description: 'Automatically generate galleries from folder contents',
+  docLink: '/gallery-folder',
+  settingKey: 'galleryFolder',
+  markers,
+  parser: createBlockParser(markers),
+  livePreview: createGalleryFolderPreviewExtension,
+  readingMode: createGalleryFolderPostProcessor,
+  props: galleryFolderProps,
+  reset: resetGalleryFolder,
+}
@@ -0,0 +1,22 @@
+import type { App, MarkdownPostProcessor } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import { BasePostProcessor } from '../_base/basePostProcessor'
+import { GalleryFolderWidget } from './galleryFolderWidget'
+
+/**
+ * Renders `::gallery-folder` blocks in reading mode
+ */
+export class GalleryFolderPostProcessor extends BasePostProcessor<GalleryFolderWidget> {
+  constructor(app: App, block: BlockDefinition) {
+    super(app, block, { fieldName: 'galleryFolderPreview' })
+  }
+
+  protected createWidget(content: string, id: string, app: App, sourcePath: string): GalleryFolderWidget {
+    return new GalleryFolderWidget({ content, id, app, sourcePath })
+  }
+}
+
+export function createGalleryFolderPostProcessor(app: App, block: BlockDefinition): MarkdownPostProcessor {
+  const postProcessor = new GalleryFolderPostProcessor(app, block)
+  return (el, ctx) => postProcessor.process(el, ctx)
+}
@@ -0,0 +1,39 @@
+import type { Extension, StateEffect } from '@codemirror/state'
+import type { App } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import { BasePreviewExtension } from '../_base/basePreviewExtension'
+import { GalleryFolderWidget, toggleGalleryFolderEditEffect } from './galleryFolderWidget'
+
+/**
+ * Extension for handling gallery folder preview functionality
+ */
+class GalleryFolderPreviewExtension extends BasePreviewExtension<GalleryFolderWidget> {
+  constructor(app: App, block: BlockDefinition) {
+    super(app, {
+      startTag: block.markers.start,
+      endTag: block.markers.end,
+      fieldName: 'galleryFolderPreview',
+      parser: block.parser,
+    })
+  }
+
+  protected createWidget(content: string, id: string, isEditing: boolean, app: App, sourcePath: string): GalleryFolderWidget {
+    return new GalleryFolderWidget({ content, id, app, sourcePath })
+  }
+
+  protected isToggleEditEffect(effect: StateEffect<unknown>): effect is StateEffect<{ id: string, value: boolean }> {
+    return effect.is(toggleGalleryFolderEditEffect)
+  }
+
+  protected processContentBlock(_content: string, _startPos: number, _endPos: number): void {
+    // No additional processing needed for gallery folder blocks
+  }
+}
+
+/**
+ * Creates the gallery folder preview extension with the given Obsidian app instance
+ */
+export function createGalleryFolderPreviewExtension(app: App, block: BlockDefinition): Extension[] {
+  const extension = new GalleryFolderPreviewExtension(app, block)
+  return extension.createExtension()
+}
@@ -0,0 +1,19 @@
+import type { App, TFile } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import { clearImageMetaCache } from '../gallery/imageMetaCache'
+import { findBlocksInFile } from '../utils/blockReset'
+import { listFolderImages, parseGalleryFolderOptions } from './galleryFolderWidget'
+
+/**
+ * Drops the cached sizes of the images shown by the gallery folder blocks in `file`, or of every image
+ */
+export async function resetGalleryFolder(app: App, block: BlockDefinition, file: TFile | null): Promise<number> {
+  if (!file)
+    return clearImageMetaCache()
+
+  const paths = (await findBlocksInFile(app, file, block))
+    .flatMap(({ node }) => listFolderImages(app, parseGalleryFolderOptions(node.marker.props)))
+    .map(image => image.path)
+
+  return paths.length > 0 ? clearImageMetaCache(paths) : 0
+}
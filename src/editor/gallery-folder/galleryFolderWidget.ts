@@ -0,0 +1,199 @@
+import type { EditorView } from '@codemirror/view'
+import type { App, EventRef, TAbstractFile } from 'obsidian'
+import type { TypedProps } from '../../core/propSchema'
+import type { BaseWidgetConfig } from '../_base/baseWidget'
+import type { GalleryMode } from '../gallery/galleryWidget'
+import type { BlockProperties } from '../utils'
+import { StateEffect } from '@codemirror/state'
+import { normalizePath, TFile, TFolder } from 'obsidian'
+import { parseBlock } from '../../core/blockAst'
+import { coerceProps, definePropSchema } from '../../core/propSchema'
+import { GalleryWidget } from '../gallery/galleryWidget'
+
+export const toggleGalleryFolderEditEffect = StateEffect.define<{ id: string, value: boolean }>()
+
+const IMAGE_EXTENSIONS = new Set(['avif', 'bmp', 'gif', 'jpeg', 'jpg', 'png', 'svg', 'webp'])
+const REFRESH_DELAY = 300 // Batches the events of copying or deleting many files at once
+
+/**
+ * Props of a gallery folder: which folder, in which order, how many images and the gallery layout
+ */
+export const galleryFolderProps = definePropSchema({
+  path: { type: 'string', default: '/' },
+  sort: { type: 'enum', values: ['name', 'mtime', 'ctime'], default: 'name' },
+  recursive: { type: 'boolean', default: false },
+  limit: { type: 'number', min: 1, integer: true },
+  rows: { type: 'boolean', default: false },
+  columns: { type: 'boolean', default: false },
+} as const)
+
+export interface GalleryFolderOptions {
+  folderPath: string // Vault-relative, '' for the vault root
+  sort: TypedProps<typeof galleryFolderProps>['sort']
+  recursive: boolean
+  limit: number | null
+  mode: GalleryMode
+}
+
+/**
+ * Reads `path`, `sort`, `recursive`, `limit` and the `rows`/`columns` layout from the block props
+ */
+export function parseGalleryFolderOptions(props: BlockProperties): GalleryFolderOptions {
+  const { path, sort, recursive, limit, columns } = coerceProps(props, galleryFolderProps).values
+  const folderPath = normalizePath(path)
+
+  return {
+    folderPath: folderPath === '/' ? '' : folderPath,
+    sort,
+    recursive,
+    limit: limit ?? null,
+    mode: columns ? 'columns' : 'rows',
+  }
+}
+
+function getFolder(app: App, folderPath: string): TFolder | null {
+  const folder = folderPath ? app.vault.getAbstractFileByPath(folderPath) : app.vault.getRoot()
+  return folder instanceof TFolder ? folder : null
+}
+
+/**
+ * Lists the images a gallery folder shows, sorted by name or newest first by modification or creation time
+ */
+export function listFolderImages(app: App, options: GalleryFolderOptions): TFile[] {
+  const folder = getFolder(app, options.folderPath)
+  if (!folder)
+    return []
+
+  const files: TFile[] = []
+  const collect = (parent: TFolder) => {
+    for (const child of parent.children) {
+      if (child instanceof TFile && IMAGE_EXTENSIONS.has(child.extension.toLowerCase()))
+        files.push(child)
+      else if (child instanceof TFolder && options.recursive)
+        collect(child)
+    }
+  }
+  collect(folder)
+
+  switch (options.sort) {
+    case 'mtime':
+      files.sort((a, b) => b.stat.mtime - a.stat.mtime)
+      break
+    case 'ctime':
+      files.sort((a, b) => b.stat.ctime - a.stat.ctime)
+      break
+    default:
+      files.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }))
+  }
+
+  return options.limit ? files.slice(0, options.limit) : files
+}
+
+function isImagePath(path: string): boolean {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase()
+  return IMAGE_EXTENSIONS.has(extension)
+}
+
+/**
+ * Encodes a vault path for a markdown link, including the parentheses that would end it
+ */
+function toLinkPath(path: string): string {
+  return path
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[()]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/')
+}
+
+/**
+ * GalleryFolderWidget renders a `::gallery-folder` block: a gallery of the images in a vault folder.
+ * It re-renders when images are added to, removed from or renamed within that folder.
+ */
+export class GalleryFolderWidget extends GalleryWidget {
+  protected readonly toggleEditEffect = toggleGalleryFolderEditEffect
+  private readonly options: GalleryFolderOptions
+  private readonly unsubscribers = new Map<HTMLElement, () => void>()
+
+  constructor({ content, id, app, sourcePath }: BaseWidgetConfig) {
+    super({ content, id, app, sourcePath })
+    this.options = parseGalleryFolderOptions(parseBlock(content)?.marker.props ?? {})
+  }
+
+  protected createPreviewView(view: EditorView | null): HTMLElement {
+    const container = super.createPreviewView(view)
+    container.classList.add('ginko-gallery-folder-container')
+
+    const grid = container.querySelector<HTMLElement>('.ginko-gallery-grid')
+    if (grid)
+      this.unsubscribers.set(container, this.watchFolder(grid))
+
+    return container
+  }
+
+  destroy(dom: HTMLElement): void {
+    this.unsubscribers.get(dom)?.()
+    this.unsubscribers.delete(dom)
+  }
+
+  protected parseMode(): GalleryMode {
+    return this.options.mode
+  }
+
+  protected parseImages(_content: string): string[] {
+    return listFolderImages(this.app, this.options).map(file => `![${file.basename.replace(/[[\]]/g, '')}](${toLinkPath(file.path)})`)
+  }
+
+  protected renderGallery(grid: HTMLElement, mode: GalleryMode): void {
+    super.renderGallery(grid, mode)
+
+    if (listFolderImages(this.app, this.options).length === 0) {
+      const empty = document.createElement('div')
+      empty.className = 'ginko-gallery-folder-empty'
+      empty.textContent = getFolder(this.app, this.options.folderPath)
+        ? `No images in "${this.options.folderPath || '/'}"`
+        : `Folder "${this.options.folderPath}" not found`
+      grid.appendChild(empty)
+    }
+  }
+
+  /**
+   * Whether a vault change at `path` can change the gallery
+   */
+  private affectsGallery(file: TAbstractFile, path: string): boolean {
+    const { folderPath, recursive } = this.options
+    const parentPath = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : ''
+    const inFolder = recursive
+      ? folderPath === '' || parentPath === folderPath || parentPath.startsWith(`${folderPath}/`)
+      : parentPath === folderPath
+
+    // Folders only matter when their images are shown, or when they are the gallery's folder
+    if (file instanceof TFolder)
+      return (inFolder && recursive) || path === folderPath
+    return inFolder && isImagePath(path)
+  }
+
+  /**
+   * Re-renders `grid` on vault changes to the folder. Returns a function that stops watching.
+   */
+  private watchFolder(grid: HTMLElement): () => void {
+    const { vault } = this.app
+    let timer: number | undefined
+
+    const refresh = (file: TAbstractFile, oldPath?: string) => {
+      if (!this.affectsGallery(file, file.path) && !(oldPath && this.affectsGallery(file, oldPath)))
+        return
+      window.clearTimeout(timer)
+      timer = window.setTimeout(() => this.renderGallery(grid, this.parseMode()), REFRESH_DELAY)
+    }
+
+    const refs: EventRef[] = [
+      vault.on('create', file => refresh(file)),
+      vault.on('delete', file => refresh(file)),
+      vault.on('rename', (file, oldPath) => refresh(file, oldPath)),
+    ]
+
+    return () => {
+      window.clearTimeout(timer)
+      refs.forEach(ref => vault.offref(ref))
+    }
+  }
+}
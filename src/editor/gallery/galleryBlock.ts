@@ -0,0 +1,27 @@
+import type { BlockDefinition } from '../../core/types'
+import { createBlockParser } from '../../core/blockParser'
+import { createImagesTemplate, createWrapTemplate } from '../../core/blockTemplates'
+import { createGalleryPostProcessor } from './galleryPostProcessor'
+import { createGalleryPreviewExtension } from './galleryPreviewExtension'
+import { resetGallery } from './galleryReset'
+import { galleryProps } from './galleryWidget'
+
+const markers = { start: '::gallery', end: '::' }
+
+export const galleryBlock: BlockDefinition = {
+  id: 'gallery',
+  name: 'Gallery',
+  description: 'Create beautiful image galleries with customizable layouts',
+  docLink: '/gallery',
+  settingKey: 'gallery',
+  markers,
+  parser: createBlockParser(markers),
+  livePreview: createGalleryPreviewExtension,
+  readingMode: createGalleryPostProcessor,
+  props: galleryProps,
+  reset: resetGallery,
+  templates: [
+    createWrapTemplate(markers, { id: 'gallery', name: 'Gallery' }),
+    createImagesTemplate(markers, { id: 'gallery-from-selection', name: 'Gallery from selection' }),
+  ],
+}
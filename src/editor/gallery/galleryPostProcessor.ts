@@ -0,0 +1,22 @@
+import type { App, MarkdownPostProcessor } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import { BasePostProcessor } from '../_base/basePostProcessor'
+import { GalleryWidget } from './galleryWidget'
+
+/**
+ * Renders `::gallery` blocks in reading mode
+ */
+export class GalleryPostProcessor extends BasePostProcessor<GalleryWidget> {
+  constructor(app: App, block: BlockDefinition) {
+    super(app, block, { fieldName: 'galleryPreview' })
+  }
+
+  protected createWidget(content: string, id: string, app: App, sourcePath: string): GalleryWidget {
+    return new GalleryWidget({ content, id, app, sourcePath })
+  }
+}
+
+export function createGalleryPostProcessor(app: App, block: BlockDefinition): MarkdownPostProcessor {
+  const postProcessor = new GalleryPostProcessor(app, block)
+  return (el, ctx) => postProcessor.process(el, ctx)
+}
@@ -1,5 +1,6 @@
 import type { Extension } from '@codemirror/state'
 import type { App } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
 import { StateEffect } from '@codemirror/state'
 import { BasePreviewExtension } from '../_base/basePreviewExtension'
 import { GalleryWidget } from './galleryWidget'
@@ -7,16 +8,17 @@ import { GalleryWidget } from './galleryWidget'
 export const toggleGalleryEditEffect = StateEffect.define<{ id: string, value: boolean }>()
 
 export class GalleryPreviewExtension extends BasePreviewExtension<GalleryWidget> {
-  constructor(app: App) {
+  constructor(app: App, block: BlockDefinition) {
     super(app, {
-      startTag: '::gallery',
-      endTag: '::',
+      startTag: block.markers.start,
+      endTag: block.markers.end,
       fieldName: 'galleryPreview',
+      parser: block.parser,
     })
   }
 
-  protected createWidget(content: string, id: string, isEditing: boolean, app: App): GalleryWidget {
-    return new GalleryWidget({ content, id, app })
+  protected createWidget(content: string, id: string, isEditing: boolean, app: App, sourcePath: string): GalleryWidget {
+    return new GalleryWidget({ content, id, app, sourcePath })
   }
 
   protected isToggleEditEffect(effect: StateEffect<unknown>): effect is StateEffect<{ id: string, value: boolean }> {
@@ -36,7 +38,7 @@ export class GalleryPreviewExtension extends BasePreviewExtension<GalleryWidget>
 /**
  * Creates the gallery preview extension with the given Obsidian app instance
  */
-export function createGalleryPreviewExtension(app: App): Extension[] {
-  const extension = new GalleryPreviewExtension(app)
+export function createGalleryPreviewExtension(app: App, block: BlockDefinition): Extension[] {
+  const extension = new GalleryPreviewExtension(app, block)
   return extension.createExtension()
 }
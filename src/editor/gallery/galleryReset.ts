@@ -0,0 +1,20 @@
+import type { App, TFile } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
+import { findBlocksInFile } from '../utils/blockReset'
+import { clearImageMetaCache, parseImageLink, resolveImageFile } from './imageMetaCache'
+
+/**
+ * Drops the cached sizes of the images shown by the gallery blocks in `file`, or of every image
+ */
+export async function resetGallery(app: App, block: BlockDefinition, file: TFile | null): Promise<number> {
+  if (!file)
+    return clearImageMetaCache()
+
+  const paths = (await findBlocksInFile(app, file, block))
+    .flatMap(({ node }) => node.body.split('\n'))
+    .map(line => parseImageLink(line))
+    .map(link => link ? resolveImageFile(app, link, file.path)?.path : null)
+    .filter((path): path is string => !!path)
+
+  return paths.length > 0 ? clearImageMetaCache(paths) : 0
+}
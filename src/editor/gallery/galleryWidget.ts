@@ -1,11 +1,22 @@
+import type { StateEffectType } from '@codemirror/state'
 import type { EditorView } from '@codemirror/view'
 import type { BaseWidgetConfig } from '../_base/baseWidget'
-import { imageMeta } from 'image-meta'
 import { MarkdownRenderChild, MarkdownRenderer } from 'obsidian'
+import { parseBlock } from '../../core/blockAst'
+import { coerceProps, definePropSchema } from '../../core/propSchema'
 import { BaseWidget } from '../_base/baseWidget'
 import { toggleGalleryEditEffect } from './galleryPreviewExtension'
+import { getImageSize, parseImageLink, resolveImageFile } from './imageMetaCache'
 
-type GalleryMode = 'rows' | 'columns'
+export type GalleryMode = 'rows' | 'columns'
+
+/**
+ * Props of a gallery: `columns` lays images out in masonry columns instead of justified rows
+ */
+export const galleryProps = definePropSchema({
+  rows: { type: 'boolean', default: false },
+  columns: { type: 'boolean', default: false },
+} as const)
 
 interface GalleryImage {
   src: string
@@ -16,95 +27,18 @@ interface GalleryImage {
   aspectRatio?: number
 }
 
-interface ImageMeta {
-  width?: number
-  height?: number
-  timestamp: number
-}
-
-interface StoredMeta {
-  [key: string]: ImageMeta
-}
-
 export class GalleryWidget extends BaseWidget {
   private galleryImages: GalleryImage[] = []
-  private readonly CACHE_KEY = 'ginko-blocks-image-gallery-meta'
-  private readonly CACHE_DURATION = 7 * 24 * 60 * 60 * 1000 // 7 days
+  private renderGeneration = 0
+  protected readonly toggleEditEffect: StateEffectType<{ id: string, value: boolean }> = toggleGalleryEditEffect
   private readonly GAP = 8
   private readonly TARGET_HEIGHT = 250
 
-  constructor({ content, id, app }: BaseWidgetConfig) {
-    super({ content, id, app })
-  }
-
-  private async getImageMeta(src: string): Promise<ImageMeta | null> {
-    try {
-      // Try to get from cache first
-      const cached = this.getFromCache(src)
-      if (cached)
-        return cached
-
-      const response = await fetch(src)
-      const buffer = await response.arrayBuffer()
-      const meta = imageMeta(new Uint8Array(buffer))
-
-      if (meta.width && meta.height) {
-        const imageMeta = {
-          width: meta.width,
-          height: meta.height,
-          timestamp: Date.now(),
-        }
-        this.saveToCache(src, imageMeta)
-        return imageMeta
-      }
-    }
-    catch (error) {
-      console.error('Failed to get image meta:', error)
-    }
-    return null
+  constructor({ content, id, app, sourcePath }: BaseWidgetConfig) {
+    super({ content, id, app, sourcePath })
   }
 
-  private getFromCache(src: string): ImageMeta | null {
-    try {
-      const cached = localStorage.getItem(this.CACHE_KEY)
-      if (!cached)
-        return null
-
-      const data: StoredMeta = JSON.parse(cached)
-      const meta = data[src]
-
-      if (!meta)
-        return null
-
-      // Check if cache is still valid
-      if (Date.now() - meta.timestamp > this.CACHE_DURATION) {
-        delete data[src]
-        localStorage.setItem(this.CACHE_KEY, JSON.stringify(data))
-        return null
-      }
-
-      return meta
-    }
-    catch (error) {
-      console.error('Failed to get from cache:', error)
-      return null
-    }
-  }
-
-  private saveToCache(src: string, meta: ImageMeta): void {
-    try {
-      const cached = localStorage.getItem(this.CACHE_KEY)
-      const data: StoredMeta = cached ? JSON.parse(cached) : {}
-
-      data[src] = meta
-      localStorage.setItem(this.CACHE_KEY, JSON.stringify(data))
-    }
-    catch (error) {
-      console.error('Failed to save to cache:', error)
-    }
-  }
-
-  protected createPreviewView(view: EditorView): HTMLElement {
+  protected createPreviewView(view: EditorView | null): HTMLElement {
     const container = this.createContainer('ginko-gallery-container')
     const galleryGrid = document.createElement('div')
 
@@ -113,31 +47,36 @@ export class GalleryWidget extends BaseWidget {
     galleryGrid.className = `ginko-gallery-grid ginko-gallery-${mode}`
 
     // Start loading images
-    this.loadGalleryImages(galleryGrid, this.parseImages(this.content), mode)
+    this.renderGallery(galleryGrid, mode)
 
     container.appendChild(galleryGrid)
-    container.appendChild(this.createEditButton((e) => {
-      e.preventDefault()
-      view.dispatch({
-        effects: [toggleGalleryEditEffect.of({ id: this.id, value: true })],
-      })
-    }))
+    if (view) {
+      container.appendChild(this.createEditButton((e) => {
+        e.preventDefault()
+        view.dispatch({
+          effects: [this.toggleEditEffect.of({ id: this.id, value: true })],
+        })
+      }))
+    }
 
     return container
   }
 
-  private parseMode(): GalleryMode {
-    const modeMatch = this.content.match(/^::gallery\((.*?)\)/)
-    if (modeMatch) {
-      const mode = modeMatch[1] as GalleryMode
-      if (['rows', 'columns'].includes(mode)) {
-        return mode
-      }
-    }
-    return 'rows' // default mode
+  /**
+   * Renders the images into the gallery grid, replacing anything rendered before
+   */
+  protected renderGallery(grid: HTMLElement, mode: GalleryMode): void {
+    grid.replaceChildren()
+    this.galleryImages = []
+    this.loadGalleryImages(grid, this.parseImages(this.content), mode, ++this.renderGeneration)
   }
 
-  private async loadGalleryImages(container: HTMLElement, images: string[], mode: GalleryMode): Promise<void> {
+  protected parseMode(): GalleryMode {
+    const props = coerceProps(parseBlock(this.content)?.marker.props ?? {}, galleryProps).values
+    return props.columns ? 'columns' : 'rows'
+  }
+
+  private async loadGalleryImages(container: HTMLElement, images: string[], mode: GalleryMode, generation: number): Promise<void> {
     const processedImages = await Promise.all(
       images.map(async (imgMarkdown, index) => {
         const imgContainer = document.createElement('div')
@@ -150,7 +89,7 @@ export class GalleryWidget extends BaseWidget {
           this.app,
           imgMarkdown,
           content,
-          '',
+          this.sourcePath,
           markdownChild,
         )
 
@@ -160,7 +99,10 @@ export class GalleryWidget extends BaseWidget {
 
         const altMatch = imgMarkdown.match(/!\[(.*?)\]/)
         const alt = altMatch ? altMatch[1] : ''
-        const meta = await this.getImageMeta(img.src)
+        // Read from the vault file; external images are laid out without their size
+        const link = parseImageLink(imgMarkdown)
+        const file = link ? resolveImageFile(this.app, link, this.sourcePath) : null
+        const meta = file ? await getImageSize(file) : null
 
         const galleryImage: GalleryImage = {
           src: img.src,
@@ -171,15 +113,24 @@ export class GalleryWidget extends BaseWidget {
           aspectRatio: meta?.width && meta?.height ? meta.width / meta.height : undefined,
         }
 
-        this.galleryImages.push(galleryImage)
+        if (generation !== this.renderGeneration)
+          return null
+        // Stored by position, as images finish loading in any order
+        this.galleryImages[index] = galleryImage
 
-        img.addEventListener('click', () => this.openLightbox(index))
+        img.addEventListener('click', () => this.openLightbox(this.galleryImages.indexOf(galleryImage)))
         imgContainer.appendChild(content)
 
         return { container: imgContainer, image: galleryImage }
       }),
     )
 
+    // A newer render replaced this one while images were loading
+    if (generation !== this.renderGeneration)
+      return
+
+    // Close the gaps left by images that did not render, keeping the order of the block
+    this.galleryImages = this.galleryImages.filter(Boolean)
     const validImages = processedImages.filter((img): img is NonNullable<typeof img> => img !== null)
 
     switch (mode) {
@@ -271,8 +222,11 @@ export class GalleryWidget extends BaseWidget {
     })
   }
 
-  private parseImages(content: string): string[] {
-    const lines = content.split('\n')
+  /**
+   * Returns the markdown of every image to show, one image per entry
+   */
+  protected parseImages(content: string): string[] {
+    const lines = (parseBlock(content)?.body ?? '').split('\n')
     return lines
       .map(line => line.trim())
       .filter(line => line.startsWith('![') && line.includes('](') && line.endsWith(')'))
@@ -0,0 +1,198 @@
+import type { App, TFile } from 'obsidian'
+import { imageMeta } from 'image-meta'
+import { FileSystemAdapter } from 'obsidian'
+
+export interface ImageSize {
+  width: number
+  height: number
+}
+
+/**
+ * The size of one image, valid while the file keeps its modification time and length
+ */
+export interface ImageMetaEntry extends ImageSize {
+  mtime: number
+  size: number // In bytes
+}
+
+export interface ImageMetaEntries {
+  [path: string]: ImageMetaEntry
+}
+
+// Enough for PNG, GIF, WebP and most JPEGs; JPEGs with a large EXIF block need more
+const HEADER_BYTES = 64 * 1024
+const MAX_HEADER_BYTES = 1024 * 1024
+
+const IMAGE_LINK = /^!\[[^\]]*\]\(<?([^)>]+)>?\)$/
+const EXTERNAL_URL = /^(?:https?|data|app):/i
+
+/**
+ * The link of a markdown image, e.g. `photos/cat.png` for `![Cat](photos/cat.png)`
+ */
+export function parseImageLink(markdown: string): string | null {
+  return markdown.trim().match(IMAGE_LINK)?.[1] ?? null
+}
+
+/**
+ * The vault file an image link points to, or null for external images and missing files
+ */
+export function resolveImageFile(app: App, link: string, sourcePath: string): TFile | null {
+  if (EXTERNAL_URL.test(link))
+    return null
+
+  let path = link
+  try {
+    path = decodeURI(link)
+  }
+  catch {
+    // Not URI-encoded; use the link as written
+  }
+  return app.metadataCache.getFirstLinkpathDest(path, sourcePath)
+}
+
+/**
+ * The size stored in the first bytes of an image, or null when they do not hold it
+ */
+export function readImageSize(header: Uint8Array): ImageSize | null {
+  try {
+    const { width, height } = imageMeta(header)
+    return width && height ? { width, height } : null
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * Reads the first `length` bytes of a file. The desktop adapter reads only those; other
+ * adapters cannot read part of a file and return it whole. `fs` is loaded only on desktop,
+ * as mobile has no Node modules.
+ */
+async function readHeader(app: App, file: TFile, length: number): Promise<Uint8Array> {
+  const { adapter } = app.vault
+  if (!(adapter instanceof FileSystemAdapter))
+    return new Uint8Array(await adapter.readBinary(file.path))
+
+  const { open } = await import('node:fs/promises')
+  const bytes = Math.min(length, file.stat.size)
+  const handle = await open(adapter.getFullPath(file.path), 'r')
+  try {
+    const header = new Uint8Array(bytes)
+    const { bytesRead } = await handle.read(header, 0, bytes, 0)
+    return header.subarray(0, bytesRead)
+  }
+  finally {
+    await handle.close()
+  }
+}
+
+/**
+ * Keeps the sizes of vault images in the plugin's data file, so galleries can lay out
+ * their rows before the images load. An entry is used while its file keeps the
+ * modification time and length it was read at; otherwise the header is read again.
+ * `persist` is called after every change.
+ */
+export class ImageMetaCache {
+  private readonly app: App
+  private sizes: ImageMetaEntries
+  private readonly persist: () => void
+  private readonly reading = new Map<string, Promise<ImageSize | null>>()
+
+  constructor(app: App, sizes: ImageMetaEntries, persist: () => void) {
+    this.app = app
+    this.sizes = { ...sizes }
+    this.persist = persist
+  }
+
+  /**
+   * The cached size of an image, or null when it is not cached or the file changed since
+   */
+  get(file: TFile): ImageSize | null {
+    const entry = this.sizes[file.path]
+    if (!entry || entry.mtime !== file.stat.mtime || entry.size !== file.stat.size)
+      return null
+    return { width: entry.width, height: entry.height }
+  }
+
+  /**
+   * The size of an image, read from its header when it is not cached
+   */
+  getSize(file: TFile): Promise<ImageSize | null> {
+    const cached = this.get(file)
+    if (cached)
+      return Promise.resolve(cached)
+
+    const key = `${file.path}:${file.stat.mtime}`
+    let size = this.reading.get(key)
+    if (!size) {
+      size = this.read(file).finally(() => this.reading.delete(key))
+      this.reading.set(key, size)
+    }
+    return size
+  }
+
+  /**
+   * Removes the sizes of `paths`, or all of them. Returns how many were removed.
+   */
+  remove(paths?: readonly string[]): number {
+    const removed = paths ? paths.filter(path => this.sizes[path]) : Object.keys(this.sizes)
+    if (removed.length === 0)
+      return 0
+
+    if (paths)
+      removed.forEach(path => delete this.sizes[path])
+    else
+      this.sizes = {}
+    this.persist()
+    return removed.length
+  }
+
+  entries(): ImageMetaEntries {
+    return { ...this.sizes }
+  }
+
+  private async read(file: TFile): Promise<ImageSize | null> {
+    const { mtime, size: length } = file.stat
+    try {
+      for (let bytes = HEADER_BYTES; ; bytes *= 4) {
+        const header = await readHeader(this.app, file, bytes)
+        const size = readImageSize(header)
+        if (size) {
+          this.sizes[file.path] = { ...size, mtime, size: length }
+          this.persist()
+          return size
+        }
+        if (header.length >= length || bytes >= MAX_HEADER_BYTES)
+          return null
+      }
+    }
+    catch (error) {
+      console.warn(`[GinkoBlocks] Could not read the size of ${file.path}:`, error)
+      return null
+    }
+  }
+}
+
+// Set by the plugin once it has loaded its data
+let cache: ImageMetaCache | null = null
+
+/**
+ * Select where image sizes are cached
+ */
+export function setImageMetaCache(imageMetaCache: ImageMetaCache | null): void {
+  cache = imageMetaCache
+}
+
+/**
+ * The size of a vault image, or null when its header does not hold one
+ */
+export function getImageSize(file: TFile): Promise<ImageSize | null> {
+  return cache?.getSize(file) ?? Promise.resolve(null)
+}
+
+/**
+ * Removes the cached sizes of the images at `paths`, or of every image. Returns how many were removed.
+ */
+export function clearImageMetaCache(paths?: readonly string[]): number {
+  return cache?.remove(paths) ?? 0
+}
@@ -0,0 +1,26 @@
+import type { BlockDefinition } from '../../core/types'
+import { createBlockParser } from '../../core/blockParser'
+import { createSectionsTemplate } from '../../core/blockTemplates'
+import { columnProps } from '../utils'
+import { createLayoutPostProcessor } from './layoutPostProcessor'
+import { createLayoutPreviewExtension } from './layoutPreviewExtension'
+
+const markers = { start: '::layout', end: '::', child: '--col' }
+
+export const layoutBlock: BlockDefinition = {
+  id: 'layout',
+  name: 'Layout',
+  description: 'Create flexible layouts with columns, rows, and nested components',
+  docLink: '/layout',
+  settingKey: 'layout',
+  markers,
+  parser: createBlockParser(markers),
+  livePreview: createLayoutPreviewExtension,
+  readingMode: createLayoutPostProcessor,
+  props: {},
+  childProps: { col: columnProps },
+  templates: [
+    createSectionsTemplate(markers, { id: 'layout-2-columns', name: '2-column layout', count: 2 }),
+    createSectionsTemplate(markers, { id: 'layout-3-columns', name: '3-column layout', count: 3 }),
+  ],
+}
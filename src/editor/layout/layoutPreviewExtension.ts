@@ -1,5 +1,6 @@
 import type { Extension } from '@codemirror/state'
 import type { App } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
 import type { PreviewExtensionConfig } from '../_base/basePreviewExtension'
 import { StateEffect } from '@codemirror/state'
 import { BasePreviewExtension } from '../_base/basePreviewExtension'
@@ -14,11 +15,12 @@ export const toggleLayoutEdit = StateEffect.define<{ id: string, value: boolean
  * Extension for handling layout preview functionality
  */
 class LayoutPreviewExtension extends BasePreviewExtension<LayoutWidget> {
-  constructor(app: App) {
+  constructor(app: App, block: BlockDefinition) {
     const config: PreviewExtensionConfig = {
-      startTag: '::layout',
-      endTag: '::',
+      startTag: block.markers.start,
+      endTag: block.markers.end,
       fieldName: 'layoutPreview',
+      parser: block.parser,
     }
     super(app, config)
   }
@@ -30,8 +32,8 @@ class LayoutPreviewExtension extends BasePreviewExtension<LayoutWidget> {
       .replace(/\n?::$/, '')
   }
 
-  protected createWidget(content: string, id: string, isEditing: boolean, app: App): LayoutWidget {
-    return new LayoutWidget(content, id, isEditing, app)
+  protected createWidget(content: string, id: string, isEditing: boolean, app: App, sourcePath: string): LayoutWidget {
+    return new LayoutWidget(content, id, isEditing, app, sourcePath)
   }
 
   protected isToggleEditEffect(effect: StateEffect<unknown>): effect is StateEffect<{ id: string, value: boolean }> {
@@ -42,7 +44,7 @@ class LayoutPreviewExtension extends BasePreviewExtension<LayoutWidget> {
 /**
  * Creates the layout preview extension with the given Obsidian app instance
  */
-export function createLayoutPreviewExtension(app: App): Extension[] {
-  const extension = new LayoutPreviewExtension(app)
+export function createLayoutPreviewExtension(app: App, block: BlockDefinition): Extension[] {
+  const extension = new LayoutPreviewExtension(app, block)
   return extension.createExtension()
 }
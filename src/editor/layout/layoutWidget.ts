@@ -1,32 +1,18 @@
 import type { App } from 'obsidian'
 import type { BaseWidgetConfig } from '../_base/baseWidget'
-import type { BlockProperties } from '../utils'
+import type { BlockProperties, ColumnData } from '../utils'
 import { StateEffect } from '@codemirror/state'
 import { EditorView } from '@codemirror/view'
 import { MarkdownRenderChild, MarkdownRenderer } from 'obsidian'
+import { getSections, parseBlock } from '../../core/blockAst'
+import { updateMarkerProps } from '../../core/blockEdits'
 import { BaseWidget } from '../_base/baseWidget'
-import { parseColumns, parseLayoutProperties } from '../utils'
+import { COLUMN_SIZES, parseColumns } from '../utils'
+import { getColumnWidths, getWidthProps, resizeColumns } from './layoutWidths'
 
 // Define the toggle effect locally since it's used in both files
 export const toggleLayoutEdit = StateEffect.define<{ id: string, value: boolean }>()
 
-const SIZE_MAP: Record<string, number> = {
-  xs: 512,
-  sm: 640,
-  base: 768,
-  md: 1024,
-  lg: 1280,
-  xl: 1536,
-}
-
-/**
- * Represents a single column's data structure
- */
-interface ColumnData {
-  content: string
-  size?: 'xs' | 'sm' | 'md' | 'lg' | 'xl'
-}
-
 interface LayoutWidgetConfig extends BaseWidgetConfig {
   isEditing: boolean
 }
@@ -41,136 +27,131 @@ export class LayoutWidget extends BaseWidget {
   private isEditing: boolean
   static readonly toggleEdit = StateEffect.define<boolean>()
 
-  constructor(content: string, id: string, isEditing: boolean, app: App) {
-    super({ content, id, app })
+  constructor(content: string, id: string, isEditing: boolean, app: App, sourcePath = '') {
+    super({ content, id, app, sourcePath })
     this.isEditing = isEditing
-    // Parse layout properties from the content
-    this.properties = this.parseLayoutProperties(content)
-    // Use the utility function to parse columns
+    this.properties = parseBlock(content)?.marker.props ?? {}
     this.columns = parseColumns(content)
   }
 
-  private parseLayoutProperties(content: string): BlockProperties {
-    const match = content.match(/^::layout(?:\((.*?)\))?\n?/)
-    return match ? parseLayoutProperties(content) : {}
-  }
-
   eq(other: LayoutWidget): boolean {
     return this.id === other.id
       && this.content === other.content
       && this.isEditing === other.isEditing
   }
 
-  protected createPreviewView(view: EditorView): HTMLElement {
+  protected createPreviewView(view: EditorView | null): HTMLElement {
     const container = this.createContainer('ginko-layout-container')
-    const editButton = this.createEditButton((_e) => {
-      // Find the position of this widget in the document
-      const widgetPos = view.posAtDOM(container)
-
-      // Find the first --col position
-      const content = this.content
-      const searchPos = content.indexOf('--col')
-      if (searchPos !== -1) {
-        // Find the end of the --col line
-        const lineEnd = content.indexOf('\n', searchPos)
-        if (lineEnd !== -1) {
-          // Position cursor at the start of the next line
-          const nextLineStart = lineEnd + 1
-          const tabPos = widgetPos + nextLineStart
-
-          // Set cursor position and scroll into view
-          view.dispatch({
-            selection: { anchor: tabPos, head: tabPos },
-            effects: EditorView.scrollIntoView(tabPos, {
-              y: 'center',
-              x: 'nearest',
-              yMargin: 50,
-              xMargin: 20,
-            }),
-          })
+    if (view) {
+      const editButton = this.createEditButton((_e) => {
+        // Find the position of this widget in the document
+        const widgetPos = view.posAtDOM(container)
 
-          // Ensure focus is set on the editor
-          view.focus()
+        // Find the first --col position
+        const content = this.content
+        const searchPos = content.indexOf('--col')
+        if (searchPos !== -1) {
+          // Find the end of the --col line
+          const lineEnd = content.indexOf('\n', searchPos)
+          if (lineEnd !== -1) {
+            // Position cursor at the start of the next line
+            const nextLineStart = lineEnd + 1
+            const tabPos = widgetPos + nextLineStart
+
+            // Set cursor position and scroll into view
+            view.dispatch({
+              selection: { anchor: tabPos, head: tabPos },
+              effects: EditorView.scrollIntoView(tabPos, {
+                y: 'center',
+                x: 'nearest',
+                yMargin: 50,
+                xMargin: 20,
+              }),
+            })
+
+            // Ensure focus is set on the editor
+            view.focus()
+          }
         }
-      }
-    })
-
-    container.appendChild(editButton)
+      })
 
-    // Handle single column case like CenterWidget
-    if (this.columns.length === 1 && this.columns[0].size) {
-      const size = this.columns[0].size
-      if (size && SIZE_MAP[size]) {
-        container.style.maxWidth = `${SIZE_MAP[size]}px`
-        container.classList.add('ginko-center-container')
-      }
+      container.appendChild(editButton)
     }
 
+    // A single sized column is centered at its width
+    const isSingle = this.columns.length === 1
+    if (isSingle && (this.columns[0].size || this.columns[0].width))
+      container.classList.add('ginko-center-container')
+
     const columnsContainer = document.createElement('div')
-    columnsContainer.className = this.columns.length === 1 ? 'ginko-center-content' : 'ginko-layout-columns'
+    columnsContainer.className = isSingle ? 'ginko-center-content' : 'ginko-layout-columns'
 
-    // Calculate column widths
-    const columnWidths = this.calculateColumnWidths()
+    // The same widths in reading mode and live preview
+    const columnWidths = getColumnWidths(this.columns)
+    const columnElements: HTMLElement[] = []
 
     this.columns.forEach((column, index) => {
       const columnElement = document.createElement('div')
-      columnElement.className = this.columns.length === 1 ? 'markdown-preview-view' : 'ginko-layout-column'
-
-      // Apply calculated width for multi-column layouts
-      if (this.columns.length > 1) {
-        columnElement.style.width = `${columnWidths[index]}%`
-      }
+      columnElement.className = isSingle ? 'markdown-preview-view' : 'ginko-layout-column'
+      columnElement.style.width = `${columnWidths[index]}%`
+      columnElements.push(columnElement)
 
       // Add click handler for each column
-      columnElement.addEventListener('mousedown', (e) => {
-        e.preventDefault()
-        e.stopPropagation()
-
-        // Find the position of this widget in the document
-        const widgetPos = view.posAtDOM(container)
-
-        // Find the corresponding --col marker and its content start
-        const content = this.content
-        let searchPos = 0
-        let columnPos = widgetPos
-
-        for (let i = 0; i <= index; i++) {
-          searchPos = content.indexOf('--col', searchPos)
-          if (searchPos !== -1) {
-            // Find the end of the --col line
-            const lineEnd = content.indexOf('\n', searchPos)
-            if (lineEnd !== -1) {
-              // Position cursor at the start of the next line
-              const nextLineStart = lineEnd + 1
-              columnPos = widgetPos + nextLineStart
+      if (view) {
+        columnElement.addEventListener('mousedown', (e) => {
+          e.preventDefault()
+          e.stopPropagation()
+
+          // Find the position of this widget in the document
+          const widgetPos = view.posAtDOM(container)
+
+          // Find the corresponding --col marker and its content start
+          const content = this.content
+          let searchPos = 0
+          let columnPos = widgetPos
+
+          for (let i = 0; i <= index; i++) {
+            searchPos = content.indexOf('--col', searchPos)
+            if (searchPos !== -1) {
+              // Find the end of the --col line
+              const lineEnd = content.indexOf('\n', searchPos)
+              if (lineEnd !== -1) {
+                // Position cursor at the start of the next line
+                const nextLineStart = lineEnd + 1
+                columnPos = widgetPos + nextLineStart
+              }
+              searchPos = lineEnd + 1
             }
-            searchPos = lineEnd + 1
           }
-        }
 
-        // Set cursor to the start of the column content
-        view.dispatch({
-          selection: { anchor: columnPos, head: columnPos },
-          effects: EditorView.scrollIntoView(columnPos, {
-            y: 'center',
-            x: 'nearest',
-            yMargin: 50,
-            xMargin: 20,
-          }),
+          // Set cursor to the start of the column content
+          view.dispatch({
+            selection: { anchor: columnPos, head: columnPos },
+            effects: EditorView.scrollIntoView(columnPos, {
+              y: 'center',
+              x: 'nearest',
+              yMargin: 50,
+              xMargin: 20,
+            }),
+          })
+
+          // Ensure focus is set on the editor
+          view.focus()
         })
+      }
 
-        // Ensure focus is set on the editor
-        view.focus()
-      })
+      if (view) {
+        columnElement.appendChild(this.createSizeSelect(view, container, column, index))
+      }
 
       const content = document.createElement('div')
 
       const markdownChild = new MarkdownRenderChild(content)
       MarkdownRenderer.render(
         this.app,
-        column.content.replace(/::$/, '').trim(),
+        column.content.trim(),
         content,
-        '',
+        this.sourcePath,
         markdownChild,
       ).then(() => {
         content.querySelectorAll('.edit-block-button').forEach(btn => btn.remove())
@@ -180,71 +161,120 @@ export class LayoutWidget extends BaseWidget {
       columnsContainer.appendChild(columnElement)
     })
 
+    if (view && !isSingle)
+      this.addResizeGutters(view, container, columnsContainer, columnElements, columnWidths)
+
     container.appendChild(columnsContainer)
     return container
   }
 
-  private getSizeUnits(size: string): number {
-    switch (size) {
-      case 'xs': return 25 // 3/12
-      case 'sm': return 33.33 // 4/12
-      case 'md': return 50 // 6/12
-      case 'lg': return 66.67 // 8/12
-      case 'xl': return 75 // 9/12
-      default: return -1 // Signal no size specified
-    }
-  }
-
   /**
-   * Calculates the width for each column based on their size properties
-   * @returns Array of column widths in percentages
+   * Adds a gutter on the right edge of each column but the last. Dragging a gutter
+   * resizes the columns on both sides and, once dropped, writes their widths back to
+   * their `--col` markers, snapped to a size keyword when close to one.
    */
-  private calculateColumnWidths(): number[] {
-    if (this.columns.length === 0)
-      return []
-    if (this.columns.length === 1)
-      return [100]
-
-    const widths: number[] = Array.from({ length: this.columns.length })
-    const remainingIndices: number[] = []
-    let remainingWidth = 100
-    let specifiedCount = 0
-
-    // First pass: Handle explicitly sized columns
-    this.columns.forEach((column, index) => {
-      if (column.size) {
-        const width = this.getSizeUnits(column.size)
-        if (width > 0) {
-          widths[index] = width
-          remainingWidth -= width
-          specifiedCount++
-        }
-        else {
-          remainingIndices.push(index)
-        }
-      }
-      else {
-        remainingIndices.push(index)
+  private addResizeGutters(
+    view: EditorView,
+    container: HTMLElement,
+    columnsContainer: HTMLElement,
+    columnElements: readonly HTMLElement[],
+    widths: readonly number[],
+  ): void {
+    columnElements.slice(0, -1).forEach((columnElement, index) => {
+      const gutter = document.createElement('div')
+      gutter.className = 'ginko-layout-gutter'
+      gutter.setAttribute('aria-label', 'Drag to resize columns')
+
+      let startX = 0
+      let resized = [...widths]
+
+      const onMove = (e: PointerEvent) => {
+        const delta = (e.clientX - startX) / columnsContainer.getBoundingClientRect().width * 100
+        resized = resizeColumns(widths, index, delta)
+        columnElements[index].style.width = `${resized[index]}%`
+        columnElements[index + 1].style.width = `${resized[index + 1]}%`
       }
-    })
 
-    // Handle remaining columns
-    if (remainingIndices.length > 0) {
-      if (specifiedCount === 0) {
-        // If no columns have specified sizes, use equal distribution
-        const equalWidth = 100 / this.columns.length
-        return this.columns.map(() => equalWidth)
-      }
-      else {
-        // Distribute remaining width equally among unspecified columns
-        const defaultWidth = remainingWidth / remainingIndices.length
-        remainingIndices.forEach((index) => {
-          widths[index] = defaultWidth
+      const onUp = (e: PointerEvent) => {
+        gutter.releasePointerCapture(e.pointerId)
+        gutter.removeEventListener('pointermove', onMove)
+        gutter.removeEventListener('pointerup', onUp)
+        container.classList.remove('is-resizing')
+        if (resized[index] === widths[index])
+          return
+
+        this.editBlock(view, container, (block) => {
+          const sections = getSections(block).filter(section => section.marker.name === 'col')
+          const left = sections[index]
+          const right = sections[index + 1]
+          if (!left || !right)
+            return []
+          return [
+            ...updateMarkerProps(left.marker, getWidthProps(resized[index])),
+            ...updateMarkerProps(right.marker, getWidthProps(resized[index + 1])),
+          ]
         })
       }
-    }
 
-    return widths
+      // Keeps the column from jumping to its markdown
+      gutter.addEventListener('mousedown', (e) => {
+        e.preventDefault()
+        e.stopPropagation()
+      })
+      gutter.addEventListener('pointerdown', (e) => {
+        e.preventDefault()
+        e.stopPropagation()
+        startX = e.clientX
+        resized = [...widths]
+        gutter.setPointerCapture(e.pointerId)
+        gutter.addEventListener('pointermove', onMove)
+        gutter.addEventListener('pointerup', onUp)
+        container.classList.add('is-resizing')
+      })
+
+      columnElement.appendChild(gutter)
+    })
+  }
+
+  /**
+   * Creates the dropdown that sets the size of a column in its `--col` marker
+   */
+  private createSizeSelect(view: EditorView, container: HTMLElement, column: ColumnData, index: number): HTMLElement {
+    const select = document.createElement('select')
+    select.className = 'ginko-layout-size-select dropdown'
+    select.setAttribute('aria-label', 'Column size')
+    for (const size of ['', ...COLUMN_SIZES]) {
+      const option = document.createElement('option')
+      option.value = size
+      option.textContent = size || 'auto'
+      select.appendChild(option)
+    }
+    // A dragged width shows as its own option
+    if (column.width !== undefined) {
+      const option = document.createElement('option')
+      option.value = 'width'
+      option.textContent = `${Math.round(column.width)}%`
+      select.appendChild(option)
+    }
+    select.value = column.width !== undefined ? 'width' : column.size ?? ''
+
+    // Keeps the column from jumping to its markdown
+    select.addEventListener('mousedown', e => e.stopPropagation())
+    select.addEventListener('change', () => {
+      const size = select.value
+      this.editBlock(view, container, (block) => {
+        const section = getSections(block).filter(section => section.marker.name === 'col')[index]
+        if (!section)
+          return []
+        // A size is written as a flag, replacing any size flag, `size` or `width` prop
+        const updates: Record<string, string | true | null> = { size: null, width: null }
+        COLUMN_SIZES.forEach(flag => updates[flag] = null)
+        if (size)
+          updates[size] = true
+        return updateMarkerProps(section.marker, updates)
+      })
+    })
+    return select
   }
 
   isEditingState(): boolean {
@@ -0,0 +1,68 @@
+import type { ColumnData } from '../utils'
+
+type ColumnSize = NonNullable<ColumnData['size']>
+
+/**
+ * The share of the layout each size keyword takes, in percent of a 12-column grid
+ */
+export const SIZE_WIDTHS: Readonly<Record<ColumnSize, number>> = {
+  xs: 25, // 3/12
+  sm: 33.33, // 4/12
+  md: 50, // 6/12
+  lg: 66.67, // 8/12
+  xl: 75, // 9/12
+}
+
+export const MIN_COLUMN_WIDTH = 5
+
+// How close a dragged width must be to a size keyword to snap to it
+const SNAP_TOLERANCE = 2
+
+/**
+ * The width of each column in percent. An explicit `width` wins over a size keyword;
+ * columns with neither share what is left. Widths adding up to more than 100 are
+ * scaled down so the columns fit on one row.
+ */
+export function getColumnWidths(columns: readonly Pick<ColumnData, 'size' | 'width'>[]): number[] {
+  const fixed = columns.map(column => column.width ?? (column.size ? SIZE_WIDTHS[column.size] : undefined))
+  const total = fixed.reduce<number>((sum, width) => sum + (width ?? 0), 0)
+  const flexible = fixed.filter(width => width === undefined).length
+
+  const share = flexible > 0 ? Math.max(100 - total, 0) / flexible : 0
+  const scale = total > 100 ? 100 / total : 1
+  return fixed.map(width => width === undefined ? share : width * scale)
+}
+
+/**
+ * Moves the border between column `index` and the next one by `delta` percent. The
+ * two columns trade width, neither becoming narrower than `MIN_COLUMN_WIDTH`.
+ */
+export function resizeColumns(widths: readonly number[], index: number, delta: number): number[] {
+  const left = widths[index]
+  const right = widths[index + 1]
+  if (left === undefined || right === undefined)
+    return [...widths]
+
+  const clamped = Math.min(Math.max(delta, MIN_COLUMN_WIDTH - left), right - MIN_COLUMN_WIDTH)
+  const resized = [...widths]
+  resized[index] = left + clamped
+  resized[index + 1] = right - clamped
+  return resized
+}
+
+/**
+ * The props that give a column a width: the size keyword close to it, or a `width`
+ * rounded to a whole percent. Other size props are removed.
+ */
+export function getWidthProps(width: number): Record<string, string | true | null> {
+  const updates: Record<string, string | true | null> = { size: null, width: null }
+  const sizes = Object.keys(SIZE_WIDTHS) as ColumnSize[]
+  sizes.forEach(size => updates[size] = null)
+
+  const snapped = sizes.find(size => Math.abs(SIZE_WIDTHS[size] - width) <= SNAP_TOLERANCE)
+  if (snapped)
+    updates[snapped] = true
+  else
+    updates.width = `${Math.round(width)}%`
+  return updates
+}
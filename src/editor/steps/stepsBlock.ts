@@ -0,0 +1,25 @@
+import type { BlockDefinition } from '../../core/types'
+import { createBlockParser } from '../../core/blockParser'
+import { createSectionsTemplate } from '../../core/blockTemplates'
+import { createStepsPostProcessor } from './stepsPostProcessor'
+import { createStepsPreviewExtension } from './stepsPreviewExtension'
+import { stepProps } from './stepsWidget'
+
+const markers = { start: '::steps', end: '::', child: '--step' }
+
+export const stepsBlock: BlockDefinition = {
+  id: 'steps',
+  name: 'Steps',
+  description: 'Create step-by-step guides with numbered or custom markers',
+  docLink: '/steps',
+  settingKey: 'steps',
+  markers,
+  parser: createBlockParser(markers),
+  livePreview: createStepsPreviewExtension,
+  readingMode: createStepsPostProcessor,
+  props: {},
+  childProps: { step: stepProps },
+  templates: [
+    createSectionsTemplate(markers, { id: 'steps', name: 'Steps', count: 3, title: index => `Step ${index + 1}` }),
+  ],
+}
@@ -1,5 +1,6 @@
 import type { Extension, StateEffect } from '@codemirror/state'
 import type { App } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
 import type { PreviewExtensionConfig } from '../_base/basePreviewExtension'
 import { BasePreviewExtension } from '../_base/basePreviewExtension'
 import { StepsWidget, toggleStepsEdit } from './stepsWidget'
@@ -8,11 +9,12 @@ import { StepsWidget, toggleStepsEdit } from './stepsWidget'
  * Extension for handling steps preview functionality
  */
 class StepsPreviewExtension extends BasePreviewExtension<StepsWidget> {
-  constructor(app: App) {
+  constructor(app: App, block: BlockDefinition) {
     const config: PreviewExtensionConfig = {
-      startTag: '::steps',
-      endTag: '::',
+      startTag: block.markers.start,
+      endTag: block.markers.end,
       fieldName: 'stepsPreview',
+      parser: block.parser,
     }
     super(app, config)
   }
@@ -23,8 +25,8 @@ class StepsPreviewExtension extends BasePreviewExtension<StepsWidget> {
     return content.trim().startsWith('::steps')
   }
 
-  protected createWidget(content: string, id: string, isEditing: boolean, app: App): StepsWidget {
-    return new StepsWidget(content, id, isEditing, app)
+  protected createWidget(content: string, id: string, isEditing: boolean, app: App, sourcePath: string): StepsWidget {
+    return new StepsWidget(content, id, isEditing, app, sourcePath)
   }
 
   protected isToggleEditEffect(effect: StateEffect<unknown>): effect is StateEffect<{ id: string, value: boolean }> {
@@ -39,7 +41,7 @@ class StepsPreviewExtension extends BasePreviewExtension<StepsWidget> {
 /**
  * Creates the steps preview extension with the given Obsidian app instance
  */
-export function createStepsPreviewExtension(app: App): Extension[] {
-  const extension = new StepsPreviewExtension(app)
+export function createStepsPreviewExtension(app: App, block: BlockDefinition): Extension[] {
+  const extension = new StepsPreviewExtension(app, block)
   return extension.createExtension()
 }
@@ -1,19 +1,31 @@
 import type { App } from 'obsidian'
+import type { TypedProps } from '../../core/propSchema'
 import type { BaseWidgetConfig } from '../_base/baseWidget'
 import type { BlockProperties } from '../utils'
 import { StateEffect } from '@codemirror/state'
 import { EditorView } from '@codemirror/view'
-import { MarkdownRenderChild, MarkdownRenderer } from 'obsidian'
+import { MarkdownRenderChild, MarkdownRenderer, setIcon } from 'obsidian'
+import { getSections, parseBlock } from '../../core/blockAst'
+import { moveSection } from '../../core/blockEdits'
+import { coerceProps, definePropSchema } from '../../core/propSchema'
 import { BaseWidget } from '../_base/baseWidget'
-import { createIconElement, parseBlockProperties, parseLayoutProperties } from '../utils'
+import { createIcon } from '../utils/iconResolver'
+import { makeSortable } from '../utils/sortable'
 
 // Define the toggle effect
 export const toggleStepsEdit = StateEffect.define<{ id: string, value: boolean }>()
 
+/**
+ * Props of a `--step` section
+ */
+export const stepProps = definePropSchema({
+  icon: { type: 'icon' },
+} as const)
+
 interface StepData {
   title: string
   content: string
-  properties: BlockProperties
+  properties: TypedProps<typeof stepProps>
 }
 
 interface StepsWidgetConfig extends BaseWidgetConfig {
@@ -29,87 +41,30 @@ export class StepsWidget extends BaseWidget {
   private readonly properties: BlockProperties
   private isEditing: boolean
 
-  constructor(content: string, id: string, isEditing: boolean, app: App) {
-    super({ content, id, app })
+  constructor(content: string, id: string, isEditing: boolean, app: App, sourcePath = '') {
+    super({ content, id, app, sourcePath })
     this.isEditing = isEditing
 
-    this.properties = this.parseStepsProperties(content)
-
+    const block = parseBlock(content)
+    this.properties = block?.marker.props ?? {}
     this.steps = this.parseSteps(content)
   }
 
-  private parseStepsProperties(content: string): BlockProperties {
-    const match = content.match(/^::steps(?:\((.*?)\))?\n?/)
-
-    if (!match)
-      return {}
-
-    const stepsLine = `::steps${match[1] ? `(${match[1]})` : ''}`
-    const props = parseLayoutProperties(stepsLine)
-
-    return props
-  }
-
+  /**
+   * Builds structured step data from the `--step` sections of the block
+   */
   private parseSteps(content: string): readonly StepData[] {
-    // Clean the content by removing the ::steps header and closing ::
-    const cleanContent = content
-      .replace(/^::steps(?:\((.*?)\))?\n?/, '')
-      .replace(/\n?::$/, '')
-
-    const steps: StepData[] = []
-    const lines = cleanContent.split('\n')
-    let currentStep: { title: string, content: string[], properties: BlockProperties } | null = null
-    let nestedBlockCount = 0
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      const stepMatch = line.match(/^--step(?:\((.*?)\))?\s*(.*)/)
-
-      if (stepMatch) {
-        if (currentStep) {
-          steps.push({
-            title: currentStep.title,
-            content: currentStep.content.join('\n'),
-            properties: currentStep.properties,
-          })
-        }
-
-        // Parse properties from the captured group
-        const props = stepMatch[1]
-          ? parseBlockProperties(line, /--step\((.*?)\)/)
-          : {}
-
-        currentStep = {
-          title: stepMatch[2] || '',
-          content: [],
-          properties: props,
-        }
-      }
-      else if (currentStep) {
-        // Track nested blocks
-        if (line.startsWith('::') && !line.startsWith('::steps')) {
-          nestedBlockCount++
-          currentStep.content.push(line)
-        }
-        else if (line === '::') {
-          if (nestedBlockCount > 0) {
-            nestedBlockCount--
-            currentStep.content.push(line)
-          }
-        }
-        else {
-          currentStep.content.push(line)
-        }
-      }
-    }
-
-    if (currentStep) {
-      steps.push({
-        title: currentStep.title,
-        content: currentStep.content.join('\n'),
-        properties: currentStep.properties,
-      })
-    }
+    const block = parseBlock(content)
+    if (!block)
+      return Object.freeze([])
+
+    const steps = getSections(block)
+      .filter(section => section.marker.name === 'step')
+      .map(section => ({
+        title: section.marker.title,
+        content: section.body,
+        properties: coerceProps(section.marker.props, stepProps).values,
+      }))
 
     return Object.freeze(steps)
   }
@@ -120,44 +75,46 @@ export class StepsWidget extends BaseWidget {
       && this.isEditing === other.isEditing
   }
 
-  protected createPreviewView(view: EditorView): HTMLElement {
+  protected createPreviewView(view: EditorView | null): HTMLElement {
     const container = this.createContainer('ginko-steps-container')
 
     // Create edit button first
-    const editButton = this.createEditButton((e) => {
-      // Find the position of this widget in the document
-      const widgetPos = view.posAtDOM(container)
-
-      // Find the first --step position
-      const content = this.content
-      const searchPos = content.indexOf('--step')
-      if (searchPos !== -1) {
-        // Find the end of the --step line
-        const lineEnd = content.indexOf('\n', searchPos)
-        if (lineEnd !== -1) {
-          // Position cursor at the start of the next line
-          const nextLineStart = lineEnd + 1
-          const stepPos = widgetPos + nextLineStart
-
-          // Set cursor position and scroll into view
-          view.dispatch({
-            selection: { anchor: stepPos, head: stepPos },
-            effects: EditorView.scrollIntoView(stepPos, {
-              y: 'center',
-              x: 'nearest',
-              yMargin: 50,
-              xMargin: 20,
-            }),
-          })
+    if (view) {
+      const editButton = this.createEditButton((e) => {
+        // Find the position of this widget in the document
+        const widgetPos = view.posAtDOM(container)
 
-          // Ensure focus is set on the editor
-          view.focus()
+        // Find the first --step position
+        const content = this.content
+        const searchPos = content.indexOf('--step')
+        if (searchPos !== -1) {
+          // Find the end of the --step line
+          const lineEnd = content.indexOf('\n', searchPos)
+          if (lineEnd !== -1) {
+            // Position cursor at the start of the next line
+            const nextLineStart = lineEnd + 1
+            const stepPos = widgetPos + nextLineStart
+
+            // Set cursor position and scroll into view
+            view.dispatch({
+              selection: { anchor: stepPos, head: stepPos },
+              effects: EditorView.scrollIntoView(stepPos, {
+                y: 'center',
+                x: 'nearest',
+                yMargin: 50,
+                xMargin: 20,
+              }),
+            })
+
+            // Ensure focus is set on the editor
+            view.focus()
+          }
         }
-      }
-    })
+      })
 
-    // Add edit button to container first
-    container.appendChild(editButton)
+      // Add edit button to container first
+      container.appendChild(editButton)
+    }
 
     const stepsContainer = document.createElement('div')
     stepsContainer.className = 'ginko-steps-list'
@@ -173,10 +130,10 @@ export class StepsWidget extends BaseWidget {
       stepNumber.className = 'ginko-step-number'
 
       // Handle icon if specified
-      const iconName = typeof step.properties.icon === 'string' ? step.properties.icon : null
+      const iconName = step.properties.icon
 
       if (iconName) {
-        createIconElement(iconName).then((iconEl) => {
+        createIcon(iconName, { app: this.app, sourcePath: this.sourcePath }).then((iconEl) => {
           if (iconEl) {
             stepNumber.innerHTML = ''
             stepNumber.appendChild(iconEl)
@@ -184,9 +141,6 @@ export class StepsWidget extends BaseWidget {
           else {
             stepNumber.textContent = (index + 1).toString()
           }
-        }).catch((error) => {
-          console.error('Failed to create icon:', error)
-          stepNumber.textContent = (index + 1).toString()
         })
       }
       else {
@@ -195,51 +149,63 @@ export class StepsWidget extends BaseWidget {
 
       stepElement.appendChild(stepNumber)
 
+      // Steps are reordered by dragging their handle; a press elsewhere jumps to the step's text
+      if (view) {
+        const handle = document.createElement('div')
+        handle.className = 'ginko-step-handle'
+        handle.setAttribute('aria-label', 'Drag to reorder')
+        setIcon(handle, 'grip-vertical')
+        handle.addEventListener('mousedown', e => e.stopPropagation())
+        stepElement.appendChild(handle)
+      }
+
       // Create step content container
       const stepContent = document.createElement('div')
       stepContent.className = 'ginko-step-content'
 
       // Add click handler for each step
-      stepElement.addEventListener('mousedown', (e) => {
-        e.preventDefault()
-        e.stopPropagation()
-
-        // Find the position of this widget in the document
-        const widgetPos = view.posAtDOM(container)
-
-        // Find the corresponding --step marker and its content start
-        const content = this.content
-        let searchPos = 0
-        let stepPos = widgetPos
-
-        for (let i = 0; i <= index; i++) {
-          searchPos = content.indexOf('--step', searchPos)
-          if (searchPos !== -1) {
-            // Find the end of the --step line
-            const lineEnd = content.indexOf('\n', searchPos)
-            if (lineEnd !== -1) {
-              // Position cursor at the start of the next line
-              const nextLineStart = lineEnd + 1
-              stepPos = widgetPos + nextLineStart
+      if (view) {
+        stepElement.addEventListener('mousedown', (e) => {
+          e.preventDefault()
+          e.stopPropagation()
+
+          // Find the position of this widget in the document
+          const widgetPos = view.posAtDOM(container)
+
+          // Find the corresponding --step marker and its content start
+          const content = this.content
+          let searchPos = 0
+          let stepPos = widgetPos
+
+          for (let i = 0; i <= index; i++) {
+            searchPos = content.indexOf('--step', searchPos)
+            if (searchPos !== -1) {
+              // Find the end of the --step line
+              const lineEnd = content.indexOf('\n', searchPos)
+              if (lineEnd !== -1) {
+                // Position cursor at the start of the next line
+                const nextLineStart = lineEnd + 1
+                stepPos = widgetPos + nextLineStart
+              }
+              searchPos = lineEnd + 1
             }
-            searchPos = lineEnd + 1
           }
-        }
 
-        // Set cursor to the start of the step content
-        view.dispatch({
-          selection: { anchor: stepPos, head: stepPos },
-          effects: EditorView.scrollIntoView(stepPos, {
-            y: 'center',
-            x: 'nearest',
-            yMargin: 50,
-            xMargin: 20,
-          }),
-        })
+          // Set cursor to the start of the step content
+          view.dispatch({
+            selection: { anchor: stepPos, head: stepPos },
+            effects: EditorView.scrollIntoView(stepPos, {
+              y: 'center',
+              x: 'nearest',
+              yMargin: 50,
+              xMargin: 20,
+            }),
+          })
 
-        // Ensure focus is set on the editor
-        view.focus()
-      })
+          // Ensure focus is set on the editor
+          view.focus()
+        })
+      }
 
       const markdownChild = new MarkdownRenderChild(stepContent)
 
@@ -255,7 +221,7 @@ export class StepsWidget extends BaseWidget {
         this.app,
         contentToRender.trim(),
         stepContent,
-        '',
+        this.sourcePath,
         markdownChild,
       )
 
@@ -266,6 +232,16 @@ export class StepsWidget extends BaseWidget {
       stepsContainer.appendChild(stepElement)
     }
 
+    if (view) {
+      const items = Array.from(stepsContainer.children) as HTMLElement[]
+      makeSortable(items, (from, to) => {
+        this.editBlock(view, container, (block, source) => {
+          const sections = getSections(block).filter(section => section.marker.name === 'step')
+          return moveSection(sections, source, from, to)
+        })
+      }, item => item.querySelector<HTMLElement>('.ginko-step-handle') ?? item)
+    }
+
     container.appendChild(stepsContainer)
     return container
   }
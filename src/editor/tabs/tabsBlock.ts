@@ -0,0 +1,27 @@
+import type { BlockDefinition } from '../../core/types'
+import { createBlockParser } from '../../core/blockParser'
+import { createSectionsTemplate } from '../../core/blockTemplates'
+import { tabProps } from '../utils'
+import { createBlockStateReset } from '../utils/blockReset'
+import { createTabsPostProcessor } from './tabsPostProcessor'
+import { createTabPreviewExtension } from './tabsPreviewExtension'
+
+const markers = { start: '::tabs', end: '::', child: '--tab' }
+
+export const tabsBlock: BlockDefinition = {
+  id: 'tabs',
+  name: 'Tabs',
+  description: 'Organize content in tabbed interfaces for better navigation',
+  docLink: '/tabs',
+  settingKey: 'tabs',
+  markers,
+  parser: createBlockParser(markers),
+  livePreview: createTabPreviewExtension,
+  readingMode: createTabsPostProcessor,
+  props: {},
+  childProps: { tab: tabProps },
+  reset: createBlockStateReset('tab'),
+  templates: [
+    createSectionsTemplate(markers, { id: 'tabs', name: 'Tabs', count: 2, title: index => `Tab ${index + 1}` }),
+  ],
+}
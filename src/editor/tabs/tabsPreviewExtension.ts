@@ -1,5 +1,6 @@
 import type { Extension } from '@codemirror/state'
 import type { App } from 'obsidian'
+import type { BlockDefinition } from '../../core/types'
 import type { PreviewExtensionConfig } from '../_base/basePreviewExtension'
 import { StateEffect } from '@codemirror/state'
 import { BasePreviewExtension } from '../_base/basePreviewExtension'
@@ -14,11 +15,12 @@ export const toggleTabEdit = StateEffect.define<{ id: string, value: boolean }>(
  * Extension for handling tab preview functionality
  */
 class TabPreviewExtension extends BasePreviewExtension<TabWidget> {
-  constructor(app: App) {
+  constructor(app: App, block: BlockDefinition) {
     const config: PreviewExtensionConfig = {
-      startTag: '::tabs',
-      endTag: '::',
+      startTag: block.markers.start,
+      endTag: block.markers.end,
       fieldName: 'tabPreview',
+      parser: block.parser,
     }
     super(app, config)
   }
@@ -26,7 +28,7 @@ class TabPreviewExtension extends BasePreviewExtension<TabWidget> {
   // Add this method to implement the abstract method
   protected processContentBlock(content: string, startPos: number, endPos: number): void {
     // Implementation for processing tab content blocks
-    const widget = this.createWidget(content, `tab-${startPos}`, false, this.app)
+    const widget = this.createWidget(content, `tab-${startPos}`, false, this.app, '')
     if (widget) {
       // Handle the widget processing if needed
     }
@@ -39,8 +41,8 @@ class TabPreviewExtension extends BasePreviewExtension<TabWidget> {
     return true
   }
 
-  protected createWidget(content: string, id: string, isEditing: boolean, app: App): TabWidget {
-    return new TabWidget(content, id, isEditing, app)
+  protected createWidget(content: string, id: string, isEditing: boolean, app: App, sourcePath: string): TabWidget {
+    return new TabWidget(content, id, isEditing, app, sourcePath)
   }
 
   protected isToggleEditEffect(effect: StateEffect<unknown>): effect is StateEffect<{ id: string, value: boolean }> {
@@ -51,7 +53,7 @@ class TabPreviewExtension extends BasePreviewExtension<TabWidget> {
 /**
  * Creates the tab preview extension with the given Obsidian app instance
  */
-export function createTabPreviewExtension(app: App): Extension[] {
-  const extension = new TabPreviewExtension(app)
+export function createTabPreviewExtension(app: App, block: BlockDefinition): Extension[] {
+  const extension = new TabPreviewExtension(app, block)
   return extension.createExtension()
 }
@@ -1,4 +1,5 @@
 import type { App } from 'obsidian'
+import type { BlockNode, SectionNode } from '../../core/blockAst'
 import type { BaseWidgetConfig } from '../_base/baseWidget'
 import type {
   BlockProperties,
@@ -7,14 +8,15 @@ import type {
 import { StateEffect } from '@codemirror/state'
 import { EditorView } from '@codemirror/view'
 import { MarkdownRenderChild, MarkdownRenderer } from 'obsidian'
+import { getSections, parseBlock } from '../../core/blockAst'
+import { appendSection, moveSection, removeSection, setMarkerTitle } from '../../core/blockEdits'
 import { BaseWidget } from '../_base/baseWidget'
 import {
-  cleanMarkdownString,
-  createIconElement,
-  parseBlockProperties,
-  parseTabProperties,
+  getTabProperties,
 } from '../utils'
 import { getBlockState, setBlockState } from '../utils/blockState'
+import { createIcon } from '../utils/iconResolver'
+import { makeSortable } from '../utils/sortable'
 
 /**
  * Represents a single tab's data structure
@@ -25,10 +27,35 @@ interface TabData {
   properties: TabProperties
 }
 
+function getTabSections(block: BlockNode): SectionNode[] {
+  return getSections(block).filter(section => section.marker.name === 'tab')
+}
+
 interface TabWidgetConfig extends BaseWidgetConfig {
   isEditing: boolean
 }
 
+/**
+ * Reads the active tab saved by the former reading mode renderer, which used its own
+ * localStorage key per explicit id, and moves it to the shared block state
+ */
+function migrateLegacyActiveTab(properties: BlockProperties, blockId: string, sourcePath: string): number | null {
+  if (typeof properties.id !== 'string')
+    return null
+
+  const legacyKey = `ginko-tabs-${properties.id}-active-tab`
+  const stored = localStorage.getItem(legacyKey)
+  if (stored === null)
+    return null
+
+  localStorage.removeItem(legacyKey)
+  const index = Number.parseInt(stored, 10)
+  if (Number.isNaN(index))
+    return null
+  setBlockState<number>(blockId, 'tab', index, sourcePath)
+  return index
+}
+
 /**
  * TabWidget represents a custom widget for rendering tabbed content in the editor.
  * It extends BaseWidget to provide tabbed content functionality with
@@ -42,80 +69,51 @@ export class TabWidget extends BaseWidget {
   protected content: string // Changed to protected to match base class
   static readonly toggleEdit = StateEffect.define<boolean>()
 
-  constructor(content: string, id: string, isEditing: boolean, app: App) {
-    super({ content, id, app })
+  constructor(content: string, id: string, isEditing: boolean, app: App, sourcePath = '') {
+    super({ content, id, app, sourcePath })
     this.isEditing = isEditing
     this.content = content
-    this.properties = this.parseTabBlockProperties(content)
+    const block = parseBlock(content)
+    this.properties = block?.marker.props ?? {}
     this.tabs = this.parseTabs(content)
     this.activeTab = this.loadActiveTab()
   }
 
-  private parseTabBlockProperties(content: string): BlockProperties {
-    const match = content.match(/^::tabs(?:\((.*?)\))?\n?/)
-    return match ? parseBlockProperties(content, /::tabs\((.*?)\)/) : {}
-  }
-
   private loadActiveTab(): number {
-    return getBlockState<number>(this.id, 'tab', 0)
+    const index = migrateLegacyActiveTab(this.properties, this.id, this.sourcePath)
+      ?? getBlockState<number>(this.id, 'tab', 0, this.sourcePath)
+    // Tabs may have been removed since the state was saved
+    return index >= 0 && index < this.tabs.length ? index : 0
   }
 
   private saveActiveTab(index: number): void {
-    setBlockState<number>(this.id, 'tab', index)
+    setBlockState<number>(this.id, 'tab', index, this.sourcePath)
   }
 
   /**
-   * Parses the raw content string into structured tab data
+   * Builds structured tab data from the `--tab` sections of the block
    */
   private parseTabs(content: string): readonly TabData[] {
-    const cleanContent = content
-      .replace(/^::tabs(?:\((.*?)\))?\n?/, '')
-      .replace(/\n?::$/, '')
-
-    const lines = cleanContent.split('\n')
-    const tabs: TabData[] = []
-    let currentTab: { properties: TabProperties, content: string[] } | null = null
-
-    for (const line of lines) {
-      // Match tab line with new syntax
-      const tabMatch = line.trim().match(/^--tab(?:\((.*?)\))?\s*(.*)$/)
-
-      if (tabMatch) {
-        if (currentTab) {
-          tabs.push({
-            title: cleanMarkdownString(currentTab.properties.title || ''),
-            content: currentTab.content.join('\n'),
-            properties: currentTab.properties,
-          })
-        }
-
-        // Parse properties from the captured group, if it exists
-        const properties = parseTabProperties(line)
-
-        currentTab = {
+    const block = parseBlock(content)
+    if (!block)
+      return Object.freeze([])
+
+    const tabs = getTabSections(block)
+      .map((section) => {
+        const properties = getTabProperties(section.marker)
+        return {
+          title: properties.title,
+          content: section.body,
           properties,
-          content: [],
         }
-      }
-      else if (currentTab) {
-        currentTab.content.push(line)
-      }
-    }
-
-    // Don't forget to add the last tab
-    if (currentTab) {
-      tabs.push({
-        title: cleanMarkdownString(currentTab.properties.title || ''),
-        content: currentTab.content.join('\n'),
-        properties: currentTab.properties,
       })
-    }
 
     return Object.freeze(tabs)
   }
 
   eq(other: BaseWidget): boolean {
-    if (!(other instanceof TabWidget)) return false
+    if (!(other instanceof TabWidget))
+      return false
     return this.id === other.id
       && this.content === other.content
       && this.activeTab === other.activeTab
@@ -127,17 +125,9 @@ export class TabWidget extends BaseWidget {
     button.className = `ginko-tab-button${index === this.activeTab ? ' active' : ''}`
 
     // Create icon container
-    const iconName = tab.properties.icon
-    if (iconName) {
-      try {
-        const iconEl = await createIconElement(iconName)
-        if (iconEl) {
-          button.appendChild(iconEl)
-        }
-      }
-      catch (error) {
-        console.warn('Failed to create icon:', error)
-      }
+    const iconEl = await createIcon(tab.properties.icon, { app: this.app, sourcePath: this.sourcePath })
+    if (iconEl) {
+      button.appendChild(iconEl)
     }
 
     // Create text container
@@ -156,45 +146,47 @@ export class TabWidget extends BaseWidget {
     return button
   }
 
-  protected createPreviewView(view: EditorView): HTMLElement {
+  protected createPreviewView(view: EditorView | null): HTMLElement {
     const container = this.createContainer('ginko-tabs-container')
-    const editButton = this.createEditButton((e) => {
-      // Find the position of this widget in the document
-      const widgetPos = view.posAtDOM(container)
-
-      // Calculate position of the current active tab
-      let tabPos = widgetPos
-      const content = this.content
-      let searchPos = 0
-
-      // Find the position of the active tab
-      for (let i = 0; i <= this.activeTab; i++) {
-        searchPos = content.indexOf('--tab', searchPos)
-        if (searchPos !== -1) {
-          const lineEnd = content.indexOf('\n', searchPos)
-          if (lineEnd !== -1) {
-            const nextLineStart = lineEnd + 1
-            tabPos = widgetPos + nextLineStart
+    if (view) {
+      const editButton = this.createEditButton((e) => {
+        // Find the position of this widget in the document
+        const widgetPos = view.posAtDOM(container)
+
+        // Calculate position of the current active tab
+        let tabPos = widgetPos
+        const content = this.content
+        let searchPos = 0
+
+        // Find the position of the active tab
+        for (let i = 0; i <= this.activeTab; i++) {
+          searchPos = content.indexOf('--tab', searchPos)
+          if (searchPos !== -1) {
+            const lineEnd = content.indexOf('\n', searchPos)
+            if (lineEnd !== -1) {
+              const nextLineStart = lineEnd + 1
+              tabPos = widgetPos + nextLineStart
+            }
+            searchPos = lineEnd + 1
           }
-          searchPos = lineEnd + 1
         }
-      }
 
-      // Set cursor position and scroll into view
-      view.dispatch({
-        selection: { anchor: tabPos, head: tabPos },
-        effects: EditorView.scrollIntoView(tabPos, {
-          y: 'center',
-          x: 'nearest',
-          yMargin: 50,
-          xMargin: 20,
-        }),
+        // Set cursor position and scroll into view
+        view.dispatch({
+          selection: { anchor: tabPos, head: tabPos },
+          effects: EditorView.scrollIntoView(tabPos, {
+            y: 'center',
+            x: 'nearest',
+            yMargin: 50,
+            xMargin: 20,
+          }),
+        })
+
+        view.focus()
       })
 
-      view.focus()
-    })
-
-    container.appendChild(editButton)
+      container.appendChild(editButton)
+    }
 
     const tabButtons = document.createElement('div')
     tabButtons.className = 'ginko-tab-buttons'
@@ -206,24 +198,24 @@ export class TabWidget extends BaseWidget {
     Promise.all(this.tabs.map((tab, index) => this.createTabButton(tab, index, container)))
       .then((buttons) => {
         buttons.forEach(button => tabButtons.appendChild(button))
+        if (view) {
+          this.addEditingControls(view, container, tabButtons, buttons)
+        }
       })
 
-    // Create and add tab contents
+    // Add the panels in tab order before rendering into them, as buttons find their panel by position
     this.tabs.forEach((tab, index) => {
       const content = this.createTabContent(tab, index)
+      tabContents.appendChild(content)
 
       const markdownChild = new MarkdownRenderChild(content)
       MarkdownRenderer.render(
         this.app,
         tab.content.trim(),
         content,
-        '',
+        this.sourcePath,
         markdownChild,
-      ).then(() => {
-        // Remove any nested edit buttons
-        content.querySelectorAll('.edit-block-button').forEach(btn => btn.remove())
-        tabContents.appendChild(content)
-      })
+      )
     })
 
     container.appendChild(tabButtons)
@@ -232,6 +224,108 @@ export class TabWidget extends BaseWidget {
     return container
   }
 
+  /**
+   * Adds the controls that edit the tabs in place: renaming a tab by double-clicking its
+   * title, removing it, dragging it to another position and adding a new one
+   */
+  private addEditingControls(view: EditorView, container: HTMLElement, tabButtons: HTMLElement, buttons: HTMLElement[]): void {
+    buttons.forEach((button, index) => {
+      button.addEventListener('dblclick', (e) => {
+        e.preventDefault()
+        e.stopPropagation()
+        this.renameTab(view, container, button, index)
+      })
+
+      if (buttons.length > 1) {
+        const remove = document.createElement('span')
+        remove.className = 'ginko-tab-remove'
+        remove.textContent = '×'
+        remove.setAttribute('aria-label', 'Remove tab')
+        remove.addEventListener('click', (e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          this.removeTab(view, container, index)
+        })
+        button.appendChild(remove)
+      }
+    })
+
+    makeSortable(buttons, (from, to) => this.moveTab(view, container, from, to))
+
+    const add = document.createElement('button')
+    add.className = 'ginko-tab-add'
+    add.textContent = '+'
+    add.setAttribute('aria-label', 'Add tab')
+    add.addEventListener('click', (e) => {
+      e.preventDefault()
+      e.stopPropagation()
+      this.saveActiveTab(this.tabs.length)
+      this.editBlock(view, container, block => appendSection(block, `--tab Tab ${getTabSections(block).length + 1}`))
+    })
+    tabButtons.appendChild(add)
+  }
+
+  /**
+   * Replaces a tab button with a text field for its title, written to the marker line on Enter or blur
+   */
+  private renameTab(view: EditorView, container: HTMLElement, button: HTMLElement, index: number): void {
+    const input = document.createElement('input')
+    input.className = 'ginko-tab-rename'
+    input.value = this.tabs[index].properties.rawTitle
+    button.replaceWith(input)
+    input.focus()
+    input.select()
+
+    let done = false
+    const finish = (save: boolean) => {
+      if (done)
+        return
+      done = true
+      input.replaceWith(button)
+      if (save) {
+        this.editBlock(view, container, (block) => {
+          const section = getTabSections(block)[index]
+          return section ? setMarkerTitle(section.marker, input.value) : []
+        })
+      }
+    }
+
+    input.addEventListener('keydown', (e) => {
+      e.stopPropagation()
+      if (e.key === 'Enter' || e.key === 'Escape') {
+        e.preventDefault()
+        finish(e.key === 'Enter')
+      }
+    })
+    input.addEventListener('blur', () => finish(true))
+  }
+
+  private removeTab(view: EditorView, container: HTMLElement, index: number): void {
+    if (index < this.activeTab || (index === this.activeTab && index === this.tabs.length - 1)) {
+      this.saveActiveTab(this.activeTab - 1)
+    }
+    this.editBlock(view, container, (block) => {
+      const section = getTabSections(block)[index]
+      return section ? removeSection(section) : []
+    })
+  }
+
+  /**
+   * Moves a tab to another position. The active tab stays active.
+   */
+  private moveTab(view: EditorView, container: HTMLElement, from: number, to: number): void {
+    let active = this.activeTab
+    if (active === from)
+      active = to
+    else if (from < active && active <= to)
+      active--
+    else if (to <= active && active < from)
+      active++
+    this.saveActiveTab(active)
+
+    this.editBlock(view, container, (block, source) => moveSection(getTabSections(block), source, from, to))
+  }
+
   private createTabContent(tab: TabData, index: number): HTMLElement {
     const content = document.createElement('div')
     content.className = `ginko-tab-content markdown-preview-view${index === this.activeTab ? ' active' : ''}`
@@ -1,7 +1,13 @@
 import type { Line, SelectionRange } from '@codemirror/state'
 import type { ViewUpdate } from '@codemirror/view'
+import type { MarkerInfo } from '../core/blockAst'
+import type { BlockProperties } from '../core/blockProperties'
 import { Transaction } from '@codemirror/state'
-import { getIcon } from 'obsidian'
+import { getSections, parseBlock, parseMarkerLine } from '../core/blockAst'
+import { coerceProps, definePropSchema } from '../core/propSchema'
+
+export type { BlockProperties } from '../core/blockProperties'
+export { parseBlockProperties } from '../core/blockProperties'
 
 /**
  * Interface for cursor location tracking
@@ -16,17 +22,41 @@ export interface CursorLocation {
  */
 export interface RegionData {
   regionText: string
-  remainingText: string
+  remainingText?: string // Text after the region, set when scanning for tags
   startIndex: number
   endIndex: number
 }
 
+export const COLUMN_SIZES = ['xs', 'sm', 'md', 'lg', 'xl'] as const
+
+/**
+ * Props of a `--col` section: a size as a flag, e.g. `--col(md)`, or as `size="md"`,
+ * or an explicit width, e.g. `--col(width=40%)`
+ */
+export const columnProps = definePropSchema({
+  xs: { type: 'boolean', default: false },
+  sm: { type: 'boolean', default: false },
+  md: { type: 'boolean', default: false },
+  lg: { type: 'boolean', default: false },
+  xl: { type: 'boolean', default: false },
+  size: { type: 'enum', values: COLUMN_SIZES },
+  width: { type: 'percent', min: 5, max: 95 },
+} as const)
+
+/**
+ * Props of a `--tab` section
+ */
+export const tabProps = definePropSchema({
+  icon: { type: 'icon' },
+} as const)
+
 /**
  * Interface for column data
  */
 export interface ColumnData {
   content: string
-  size?: 'sm' | 'md' | 'lg' | 'xl'
+  size?: typeof COLUMN_SIZES[number]
+  width?: number // Percentage of the layout, takes precedence over `size`
 }
 
 /**
@@ -36,14 +66,6 @@ export interface TabProperties {
   icon?: string
   title: string
   rawTitle: string // Before markdown cleaning
-  [key: string]: string | undefined
-}
-
-/**
- * Interface for generic block properties
- */
-export interface BlockProperties {
-  [key: string]: string | boolean | undefined
 }
 
 /**
@@ -61,6 +83,19 @@ export function hashContent(str: string): string {
   return Math.abs(hash).toString(36).slice(0, 8)
 }
 
+/**
+ * Id of a block's widget and persisted state, shared by live preview and reading mode.
+ * An explicit `id` prop keeps it stable across edits, notes and sessions; otherwise
+ * it is derived from the block content, and the editor and `BlockStateTracker` move
+ * the state along as the block is edited.
+ */
+export function getBlockId(prefix: string, content: string, properties: BlockProperties): string {
+  const explicitId = properties.id
+  return typeof explicitId === 'string' && explicitId
+    ? `${prefix}-id-${explicitId}`
+    : `${prefix}-${hashContent(content)}`
+}
+
 /**
  * Gets the next region in the document based on start and end tags
  * @param workingText - The text to search in
@@ -76,8 +111,6 @@ export function getNextRegion(
   startTag: string,
   endTag: string,
 ): RegionData | null {
-
-
   const startPosition = workingText.indexOf(startTag)
   if (startPosition === -1) {
     return null
@@ -99,8 +132,6 @@ export function getNextRegion(
     endIndex,
   }
 
-
-
   return region
 }
 
@@ -207,144 +238,54 @@ export function getRegionByTags(
   return getNextRegion(workingText, startOffset, wholeDoc, startTag, endTag)
 }
 
-
 /**
- * Add a utility function to parse columns
+ * Parses the `--col` sections of a layout block
  */
 export function parseColumns(content: string): readonly ColumnData[] {
-  const cleanContent = content
-    .replace(/^\+\+layout(?:\((.*?)\))?\n?/, '')
-    .replace(/\n?\+\+$/, '')
-
-  const lines = cleanContent.split('\n')
-  const columns: ColumnData[] = []
-  let currentColumn: { properties: ColumnData, content: string[] } | null = null
-
-  for (const line of lines) {
-    if (line.trim().startsWith('--col')) {
-      if (currentColumn) {
-        columns.push({
-          ...currentColumn.properties,
-          content: currentColumn.content.join('\n'),
-        })
-      }
-      currentColumn = {
-        properties: parseColumnProperties(line),
-        content: [],
-      }
-    }
-    else if (currentColumn) {
-      currentColumn.content.push(line)
-    }
-  }
-
-  if (currentColumn) {
-    columns.push({
-      ...currentColumn.properties,
-      content: currentColumn.content.join('\n'),
-    })
-  }
+  const block = parseBlock(content)
+  if (!block)
+    return Object.freeze([])
+
+  const columns = getSections(block)
+    .filter(section => section.marker.name === 'col')
+    .map(section => ({
+      content: section.body,
+      size: getColumnSize(section.marker.props),
+      width: coerceProps(section.marker.props, columnProps).values.width,
+    }))
 
   return Object.freeze(columns)
 }
 
 /**
- * Parses properties from a block declaration line
- * Examples:
- * ++tabs(defaultTab="2" showIcons=true)
- * --col(xs showBorder=true title="My Column")
- *
- * @param line - The line containing properties
- * @param pattern - Regex pattern to match the properties section
- * @returns Parsed properties
+ * Builds tab properties from a parsed `--tab` marker
  */
-export function parseBlockProperties(line: string, pattern: RegExp): BlockProperties {
-  const properties: BlockProperties = {}
-
-  const match = line.match(pattern)
-  if (!match || !match[1])
-    return properties
-
-  const propString = match[1].trim()
-  // Match:
-  // - key="value" (string properties)
-  // - key=true|false (boolean properties)
-  // - key (implicit boolean true)
-  const propMatches = propString.matchAll(/(\w+)(?:=(?:"([^"]*)"|(\w+)))?/g)
-
-  for (const match of Array.from(propMatches)) {
-    if (match && match[1]) {
-      const key = match[1]
-      // If there's no value or quoted string, it's a boolean flag
-      if (!match[2] && !match[3]) {
-        properties[key] = true
-      }
-      // If there's a quoted string
-      else if (match[2] !== undefined) {
-        properties[key] = match[2]
-      }
-      // If there's an unquoted value (true/false)
-      else if (match[3] !== undefined) {
-        properties[key] = match[3].toLowerCase() === 'true'
-      }
-    }
+export function getTabProperties(marker: MarkerInfo): TabProperties {
+  return {
+    ...coerceProps(marker.props, tabProps).values,
+    rawTitle: marker.title,
+    title: cleanMarkdownString(marker.title),
   }
-
-  return properties
 }
 
 /**
  * Parses tab properties from a tab line
  */
 export function parseTabProperties(tabLine: string): TabProperties {
-  const properties: TabProperties = { title: '', rawTitle: '' }
-
-  // Extract title and properties
-  const titleMatch = tabLine.match(/--tab(?:\((.*?)\))?\s*(.*)$/)
-  if (!titleMatch)
-    return properties
+  const marker = parseMarkerLine(tabLine, '--')
+  if (!marker || marker.name !== 'tab')
+    return { title: '', rawTitle: '' }
 
-  // Parse properties if they exist
-  if (titleMatch[1]) {
-    const blockProps = parseBlockProperties(tabLine, /--tab\((.*?)\)/)
-    Object.assign(properties, blockProps) // Make sure we merge all properties
-  }
-
-  // Set title properties after merging other properties
-  properties.rawTitle = titleMatch[2]?.trim() || ''
-  properties.title = cleanMarkdownString(properties.rawTitle)
-
-  return properties
-}
-
-/**
- * Parses column properties from a column line
- */
-export function parseColumnProperties(colLine: string): ColumnData {
-  const properties = parseBlockProperties(colLine, /--col\((.*?)\)/)
-
-  // Handle size shortcuts (xs, sm, md, lg, xl)
-  const sizeShortcuts = ['xs', 'sm', 'md', 'lg', 'xl']
-  for (const size of sizeShortcuts) {
-    if (properties[size] === true) {
-      return {
-        content: '',
-        size: size as ColumnData['size'],
-      }
-    }
-  }
-
-  return {
-    content: '',
-    size: properties.size as ColumnData['size'],
-  }
+  return getTabProperties(marker)
 }
 
 /**
- * Parses layout block properties
+ * Resolves a column size from its properties, e.g. `--col(md)` or `--col(size="md")`
  */
-export function parseLayoutProperties(layoutLine: string): BlockProperties {
-  return parseBlockProperties(layoutLine, /\+\+layout\((.*?)\)/)
+export function getColumnSize(properties: BlockProperties): ColumnData['size'] {
+  const props = coerceProps(properties, columnProps).values
+  // Size flags take precedence over the size prop
+  return COLUMN_SIZES.find(size => props[size]) ?? props.size
 }
 
 /**
@@ -358,74 +299,3 @@ export function cleanMarkdownString(str: string): string {
     .replace(/^#{1,6}\s+/g, '') // Remove heading markers
     .trim()
 }
-
-/**
- * Handles icon rendering with Iconify API and localStorage caching
- */
-export async function createIconElement(iconName: string | null): Promise<HTMLElement | null> {
-  if (!iconName)
-    return null
-
-  const iconContainer = document.createElement('span')
-  iconContainer.className = 'ginko-icon'
-
-  // Check if it's a Lucide icon
-  if (iconName.startsWith('lucide:')) {
-    const name = iconName.replace('lucide:', '')
-    const iconEl = getIcon(name)
-    if (iconEl) {
-      iconEl.addClass('svg-icon')
-      iconContainer.appendChild(iconEl)
-      return iconContainer
-    }
-    return null
-  }
-
-  // Check if it's another Iconify icon (contains ':')
-  if (iconName.includes(':')) {
-    const [prefix, name] = iconName.split(':')
-    const iconKey = `${prefix}:${name}`
-
-    // Try to get cached SVG from localStorage
-    let cachedIcons
-    try {
-      cachedIcons = JSON.parse(localStorage.getItem('ginko-iconify-icons') || '{}')
-    }
-    catch (e) {
-      cachedIcons = {}
-    }
-
-    if (cachedIcons[iconKey]) {
-      // Use cached SVG
-      iconContainer.innerHTML = cachedIcons[iconKey]
-    }
-    else {
-      // Fetch from Iconify API and cache
-      try {
-        const response = await fetch(`https://api.iconify.design/${prefix}/${name}.svg?height=16`)
-        const svgData = await response.text()
-        // Cache the SVG data
-        cachedIcons[iconKey] = svgData
-        localStorage.setItem('ginko-iconify-icons', JSON.stringify(cachedIcons))
-        iconContainer.innerHTML = svgData
-      }
-      catch (error) {
-        console.error('Failed to fetch icon:', error)
-        return null
-      }
-    }
-  }
-  else {
-    // Use Obsidian's built-in icon
-    const iconEl = getIcon(iconName)
-    if (iconEl) {
-      iconEl.addClass('svg-icon')
-      iconContainer.appendChild(iconEl)
-    }
-    else {
-      return null
-    }
-  }
-
-  return iconContainer
-}
@@ -0,0 +1,51 @@
+import type { App, TFile } from 'obsidian'
+import type { BlockNode } from '../../core/blockAst'
+import type { BlockDefinition } from '../../core/types'
+import type { BlockStateType } from './blockStateStore'
+import { parseDocument, walkBlocks } from '../../core/blockAst'
+import { getBlockId } from '../utils'
+import { removeBlockStates } from './blockState'
+
+/**
+ * A block of one type found in a note
+ */
+export interface FoundBlock {
+  node: BlockNode
+  content: string // The text its widget is built from
+}
+
+/**
+ * Finds the closed blocks of one type in a note
+ */
+export async function findBlocksInFile(app: App, file: TFile, block: BlockDefinition): Promise<FoundBlock[]> {
+  const text = await app.vault.cachedRead(file)
+  const found: FoundBlock[] = []
+  walkBlocks(parseDocument(text), (node) => {
+    if (node.closed && block.parser.matches(text.slice(node.openLine.from, node.openLine.to))) {
+      found.push({ node, content: text.slice(node.from, node.to).trim() })
+    }
+  })
+  return found
+}
+
+/**
+ * Creates the `reset` of a block type that persists UI state of `type`.
+ * In a note, only the states of the blocks it contains are removed: block ids end
+ * with what `getBlockId` derives from the block, whatever the widget's prefix.
+ */
+export function createBlockStateReset(type: BlockStateType): NonNullable<BlockDefinition['reset']> {
+  return async (app, block, file) => {
+    if (!file)
+      return removeBlockStates((_blockId, entry) => entry.type === type, null)
+
+    const suffixes = (await findBlocksInFile(app, file, block))
+      .map(({ node, content }) => getBlockId('', content, node.marker.props))
+    if (suffixes.length === 0)
+      return 0
+
+    return removeBlockStates(
+      (blockId, entry) => entry.type === type && suffixes.some(suffix => blockId.endsWith(suffix)),
+      file.path,
+    )
+  }
+}
@@ -1,103 +1,94 @@
-interface BlockState {
-  [blockId: string]: {
-    type: 'tab' | 'callout'
-    state: any
-    lastModified: number // Unix timestamp in milliseconds
-  }
-}
+import type { BlockStateEntry, BlockStateMatcher, BlockStateStore, BlockStateType, GlobalBlockStateStore } from './blockStateStore'
+import { LocalStorageStore } from './blockStateStore'
 
-const STORAGE_KEY = 'ginko-block-state'
 const EXPIRY_DAYS = 30
 const MS_PER_DAY = 24 * 60 * 60 * 1000
 
+// Set by the plugin from the state storage setting
+let store: BlockStateStore = new LocalStorageStore()
+
 /**
- * Clean up expired block states (older than 30 days)
+ * Select where block states are read from and written to
  */
-export function cleanupExpiredStates(): void {
-  const states = loadBlockStates()
-  const now = Date.now()
-  let hasChanges = false
+export function setBlockStateStore(blockStateStore: BlockStateStore): void {
+  store = blockStateStore
+}
 
-  for (const [blockId, blockState] of Object.entries(states)) {
+/**
+ * Clean up expired block states (older than 30 days) of a store holding every note's states
+ */
+export function cleanupExpiredStates(globalStore: GlobalBlockStateStore): void {
+  const now = Date.now()
+  for (const [blockId, blockState] of Object.entries(globalStore.entries())) {
     if (now - blockState.lastModified > EXPIRY_DAYS * MS_PER_DAY) {
-      delete states[blockId]
-      hasChanges = true
+      globalStore.set(blockId, '', undefined)
     }
   }
-
-  if (hasChanges) {
-    saveBlockStates(states)
-  }
 }
 
 /**
- * Load the entire block state from localStorage
+ * Get state for a specific block in the note at `sourcePath`
  */
-function loadBlockStates(): BlockState {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (stored) {
-      return JSON.parse(stored)
-    }
-  }
-  catch (e) {
-    console.warn('Failed to load block states:', e)
+export function getBlockState<T>(blockId: string, type: BlockStateType, defaultValue: T, sourcePath = ''): T {
+  const blockState = store.get(blockId, sourcePath)
+  if (blockState && blockState.type === type) {
+    return blockState.state as T
   }
-  return {}
+  return defaultValue
 }
 
 /**
- * Save the entire block state to localStorage
+ * Set state for a specific block in the note at `sourcePath`
  */
-function saveBlockStates(states: BlockState): void {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(states))
-  }
-  catch (e) {
-    console.warn('Failed to save block states:', e)
-  }
+export function setBlockState<T>(blockId: string, type: BlockStateType, state: T, sourcePath = ''): void {
+  store.set(blockId, sourcePath, {
+    type,
+    state,
+    lastModified: Date.now(),
+  })
 }
 
 /**
- * Get state for a specific block
+ * Move the state of a block to a new id, e.g. after an edit changed the block's content
  */
-export function getBlockState<T>(blockId: string, type: 'tab' | 'callout', defaultValue: T): T {
-  const states = loadBlockStates()
-  const blockState = states[blockId]
-  if (blockState && blockState.type === type) {
-    // Update last modified time on access
-    blockState.lastModified = Date.now()
-    saveBlockStates(states)
-    return blockState.state as T
-  }
-  return defaultValue
+export function renameBlockState(fromId: string, toId: string, sourcePath = ''): void {
+  const blockState = store.get(fromId, sourcePath)
+  if (!blockState)
+    return
+
+  store.set(fromId, sourcePath, undefined)
+  store.set(toId, sourcePath, { ...blockState, lastModified: Date.now() })
 }
 
 /**
- * Set state for a specific block
+ * Move the states of a block whose type is not known, by the part of their ids `getBlockId`
+ * derives from the block, e.g. after the note was edited outside the editor
  */
-export function setBlockState<T>(blockId: string, type: 'tab' | 'callout', state: T): void {
-  const states = loadBlockStates()
-  states[blockId] = {
-    type,
-    state,
-    lastModified: Date.now()
+export function renameBlockStatesBySuffix(fromSuffix: string, toSuffix: string, sourcePath: string): void {
+  const moved: Array<[string, BlockStateEntry]> = []
+  store.remove((blockId, entry) => {
+    if (!blockId.endsWith(fromSuffix))
+      return false
+    moved.push([`${blockId.slice(0, -fromSuffix.length)}${toSuffix}`, entry])
+    return true
+  }, sourcePath)
+
+  for (const [blockId, entry] of moved) {
+    store.set(blockId, sourcePath, { ...entry, lastModified: Date.now() })
   }
-  saveBlockStates(states)
 }
 
 /**
  * Remove state for a specific block
  */
-export function removeBlockState(blockId: string): void {
-  const states = loadBlockStates()
-  delete states[blockId]
-  saveBlockStates(states)
+export function removeBlockState(blockId: string, sourcePath = ''): void {
+  store.set(blockId, sourcePath, undefined)
 }
 
 /**
- * Clear all block states
+ * Remove the matching block states of the note at `sourcePath`, or of every note when it is null.
+ * Returns how many were removed.
  */
-export function clearBlockStates(): void {
-  localStorage.removeItem(STORAGE_KEY)
-} 
\ No newline at end of file
+export function removeBlockStates(match: BlockStateMatcher, sourcePath: string | null): number {
+  return store.remove(match, sourcePath)
+}
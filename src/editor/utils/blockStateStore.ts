@@ -0,0 +1,300 @@
+import type { App } from 'obsidian'
+import { TFile } from 'obsidian'
+
+export type BlockStateType = 'tab' | 'callout'
+
+/**
+ * Persisted UI state of one block, e.g. the active tab or whether a callout is collapsed
+ */
+export interface BlockStateEntry {
+  type: BlockStateType
+  state: unknown
+  lastModified: number // Unix timestamp in milliseconds
+}
+
+export interface BlockStates {
+  [blockId: string]: BlockStateEntry
+}
+
+export type BlockStateMatcher = (blockId: string, entry: BlockStateEntry) => boolean
+
+/**
+ * Where block states are persisted. Reads are synchronous because widgets need
+ * their state while they are built; stores write to their backend in the background.
+ * `sourcePath` is the note the block is in, for stores that keep state per note.
+ */
+export interface BlockStateStore {
+  get: (blockId: string, sourcePath: string) => BlockStateEntry | undefined
+  set: (blockId: string, sourcePath: string, entry: BlockStateEntry | undefined) => void
+  /**
+   * Removes the matching entries of one note, or of every note when `sourcePath` is null.
+   * Returns how many were removed.
+   */
+  remove: (match: BlockStateMatcher, sourcePath: string | null) => number
+}
+
+/**
+ * A store holding the states of every note in one place, whose entries can be listed and moved
+ */
+export interface GlobalBlockStateStore extends BlockStateStore {
+  entries: () => BlockStates
+  clear: () => void
+}
+
+export const LOCAL_STORAGE_KEY = 'ginko-block-state'
+export const FRONTMATTER_KEY = 'ginko-blocks'
+
+/**
+ * Keeps block states in the browser's localStorage: per device, not synced with the vault
+ */
+export class LocalStorageStore implements GlobalBlockStateStore {
+  get(blockId: string): BlockStateEntry | undefined {
+    const states = this.entries()
+    const entry = states[blockId]
+    if (entry) {
+      // Update last modified time on access
+      entry.lastModified = Date.now()
+      this.save(states)
+    }
+    return entry
+  }
+
+  set(blockId: string, _sourcePath: string, entry: BlockStateEntry | undefined): void {
+    const states = this.entries()
+    if (entry)
+      states[blockId] = entry
+    else
+      delete states[blockId]
+    this.save(states)
+  }
+
+  remove(match: BlockStateMatcher): number {
+    const states = this.entries()
+    const removed = removeMatching(states, match)
+    if (removed > 0)
+      this.save(states)
+    return removed
+  }
+
+  entries(): BlockStates {
+    try {
+      const stored = localStorage.getItem(LOCAL_STORAGE_KEY)
+      if (stored) {
+        return JSON.parse(stored)
+      }
+    }
+    catch (e) {
+      console.warn('Failed to load block states:', e)
+    }
+    return {}
+  }
+
+  clear(): void {
+    localStorage.removeItem(LOCAL_STORAGE_KEY)
+  }
+
+  private save(states: BlockStates): void {
+    try {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(states))
+    }
+    catch (e) {
+      console.warn('Failed to save block states:', e)
+    }
+  }
+}
+
+/**
+ * Keeps block states in the plugin's data file, which syncs and is backed up with the vault.
+ * States are held in memory and `persist` is called after every change.
+ */
+export class PluginDataStore implements GlobalBlockStateStore {
+  private states: BlockStates
+  private readonly persist: () => void
+
+  constructor(states: BlockStates, persist: () => void) {
+    this.states = { ...states }
+    this.persist = persist
+  }
+
+  get(blockId: string): BlockStateEntry | undefined {
+    const entry = this.states[blockId]
+    if (entry) {
+      // Kept alive in memory; saved with the next change
+      entry.lastModified = Date.now()
+    }
+    return entry
+  }
+
+  set(blockId: string, _sourcePath: string, entry: BlockStateEntry | undefined): void {
+    if (entry)
+      this.states[blockId] = entry
+    else
+      delete this.states[blockId]
+    this.persist()
+  }
+
+  remove(match: BlockStateMatcher): number {
+    const removed = removeMatching(this.states, match)
+    if (removed > 0)
+      this.persist()
+    return removed
+  }
+
+  entries(): BlockStates {
+    return { ...this.states }
+  }
+
+  clear(): void {
+    this.states = {}
+    this.persist()
+  }
+}
+
+/**
+ * Keeps block states in the frontmatter of the note each block is in, under `ginko-blocks`.
+ *
+ * Writes are batched per note, because each one modifies the note. Until the metadata
+ * cache has caught up, reads are served from the pending states. States not yet in a
+ * note are read from `fallback` and move into the note when they next change.
+ */
+export class FrontmatterStore implements BlockStateStore {
+  private readonly app: App
+  private readonly fallback: GlobalBlockStateStore
+  private readonly pending = new Map<string, BlockStates>()
+  private readonly timers = new Map<string, number>()
+  private readonly writing = new Set<string>()
+  private static readonly WRITE_DELAY = 1000
+
+  constructor(app: App, fallback: GlobalBlockStateStore) {
+    this.app = app
+    this.fallback = fallback
+  }
+
+  get(blockId: string, sourcePath: string): BlockStateEntry | undefined {
+    return this.read(sourcePath)[blockId] ?? this.fallback.get(blockId, sourcePath)
+  }
+
+  set(blockId: string, sourcePath: string, entry: BlockStateEntry | undefined): void {
+    if (!sourcePath) {
+      this.fallback.set(blockId, sourcePath, entry)
+      return
+    }
+
+    const states = { ...this.read(sourcePath) }
+    if (entry)
+      states[blockId] = entry
+    else
+      delete states[blockId]
+    this.pending.set(sourcePath, states)
+    this.scheduleWrite(sourcePath)
+
+    if (this.fallback.get(blockId, sourcePath))
+      this.fallback.set(blockId, sourcePath, undefined)
+  }
+
+  remove(match: BlockStateMatcher, sourcePath: string | null): number {
+    const sourcePaths = sourcePath !== null
+      ? [sourcePath]
+      : [...new Set([
+          ...this.pending.keys(),
+          ...this.app.vault.getMarkdownFiles().map(file => file.path),
+        ])]
+
+    let removed = 0
+    for (const path of sourcePaths) {
+      const states = { ...this.read(path) }
+      const count = removeMatching(states, match)
+      if (count > 0) {
+        this.pending.set(path, states)
+        this.scheduleWrite(path)
+        removed += count
+      }
+    }
+    return removed + this.fallback.remove(match, sourcePath)
+  }
+
+  /**
+   * Called when a note's metadata changed. Once its states are written, the cache is current again.
+   */
+  handleMetadataChange(sourcePath: string): void {
+    if (!this.timers.has(sourcePath) && !this.writing.has(sourcePath))
+      this.pending.delete(sourcePath)
+  }
+
+  /**
+   * Writes pending states right away, e.g. when the plugin unloads
+   */
+  flush(): void {
+    for (const sourcePath of [...this.timers.keys()]) {
+      this.write(sourcePath)
+    }
+  }
+
+  private read(sourcePath: string): BlockStates {
+    const pending = this.pending.get(sourcePath)
+    if (pending)
+      return pending
+
+    const stored = this.app.metadataCache.getCache(sourcePath)?.frontmatter?.[FRONTMATTER_KEY]
+    return stored && typeof stored === 'object' ? stored as BlockStates : {}
+  }
+
+  private scheduleWrite(sourcePath: string): void {
+    window.clearTimeout(this.timers.get(sourcePath))
+    this.timers.set(sourcePath, window.setTimeout(() => this.write(sourcePath), FrontmatterStore.WRITE_DELAY))
+  }
+
+  private write(sourcePath: string): void {
+    window.clearTimeout(this.timers.get(sourcePath))
+    this.timers.delete(sourcePath)
+
+    const states = this.pending.get(sourcePath)
+    const file = this.app.vault.getAbstractFileByPath(sourcePath)
+    if (!states || !(file instanceof TFile))
+      return
+
+    this.writing.add(sourcePath)
+    this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      if (Object.keys(states).length > 0)
+        frontmatter[FRONTMATTER_KEY] = states
+      else
+        delete frontmatter[FRONTMATTER_KEY]
+    })
+      .catch((e) => {
+        console.warn('Failed to save block states to frontmatter:', e)
+      })
+      .finally(() => {
+        this.writing.delete(sourcePath)
+      })
+  }
+}
+
+/**
+ * Deletes the entries `match` accepts from `states` and returns how many there were
+ */
+function removeMatching(states: BlockStates, match: BlockStateMatcher): number {
+  let removed = 0
+  for (const [blockId, entry] of Object.entries(states)) {
+    if (match(blockId, entry)) {
+      delete states[blockId]
+      removed++
+    }
+  }
+  return removed
+}
+
+/**
+ * Moves every entry of one global store into another, keeping entries the target already has
+ */
+export function moveBlockStates(from: GlobalBlockStateStore, to: GlobalBlockStateStore): void {
+  const entries = Object.entries(from.entries())
+  if (entries.length === 0)
+    return
+
+  const existing = to.entries()
+  for (const [blockId, entry] of entries) {
+    if (!existing[blockId])
+      to.set(blockId, '', entry)
+  }
+  from.clear()
+}
@@ -0,0 +1,101 @@
+import type { App, TFile } from 'obsidian'
+import type { BlockNode } from '../../core/blockAst'
+import { parseDocument } from '../../core/blockAst'
+import { getBlockId } from '../utils'
+import { renameBlockStatesBySuffix } from './blockState'
+
+/**
+ * A top-level block of a note: its marker name and the part of its widget id derived from it
+ */
+export interface TrackedBlock {
+  name: string
+  suffix: string
+}
+
+/**
+ * The closed top-level blocks of a note, the ones rendered as widgets
+ */
+export function getTrackedBlocks(text: string): TrackedBlock[] {
+  const { children } = parseDocument(text)
+  return children
+    .filter((node): node is BlockNode => node.type === 'block' && node.closed)
+    .map(node => ({
+      name: node.marker.name,
+      suffix: getBlockId('', text.slice(node.from, node.to).trim(), node.marker.props),
+    }))
+}
+
+/**
+ * Pairs the blocks whose ids changed between two versions of a note. Blocks that kept
+ * their id are set aside; the others are paired in order among the blocks with the same
+ * marker, but only when as many changed as before, so added or removed blocks are not
+ * mistaken for edited ones.
+ */
+export function findRenamedBlocks(before: readonly TrackedBlock[], after: readonly TrackedBlock[]): Array<{ from: string, to: string }> {
+  const renamed: Array<{ from: string, to: string }> = []
+  for (const name of new Set(before.map(block => block.name))) {
+    const old = before.filter(block => block.name === name).map(block => block.suffix)
+    const current = after.filter(block => block.name === name).map(block => block.suffix)
+    const changedFrom = old.filter(suffix => !current.includes(suffix))
+    const changedTo = current.filter(suffix => !old.includes(suffix))
+    if (changedFrom.length === changedTo.length)
+      changedFrom.forEach((from, index) => renamed.push({ from, to: changedTo[index] }))
+  }
+  return renamed
+}
+
+/**
+ * Moves block states along when a note changes outside the editor, e.g. in source mode of
+ * another pane or in another app. The blocks of each opened note are remembered, and on
+ * every change compared with the new version by their position. States the editor
+ * already moved are not found under their old id and stay where they are.
+ */
+export class BlockStateTracker {
+  private readonly app: App
+  private readonly snapshots = new Map<string, TrackedBlock[]>()
+
+  constructor(app: App) {
+    this.app = app
+  }
+
+  /**
+   * Remembers the blocks of a note, unless they are known already
+   */
+  async track(file: TFile): Promise<void> {
+    if (file.extension !== 'md' || this.snapshots.has(file.path))
+      return
+
+    const blocks = getTrackedBlocks(await this.app.vault.cachedRead(file))
+    if (!this.snapshots.has(file.path))
+      this.snapshots.set(file.path, blocks)
+  }
+
+  /**
+   * Moves the states of the blocks a change edited and remembers the new version
+   */
+  async handleModify(file: TFile): Promise<void> {
+    if (file.extension !== 'md')
+      return
+
+    const after = getTrackedBlocks(await this.app.vault.cachedRead(file))
+    const before = this.snapshots.get(file.path)
+    this.snapshots.set(file.path, after)
+    if (!before)
+      return
+
+    for (const { from, to } of findRenamedBlocks(before, after)) {
+      renameBlockStatesBySuffix(from, to, file.path)
+    }
+  }
+
+  handleRename(oldPath: string, newPath: string): void {
+    const blocks = this.snapshots.get(oldPath)
+    this.snapshots.delete(oldPath)
+    if (blocks)
+      this.snapshots.set(newPath, blocks)
+  }
+
+  forget(path: string): void {
+    this.snapshots.delete(path)
+  }
+}
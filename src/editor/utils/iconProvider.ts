@@ -0,0 +1,182 @@
+import type { App } from 'obsidian'
+import type { IconifyCollection } from './iconifySets'
+import { normalizePath } from 'obsidian'
+import { getIconifySvg, parseIconifyCollection } from './iconifySets'
+import { requestSvg } from './iconResolver'
+import { sanitizeSvg } from './svgSanitizer'
+
+export interface IconProviderOptions {
+  folder: string // Vault folder holding Iconify JSON collections, one `<prefix>.json` per set
+  allowNetwork: boolean // Whether icons missing from the folder are fetched from the Iconify API
+}
+
+export interface IconSetImport {
+  imported: string[]
+  failed: { file: string, message: string }[]
+}
+
+/**
+ * Resolves `prefix:name` icons from the Iconify collections in a vault folder. The
+ * folder is listed on first use and each collection is read when one of its icons is
+ * first needed. Only with `allowNetwork` are missing icons fetched from the Iconify API.
+ */
+export class IconProvider {
+  private readonly app: App
+  private readonly getOptions: () => IconProviderOptions
+  private index: Promise<Map<string, string>> | null = null
+  private indexedFolder = ''
+  private readonly collections = new Map<string, Promise<IconifyCollection | null>>()
+  // Icons fetched from the Iconify API, kept for the session only
+  private readonly fetched = new Map<string, Promise<string | null>>()
+
+  constructor(app: App, getOptions: () => IconProviderOptions) {
+    this.app = app
+    this.getOptions = getOptions
+  }
+
+  private get folder(): string {
+    return normalizePath(this.getOptions().folder)
+  }
+
+  /**
+   * The sanitized SVG of an icon, or null when no set has it
+   */
+  async getSvg(prefix: string, name: string): Promise<string | null> {
+    const collection = await this.getCollection(prefix)
+    const svg = collection ? getIconifySvg(collection, name) : null
+    if (svg)
+      return sanitizeSvg(svg)
+    return this.getOptions().allowNetwork ? this.fetchSvg(prefix, name) : null
+  }
+
+  /**
+   * The prefixes of the sets in the icon folder
+   */
+  async getPrefixes(): Promise<string[]> {
+    return [...(await this.getIndex()).keys()].sort()
+  }
+
+  /**
+   * The set with a prefix, or null when the folder has none or its file is not a collection
+   */
+  getCollection(prefix: string): Promise<IconifyCollection | null> {
+    if (this.folder !== this.indexedFolder)
+      this.refresh()
+
+    let collection = this.collections.get(prefix)
+    if (!collection) {
+      collection = this.readCollection(prefix)
+      this.collections.set(prefix, collection)
+    }
+    return collection
+  }
+
+  /**
+   * Forgets the listed and read sets, so they are read again on next use
+   */
+  refresh(): void {
+    this.index = null
+    this.collections.clear()
+  }
+
+  /**
+   * Refreshes the sets when a file in the icon folder changed
+   */
+  handleFileChange(path: string): void {
+    if (path.startsWith(`${this.folder}/`))
+      this.refresh()
+  }
+
+  /**
+   * Copies Iconify JSON collections into the icon folder as `<prefix>.json`, replacing
+   * sets with the same prefix. Files that are not collections are reported, not copied.
+   */
+  async importSets(files: readonly File[]): Promise<IconSetImport> {
+    const { adapter } = this.app.vault
+    const result: IconSetImport = { imported: [], failed: [] }
+
+    for (const file of files) {
+      try {
+        const text = await file.text()
+        const { prefix } = parseIconifyCollection(text)
+        if (!await adapter.exists(this.folder))
+          await adapter.mkdir(this.folder)
+        await adapter.write(`${this.folder}/${prefix}.json`, text)
+        result.imported.push(prefix)
+      }
+      catch (error) {
+        result.failed.push({ file: file.name, message: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    this.refresh()
+    return result
+  }
+
+  private getIndex(): Promise<Map<string, string>> {
+    if (this.folder !== this.indexedFolder)
+      this.refresh()
+    this.index ??= this.listFolder()
+    return this.index
+  }
+
+  private async listFolder(): Promise<Map<string, string>> {
+    const folder = this.folder
+    this.indexedFolder = folder
+
+    const index = new Map<string, string>()
+    const { adapter } = this.app.vault
+    if (!await adapter.exists(folder))
+      return index
+
+    for (const path of (await adapter.list(folder)).files) {
+      const match = path.match(/([^/]+)\.json$/i)
+      if (match)
+        index.set(match[1].toLowerCase(), path)
+    }
+    return index
+  }
+
+  private async readCollection(prefix: string): Promise<IconifyCollection | null> {
+    const path = (await this.getIndex()).get(prefix)
+    if (!path)
+      return null
+
+    try {
+      return parseIconifyCollection(await this.app.vault.adapter.read(path))
+    }
+    catch (error) {
+      console.warn(`[GinkoBlocks] Could not read icon set ${path}:`, error)
+      return null
+    }
+  }
+
+  private fetchSvg(prefix: string, name: string): Promise<string | null> {
+    const key = `${prefix}:${name}`
+    let svg = this.fetched.get(key)
+    if (!svg) {
+      svg = requestSvg(`https://api.iconify.design/${prefix}/${name}.svg?height=16`)
+        .then(sanitizeSvg)
+        .catch((error) => {
+          console.warn(`[GinkoBlocks] Could not download icon ${key}:`, error)
+          return null
+        })
+      this.fetched.set(key, svg)
+    }
+    return svg
+  }
+}
+
+// Set by the plugin once it has loaded its settings
+let provider: IconProvider | null = null
+
+/**
+ * Select where `prefix:name` icons are resolved from
+ */
+export function setIconProvider(iconProvider: IconProvider | null): void {
+  provider = iconProvider
+}
+
+export function getIconProvider(): IconProvider | null {
+  return provider
+}
@@ -0,0 +1,162 @@
+import type { App } from 'obsidian'
+import { getIcon, requestUrl } from 'obsidian'
+import { getIconProvider } from './iconProvider'
+import { sanitizeSvg } from './svgSanitizer'
+
+/**
+ * What an `icon=` value refers to
+ */
+export type IconSource =
+  | { type: 'emoji', text: string }
+  | { type: 'builtin', name: string } // Lucide and Obsidian icons, e.g. `star` or `lucide:star`
+  | { type: 'iconify', prefix: string, name: string } // e.g. `mdi:home`
+  | { type: 'vault', path: string } // e.g. `[[logo.svg]]` or `assets/logo.png`
+  | { type: 'url', url: string }
+
+export interface IconOptions {
+  app?: App // Needed for vault icons
+  sourcePath?: string // The note vault links are resolved from
+  size?: number // In pixels, 16 by default
+}
+
+const WIKILINK = /^!?\[\[([^[\]|]+)(?:\|[^[\]]*)?\]\]$/
+const EXTERNAL_URL = /^https?:\/\//i
+const EMOJI = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u
+const IMAGE = /\.(?:svg|png|jpe?g|gif|webp|avif)$/i
+const ICONIFY = /^([a-z0-9]+(?:-[a-z0-9]+)*):([a-z0-9]+(?:-[a-z0-9]+)*)$/
+const BUILTIN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+// Loaded SVG markup of vault and URL icons, the least recently used dropped first
+const MAX_CACHED = 100
+const svgCache = new Map<string, Promise<string | null>>()
+
+/**
+ * Reads an `icon=` value. Returns null for values that cannot be an icon.
+ */
+export function parseIconSource(value: string): IconSource | null {
+  const icon = value.trim()
+  const link = icon.match(WIKILINK)
+  if (link)
+    return { type: 'vault', path: link[1].trim() }
+  if (EXTERNAL_URL.test(icon))
+    return { type: 'url', url: icon }
+  if (EMOJI.test(icon) && !/[a-z]/i.test(icon))
+    return { type: 'emoji', text: icon }
+  if (icon.startsWith('lucide:'))
+    return { type: 'builtin', name: icon.slice('lucide:'.length) }
+
+  const iconify = icon.match(ICONIFY)
+  if (iconify)
+    return { type: 'iconify', prefix: iconify[1], name: iconify[2] }
+  if (IMAGE.test(icon))
+    return { type: 'vault', path: icon }
+  return BUILTIN.test(icon) ? { type: 'builtin', name: icon } : null
+}
+
+/**
+ * Requests the SVG of a URL icon through Obsidian, which unlike `fetch` is not blocked
+ * by hosts that do not allow the app's origin. Rejects when the host answers with an error.
+ */
+export async function requestSvg(url: string): Promise<string> {
+  const response = await requestUrl({ url, throw: false })
+  if (response.status >= 400)
+    throw new Error(`Request failed with status ${response.status}`)
+  return response.text
+}
+
+function loadCached(key: string, load: () => Promise<string | null>): Promise<string | null> {
+  let svg = svgCache.get(key)
+  if (svg) {
+    svgCache.delete(key)
+  }
+  else {
+    svg = load().then(markup => markup && sanitizeSvg(markup)).catch((error) => {
+      console.warn('[IconResolver] Could not load', key, error)
+      return null
+    })
+  }
+  svgCache.set(key, svg)
+  if (svgCache.size > MAX_CACHED)
+    svgCache.delete(svgCache.keys().next().value!)
+  return svg
+}
+
+/**
+ * The sanitized SVG, or the image source, of a vault or URL icon
+ */
+async function loadImage(source: IconSource, { app, sourcePath = '' }: IconOptions): Promise<{ svg: string } | { src: string } | null> {
+  if (source.type === 'url') {
+    if (!/\.svg$/i.test(source.url.split(/[?#]/)[0]))
+      return { src: source.url }
+    const svg = await loadCached(`url:${source.url}`, () => requestSvg(source.url))
+    return svg ? { svg } : null
+  }
+
+  if (source.type !== 'vault' || !app)
+    return null
+  const file = app.metadataCache.getFirstLinkpathDest(source.path, sourcePath)
+  if (!file)
+    return null
+  if (file.extension.toLowerCase() !== 'svg')
+    return { src: app.vault.getResourcePath(file) }
+
+  // Keyed by modification time, so edited files are read again
+  const svg = await loadCached(`vault:${file.path}:${file.stat.mtime}`, () => app.vault.cachedRead(file))
+  return svg ? { svg } : null
+}
+
+/**
+ * Renders an `icon=` value: an emoji, a Lucide or Obsidian icon, an Iconify icon from the
+ * icon provider, or an image or SVG from the vault or a URL. SVGs are inlined after
+ * sanitizing so they take the color of the text around them. The icon is a
+ * `span.ginko-icon` sized by `--ginko-icon-size`; null when the value cannot be resolved.
+ */
+export async function createIcon(value: string | null | undefined, options: IconOptions = {}): Promise<HTMLElement | null> {
+  const source = value ? parseIconSource(value) : null
+  if (!source)
+    return null
+
+  const container = document.createElement('span')
+  container.className = `ginko-icon is-${source.type}`
+  if (options.size)
+    container.style.setProperty('--ginko-icon-size', `${options.size}px`)
+
+  switch (source.type) {
+    case 'emoji':
+      container.textContent = source.text
+      return container
+
+    case 'builtin': {
+      const icon = getIcon(source.name)
+      if (!icon)
+        return null
+      icon.classList.add('svg-icon')
+      container.appendChild(icon)
+      return container
+    }
+
+    case 'iconify': {
+      const svg = await getIconProvider()?.getSvg(source.prefix, source.name)
+      if (!svg)
+        return null
+      container.innerHTML = svg
+      return container
+    }
+
+    default: {
+      const image = await loadImage(source, options)
+      if (!image)
+        return null
+      if ('svg' in image) {
+        container.innerHTML = image.svg
+      }
+      else {
+        const img = document.createElement('img')
+        img.src = image.src
+        img.alt = ''
+        container.appendChild(img)
+      }
+      return container
+    }
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * The dimensions and transformations an icon, an alias or a collection can set
+ */
+interface IconifyDimensions {
+  left?: number
+  top?: number
+  width?: number
+  height?: number
+  rotate?: number // Quarter turns
+  hFlip?: boolean
+  vFlip?: boolean
+}
+
+interface IconifyIcon extends IconifyDimensions {
+  body: string
+}
+
+interface IconifyAlias extends IconifyDimensions {
+  parent: string
+}
+
+/**
+ * An Iconify JSON collection, as shipped by `@iconify/json` and the Iconify API
+ */
+export interface IconifyCollection extends IconifyDimensions {
+  prefix: string
+  icons: Record<string, IconifyIcon>
+  aliases?: Record<string, IconifyAlias>
+  info?: { name?: string, total?: number }
+}
+
+const DEFAULT_SIZE = 16
+const PREFIX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+// Aliases may point at aliases; longer chains are assumed to be loops
+const MAX_ALIAS_DEPTH = 5
+
+/**
+ * Reads an Iconify JSON collection, throwing when the text is not one
+ */
+export function parseIconifyCollection(text: string): IconifyCollection {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  }
+  catch {
+    throw new Error('Not a JSON file')
+  }
+
+  const collection = data as Partial<IconifyCollection> | null
+  if (typeof collection?.prefix !== 'string' || !PREFIX.test(collection.prefix))
+    throw new Error('Missing or invalid icon set prefix')
+  if (typeof collection.icons !== 'object' || collection.icons === null)
+    throw new Error(`Icon set "${collection.prefix}" has no icons`)
+  return collection as IconifyCollection
+}
+
+/**
+ * Resolves an icon or an alias of it, merging the transformations along the way
+ */
+function resolveIcon(collection: IconifyCollection, name: string): (IconifyIcon & { rotate: number, hFlip: boolean, vFlip: boolean }) | null {
+  let rotate = 0
+  let hFlip = false
+  let vFlip = false
+  let overrides: IconifyDimensions = {}
+
+  for (let depth = 0; depth <= MAX_ALIAS_DEPTH; depth++) {
+    const icon = collection.icons[name]
+    if (icon) {
+      return {
+        ...icon,
+        ...overrides,
+        rotate: (rotate + (icon.rotate ?? 0)) % 4,
+        hFlip: hFlip !== Boolean(icon.hFlip),
+        vFlip: vFlip !== Boolean(icon.vFlip),
+      }
+    }
+
+    const alias = collection.aliases?.[name]
+    if (!alias)
+      return null
+    const { parent, rotate: aliasRotate = 0, hFlip: aliasHFlip, vFlip: aliasVFlip, ...dimensions } = alias
+    rotate += aliasRotate
+    hFlip = hFlip !== Boolean(aliasHFlip)
+    vFlip = vFlip !== Boolean(aliasVFlip)
+    overrides = { ...dimensions, ...overrides }
+    name = parent
+  }
+  return null
+}
+
+/**
+ * Builds the SVG of an icon in a collection, `height` pixels high, or null when the
+ * collection has no such icon. Flips and rotations are applied the way Iconify does.
+ */
+export function getIconifySvg(collection: IconifyCollection, name: string, height = DEFAULT_SIZE): string | null {
+  const icon = resolveIcon(collection, name)
+  if (!icon)
+    return null
+
+  const box = {
+    left: icon.left ?? collection.left ?? 0,
+    top: icon.top ?? collection.top ?? 0,
+    width: icon.width ?? collection.width ?? DEFAULT_SIZE,
+    height: icon.height ?? collection.height ?? DEFAULT_SIZE,
+  }
+  let { rotate } = icon
+  let body = icon.body
+  const transforms: string[] = []
+
+  if (icon.hFlip && icon.vFlip) {
+    rotate += 2
+  }
+  else if (icon.hFlip) {
+    transforms.push(`translate(${box.width + box.left} ${-box.top})`, 'scale(-1 1)')
+    box.left = box.top = 0
+  }
+  else if (icon.vFlip) {
+    transforms.push(`translate(${-box.left} ${box.height + box.top})`, 'scale(1 -1)')
+    box.left = box.top = 0
+  }
+
+  switch (rotate % 4) {
+    case 1: {
+      const center = box.height / 2 + box.top
+      transforms.unshift(`rotate(90 ${center} ${center})`)
+      break
+    }
+    case 2:
+      transforms.unshift(`rotate(180 ${box.width / 2 + box.left} ${box.height / 2 + box.top})`)
+      break
+    case 3: {
+      const center = box.width / 2 + box.left
+      transforms.unshift(`rotate(-90 ${center} ${center})`)
+      break
+    }
+  }
+
+  if (rotate % 2 === 1) {
+    [box.left, box.top] = [box.top, box.left];
+    [box.width, box.height] = [box.height, box.width]
+  }
+  if (transforms.length > 0)
+    body = `<g transform="${transforms.join(' ')}">${body}</g>`
+
+  const width = Math.round(height * box.width / box.height * 100) / 100
+  return `<svg xmlns="http://www.w3.org/2000/svg" class="iconify-icon" width="${width}" height="${height}" viewBox="${box.left} ${box.top} ${box.width} ${box.height}">${body}</svg>`
+}
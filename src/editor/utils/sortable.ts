@@ -0,0 +1,55 @@
+/**
+ * Lets the user reorder `items` by dragging one onto another. Items are dragged by
+ * their `getHandle` element, the item itself by default. `onMove` receives the index
+ * of the dragged item and the index it was dropped on.
+ */
+export function makeSortable(
+  items: readonly HTMLElement[],
+  onMove: (from: number, to: number) => void,
+  getHandle: (item: HTMLElement) => HTMLElement = item => item,
+): void {
+  let dragged = -1
+
+  const clear = () => items.forEach(item => item.classList.remove('is-dragging', 'is-drop-target'))
+
+  items.forEach((item, index) => {
+    const handle = getHandle(item)
+    handle.draggable = true
+
+    handle.addEventListener('dragstart', (e) => {
+      dragged = index
+      item.classList.add('is-dragging')
+      if (e.dataTransfer) {
+        e.dataTransfer.effectAllowed = 'move'
+        e.dataTransfer.setData('text/plain', '') // Some browsers do not start a drag without data
+        if (handle !== item)
+          e.dataTransfer.setDragImage(item, 0, 0)
+      }
+    })
+    handle.addEventListener('dragend', () => {
+      dragged = -1
+      clear()
+    })
+
+    item.addEventListener('dragover', (e) => {
+      if (dragged === -1)
+        return
+      // Keeps the editor from treating the drag as a text drop
+      e.preventDefault()
+      e.stopPropagation()
+      item.classList.toggle('is-drop-target', index !== dragged)
+    })
+    item.addEventListener('dragleave', () => item.classList.remove('is-drop-target'))
+    item.addEventListener('drop', (e) => {
+      if (dragged === -1)
+        return
+      e.preventDefault()
+      e.stopPropagation()
+      const from = dragged
+      dragged = -1
+      clear()
+      if (from !== index)
+        onMove(from, index)
+    })
+  })
+}
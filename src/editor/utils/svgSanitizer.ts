@@ -0,0 +1,340 @@
+/**
+ * Elements kept in sanitized SVG. Everything else is removed with its content, including
+ * `<script>`, `<foreignObject>`, `<style>`, `<image>`, links and animations, which can
+ * set `href` to a `javascript:` URL.
+ */
+const ELEMENTS = [
+  'svg',
+  'g',
+  'defs',
+  'symbol',
+  'use',
+  'title',
+  'desc',
+  'path',
+  'rect',
+  'circle',
+  'ellipse',
+  'line',
+  'polyline',
+  'polygon',
+  'text',
+  'tspan',
+  'textPath',
+  'linearGradient',
+  'radialGradient',
+  'stop',
+  'clipPath',
+  'mask',
+  'pattern',
+  'marker',
+  'filter',
+  'feBlend',
+  'feColorMatrix',
+  'feComposite',
+  'feDropShadow',
+  'feFlood',
+  'feGaussianBlur',
+  'feMerge',
+  'feMergeNode',
+  'feMorphology',
+  'feOffset',
+]
+
+/**
+ * Attributes kept in sanitized SVG: geometry, presentation, gradients, clipping and
+ * filters. Event handlers and anything else not listed are removed.
+ */
+const ATTRIBUTES = [
+  'xmlns',
+  'xmlns:xlink',
+  'version',
+  'id',
+  'class',
+  'style',
+  'role',
+  'aria-hidden',
+  'aria-label',
+  'focusable',
+  'viewBox',
+  'preserveAspectRatio',
+  'width',
+  'height',
+  'x',
+  'y',
+  'x1',
+  'y1',
+  'x2',
+  'y2',
+  'cx',
+  'cy',
+  'r',
+  'rx',
+  'ry',
+  'fx',
+  'fy',
+  'fr',
+  'd',
+  'points',
+  'pathLength',
+  'transform',
+  'color',
+  'display',
+  'visibility',
+  'opacity',
+  'overflow',
+  'fill',
+  'fill-opacity',
+  'fill-rule',
+  'stroke',
+  'stroke-width',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'stroke-miterlimit',
+  'stroke-dasharray',
+  'stroke-dashoffset',
+  'stroke-opacity',
+  'vector-effect',
+  'shape-rendering',
+  'paint-order',
+  'clip-path',
+  'clip-rule',
+  'clipPathUnits',
+  'mask',
+  'maskUnits',
+  'maskContentUnits',
+  'filter',
+  'filterUnits',
+  'primitiveUnits',
+  'gradientUnits',
+  'gradientTransform',
+  'spreadMethod',
+  'offset',
+  'stop-color',
+  'stop-opacity',
+  'patternUnits',
+  'patternContentUnits',
+  'patternTransform',
+  'marker-start',
+  'marker-mid',
+  'marker-end',
+  'markerWidth',
+  'markerHeight',
+  'markerUnits',
+  'refX',
+  'refY',
+  'orient',
+  'font-family',
+  'font-size',
+  'font-style',
+  'font-weight',
+  'text-anchor',
+  'dominant-baseline',
+  'letter-spacing',
+  'dx',
+  'dy',
+  'rotate',
+  'textLength',
+  'lengthAdjust',
+  'startOffset',
+  'in',
+  'in2',
+  'result',
+  'mode',
+  'operator',
+  'k1',
+  'k2',
+  'k3',
+  'k4',
+  'type',
+  'values',
+  'stdDeviation',
+  'radius',
+  'flood-color',
+  'flood-opacity',
+  'href',
+  'xlink:href',
+]
+
+// HTML lowercases names, so names are matched case-insensitively and written as listed
+const ELEMENT_NAMES = new Map(ELEMENTS.map(name => [name.toLowerCase(), name]))
+const ATTRIBUTE_NAMES = new Map(ATTRIBUTES.map(name => [name.toLowerCase(), name]))
+
+// HTML elements without a closing tag, so the depth of removed content stays right
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'])
+
+const NAME = /[a-z][\w:.-]*/iy
+const ATTRIBUTE = /\s*([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/y
+const TAG_END = /\s*(?:(\/)\s*)?>/y
+// Only references to elements of the same SVG, e.g. `url(#gradient)`; `image-set()` also
+// takes plain strings as urls
+const EXTERNAL_URL = /url\s*\(\s*(?!["']?#)|image-set\s*\(/i
+const UNSAFE_STYLE = /expression\s*\(|@import|javascript:|behavior\s*:/i
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|amp|lt|gt|quot|apos);?/gi, (entity, code: string) => {
+    const lower = code.toLowerCase()
+    if (!lower.startsWith('#'))
+      return { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' }[lower] ?? entity
+
+    const point = lower.startsWith('#x') ? Number.parseInt(lower.slice(2), 16) : Number.parseInt(lower.slice(1), 10)
+    return String.fromCodePoint(point > 0 && point <= 0x10FFFF ? point : 0xFFFD)
+  })
+}
+
+/**
+ * Reads a value the way CSS does: comments removed and escapes such as `u\72l` decoded
+ */
+function decodeCss(text: string): string {
+  return text
+    .replace(/\/\*[\s\S]*?(?:\*\/|$)/g, '')
+    .replace(/\\(?:([\da-f]{1,6})\s?|\n|(.))/gi, (_, hex: string | undefined, char: string | undefined) => {
+      if (hex) {
+        const point = Number.parseInt(hex, 16)
+        return String.fromCodePoint(point > 0 && point <= 0x10FFFF ? point : 0xFFFD)
+      }
+      return char ?? ''
+    })
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;')
+}
+
+/**
+ * Whether an attribute value is safe to keep: links may only point inside the SVG and
+ * no value may load external resources
+ */
+function isSafeValue(name: string, value: string): boolean {
+  // Browsers ignore control characters and spaces when reading URL schemes
+  const compact = value.replace(/[\s\p{Cc}]/gu, '')
+  if (name === 'href' || name === 'xlink:href')
+    return compact.startsWith('#')
+
+  // Presentation attributes are read as CSS too, so `u\72l(…)` is a url
+  const css = decodeCss(value)
+  if (name === 'style' && UNSAFE_STYLE.test(css.replace(/[\s\p{Cc}]/gu, '')))
+    return false
+  return !EXTERNAL_URL.test(css)
+}
+
+/**
+ * Reads the attributes of a tag from `pos`, keeping the allowed ones
+ */
+function readAttributes(markup: string, pos: number): { attributes: string, end: number, selfClosing: boolean } | null {
+  let attributes = ''
+  ATTRIBUTE.lastIndex = pos
+  TAG_END.lastIndex = pos
+
+  let end = TAG_END.exec(markup)
+  while (!end) {
+    const attribute = ATTRIBUTE.exec(markup)
+    if (!attribute)
+      return null
+
+    const [, rawName, double, single, bare] = attribute
+    const name = ATTRIBUTE_NAMES.get(rawName.toLowerCase())
+    const value = decodeEntities(double ?? single ?? bare ?? '')
+    if (name && isSafeValue(name, value))
+      attributes += ` ${name}="${escapeAttribute(value)}"`
+
+    TAG_END.lastIndex = ATTRIBUTE.lastIndex
+    end = TAG_END.exec(markup)
+  }
+
+  return { attributes, end: TAG_END.lastIndex, selfClosing: end[1] === '/' }
+}
+
+/**
+ * Rewrites SVG markup keeping only allow-listed elements and attributes, dropping
+ * scripts, event handlers, `<foreignObject>`, external links and comments. Text is
+ * re-escaped and every element is closed, so the result is safe to assign to
+ * `innerHTML`. Returns null when the markup has no `<svg>` root.
+ */
+export function sanitizeSvg(markup: string): string | null {
+  let output = ''
+  const open: string[] = [] // Kept elements not closed yet
+  let skipped = 0 // Depth inside a removed element
+  let pos = 0
+
+  while (pos < markup.length) {
+    const lt = markup.indexOf('<', pos)
+    const text = markup.slice(pos, lt === -1 ? markup.length : lt)
+    if (text && open.length > 0 && skipped === 0)
+      output += escapeText(decodeEntities(text))
+    if (lt === -1)
+      break
+    pos = lt
+
+    // Comments, doctypes with their internal subset, processing instructions and CDATA are removed
+    if (markup.startsWith('<!--', pos)) {
+      const end = markup.indexOf('-->', pos + 4)
+      pos = end === -1 ? markup.length : end + 3
+      continue
+    }
+    if (markup.startsWith('<!', pos) || markup.startsWith('<?', pos)) {
+      const subset = markup.indexOf('[', pos)
+      const close = markup.indexOf('>', pos)
+      const end = subset !== -1 && subset < close ? markup.indexOf(']>', subset) : close
+      pos = end === -1 ? markup.length : markup.indexOf('>', end) + 1
+      continue
+    }
+
+    const closing = markup[pos + 1] === '/'
+    NAME.lastIndex = pos + (closing ? 2 : 1)
+    const rawName = NAME.exec(markup)?.[0]
+    if (!rawName) {
+      // A lone `<` is text
+      if (open.length > 0 && skipped === 0)
+        output += '&lt;'
+      pos++
+      continue
+    }
+
+    const tag = readAttributes(markup, NAME.lastIndex)
+    if (!tag)
+      break // An unfinished tag ends the markup
+    pos = tag.end
+
+    const name = ELEMENT_NAMES.get(rawName.toLowerCase())
+    if (closing) {
+      if (skipped > 0) {
+        skipped--
+      }
+      else if (name && open.includes(name)) {
+        while (open.length > 0) {
+          const last = open.pop()!
+          output += `</${last}>`
+          if (last === name)
+            break
+        }
+        if (open.length === 0)
+          break // Anything after the root is dropped
+      }
+      continue
+    }
+
+    if (skipped > 0 || (open.length > 0 && !name)) {
+      if (!tag.selfClosing && !VOID_ELEMENTS.has(rawName.toLowerCase()))
+        skipped++
+      continue
+    }
+    // Only `<svg>` may be the root, anything around it is ignored
+    if (!name || (open.length === 0 && name !== 'svg'))
+      continue
+
+    output += tag.selfClosing ? `<${name}${tag.attributes}/>` : `<${name}${tag.attributes}>`
+    if (!tag.selfClosing)
+      open.push(name)
+    else if (open.length === 0)
+      break
+  }
+
+  while (open.length > 0)
+    output += `</${open.pop()}>`
+  return output.startsWith('<svg') ? output : null
+}
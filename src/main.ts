@@ -1,104 +1,460 @@
-import type { GinkoBlocksSettings } from './settings/settings'
-import { Plugin } from 'obsidian'
-import { syntaxHighlightField } from './editor/_syntax/syntaxHighlightExtension'
-import { createAspectPreviewExtension } from './editor/aspect/aspectPreviewExtension'
-import { createFileTreeExtension } from './editor/file-tree/fileTreePostProcessor'
-import { createGalleryPreviewExtension } from './editor/gallery/galleryPreviewExtension'
-import { createLayoutPreviewExtension } from './editor/layout/layoutPreviewExtension'
-import { createStepsPreviewExtension } from './editor/steps/stepsPreviewExtension'
-import { TabsPostProcessor } from './editor/tabs/tabsPostProcessor'; // Correct path to NEW file
-import { createTabPreviewExtension } from './editor/tabs/tabsPreviewExtension'
+import type { Extension } from '@codemirror/state'
+import type { Editor, MarkdownPostProcessor, TAbstractFile } from 'obsidian'
+import type { BlockDefinition } from './core/types'
+import type { GinkoScope } from './settings/resetModal'
+import type { BlockStateStorage, GinkoBlocksSettings } from './settings/settings'
+import { debounce, MarkdownView, normalizePath, Notice, Plugin, TFile } from 'obsidian'
+import { BlockRegistry } from './core/blockRegistry'
+import { getBlockTemplates } from './core/blockTemplates'
+import { BlockPickerModal } from './editor/_insert/blockPickerModal'
+import { IconPickerModal } from './editor/_insert/iconPickerModal'
+import { insertBlockTemplate } from './editor/_insert/insertBlock'
+import { createBlockLintExtension } from './editor/_lint/blockLintExtension'
+import { BlockSuggest } from './editor/_suggest/blockSuggest'
+import { createSyntaxHighlightExtension } from './editor/_syntax/syntaxHighlightExtension'
+import { builtinBlocks } from './editor/blocks'
+import { ImageMetaCache, setImageMetaCache } from './editor/gallery/imageMetaCache'
+import { cleanupExpiredStates, setBlockStateStore } from './editor/utils/blockState'
+import { FrontmatterStore, LocalStorageStore, moveBlockStates, PluginDataStore } from './editor/utils/blockStateStore'
+import { BlockStateTracker } from './editor/utils/blockStateTracker'
+import { IconProvider, setIconProvider } from './editor/utils/iconProvider'
+import { MigrationModal } from './migration/migrationModal'
+import { applyMigrations, findLegacySyntax, undoLastMigration } from './migration/vaultMigration'
 import { DEFAULT_SETTINGS, GinkoBlocksSettingTab } from './settings/settings'
 import { CURRENT_WELCOME_VERSION, WELCOME_VIEW_TYPE, WelcomeView } from './welcome/welcomeView'
-import { createCalloutPreviewExtension } from './editor/callout/calloutPreviewExtension'
-import { cleanupExpiredStates } from './editor/utils/blockState'
-// Remember to rename these classes and interfaces!
 
 export default class GinkoBlocksPlugin extends Plugin {
-  settings: GinkoBlocksSettings;
-  private tabsPostProcessorInstance?: TabsPostProcessor; // Store instance
+  settings: GinkoBlocksSettings
+  readonly registry = new BlockRegistry()
+  private isLoaded = false
+  // Live set of editor extensions; mutated in place and applied via workspace.updateOptions()
+  private readonly editorExtensions: Extension[] = []
+  private readonly blockExtensions = new Map<string, Extension>()
+  private syntaxHighlightExtension?: Extension
+  private lintExtension?: Extension
+  private pluginDataStore = new PluginDataStore({}, () => this.requestSaveData())
+  private imageMetaCache = new ImageMetaCache(this.app, {}, () => this.requestSaveData())
+  private frontmatterStore: FrontmatterStore | null = null
+  private stateStorage?: BlockStateStorage
+  private readonly blockStateTracker = new BlockStateTracker(this.app)
+  // Block states change on every tab click, so the data file is written at most once a second
+  private readonly requestSaveData = debounce(() => this.persistData(), 1000, true)
+
+  // Reads the icon settings when an icon is rendered, so changes apply without a reload
+  private readonly iconProvider = new IconProvider(this.app, () => ({
+    folder: this.settings.iconFolder,
+    allowNetwork: this.settings.utilities.iconify,
+  }))
 
   async onload() {
-    console.log("[GinkoBlocks] Plugin loading...");
-    cleanupExpiredStates();
-    await this.loadSettings();
+    console.log('[GinkoBlocks] Plugin loading...')
+    await this.loadSettings()
+    this.configureBlockStateStore()
+    this.registerEvent(this.app.metadataCache.on('changed', (file) => {
+      this.frontmatterStore?.handleMetadataChange(file.path)
+    }))
+    this.trackBlockStates()
+    this.configureIcons()
+    this.configureImageMetaCache()
 
     this.registerView(
       WELCOME_VIEW_TYPE,
       leaf => new WelcomeView(leaf),
-    );
-
-    this.registerEditorExtensions(); // Keep your existing method
+    )
 
-    // Instantiate and register the NEW TabsPostProcessor
-    // Pass `this.app` to the constructor
-    this.tabsPostProcessorInstance = new TabsPostProcessor(this.app);
-    this.registerMarkdownPostProcessor(
-      (el, ctx) => this.tabsPostProcessorInstance!.process(el, ctx)
-    );
-    console.log("[GinkoBlocks] NEW TabsPostProcessor registered.");
+    builtinBlocks.forEach(block => this.registry.register(block))
+    this.registerEditorExtensions()
+    this.registerEditorSuggest(new BlockSuggest(this.app, this))
+    this.isLoaded = true
 
+    await this.activateWelcomeView()
+    this.addSettingTab(new GinkoBlocksSettingTab(this.app, this))
+    this.registerCommands()
+    console.log('[GinkoBlocks] Plugin loaded successfully.')
+  }
 
-    // Replace your OLD tabsProcessor registration if it was separate:
-    // this.registerMarkdownPostProcessor(tabsProcessor); // REMOVE THIS LINE if it exists
+  /**
+   * Registers an additional block type.
+   * Blocks registered after the plugin has loaded are activated immediately.
+   */
+  registerBlock(block: BlockDefinition): void {
+    if (this.registry.register(block) && this.isLoaded) {
+      this.registerPostProcessor(block)
+      this.registerInsertCommands(block)
+      this.refreshEditorExtensions()
+    }
+  }
 
-    await this.activateWelcomeView();
-    this.addSettingTab(new GinkoBlocksSettingTab(this.app, this));
-    console.log("[GinkoBlocks] Plugin loaded successfully.");
+  /**
+   * Whether a block is switched on in the component settings.
+   * Blocks without a setting key cannot be switched off.
+   */
+  isBlockEnabled(block: BlockDefinition): boolean {
+    if (!block.settingKey)
+      return true
+    return this.settings.components[block.settingKey] !== false
   }
 
   /**
-   * Registers editor extensions
+   * Registers the reconfigurable editor extension set and the post processors of every registered block
    */
   private registerEditorExtensions() {
-    // Your existing registrations
-    this.registerEditorExtension(createTabPreviewExtension(this.app)); // Keep this for live preview
-    this.registerEditorExtension(createCalloutPreviewExtension(this.app));
-    // The OLD tabsProcessor is removed from here IF it was registered through this method
-    this.registerEditorExtension(syntaxHighlightField);
-    this.registerEditorExtension(createLayoutPreviewExtension(this.app));
-    this.registerEditorExtension(createStepsPreviewExtension(this.app));
-    this.registerEditorExtension(createGalleryPreviewExtension(this.app));
-    this.registerEditorExtension(createAspectPreviewExtension(this.app));
-    this.registerEditorExtension(createFileTreeExtension(this.app));
-    console.log("[GinkoBlocks] Base editor extensions registered.");
+    this.registerEditorExtension(this.editorExtensions)
+    this.registry.getAll().forEach(block => this.registerPostProcessor(block))
+    this.refreshEditorExtensions()
+  }
+
+  /**
+   * Rebuilds the editor extension set from the current settings and applies it to open editors
+   */
+  refreshEditorExtensions(): void {
+    this.editorExtensions.length = 0
+
+    for (const block of this.registry.getAll()) {
+      if (this.isBlockEnabled(block)) {
+        this.editorExtensions.push(this.getBlockExtension(block))
+      }
+    }
+
+    if (this.settings.utilities.syntaxHighlight) {
+      this.syntaxHighlightExtension ??= createSyntaxHighlightExtension(this.registry)
+      this.editorExtensions.push(this.syntaxHighlightExtension)
+    }
+
+    if (this.settings.utilities.lint) {
+      this.lintExtension ??= createBlockLintExtension(this.registry)
+      this.editorExtensions.push(this.lintExtension)
+    }
+
+    this.app.workspace.updateOptions()
+  }
+
+  /**
+   * Clears what the blocks of a component persist, such as active tabs and cached image
+   * sizes, in the active note or across the vault, then re-renders open notes.
+   * `settingKey` null resets every block type.
+   */
+  async resetBlocks(settingKey: string | null, scope: GinkoScope, label: string): Promise<void> {
+    const file = scope === 'file' ? this.app.workspace.getActiveFile() : null
+    if (scope === 'file' && !file) {
+      new Notice('Open a note to reset its blocks')
+      return
+    }
+
+    let removed = 0
+    for (const block of this.registry.getAll()) {
+      if (block.reset && (settingKey === null || block.settingKey === settingKey)) {
+        removed += await block.reset(this.app, block, file)
+      }
+    }
+
+    // Widgets read their state when they are created, so open notes are rendered from scratch
+    this.blockExtensions.clear()
+    this.refreshEditorExtensions()
+    this.rerenderReadingViews()
+
+    const where = file ? `in ${file.basename}` : 'across the vault'
+    new Notice(`Reset ${label} ${where}: removed ${removed} saved ${removed === 1 ? 'entry' : 'entries'}`)
+  }
+
+  private registerCommands(): void {
+    this.addCommand({
+      id: 'migrate-legacy-syntax',
+      name: 'Migrate legacy ++ block syntax',
+      callback: () => this.migrateLegacySyntax(),
+    })
+    this.addCommand({
+      id: 'undo-legacy-syntax-migration',
+      name: 'Undo last legacy syntax migration',
+      callback: () => this.undoLegacySyntaxMigration(),
+    })
+    this.addCommand({
+      id: 'import-icon-sets',
+      name: 'Import Iconify icon sets…',
+      callback: () => this.importIconSets(),
+    })
+    this.addCommand({
+      id: 'insert-block',
+      name: 'Insert block…',
+      editorCallback: editor => this.openBlockPicker(editor),
+    })
+    this.addCommand({
+      id: 'insert-icon',
+      name: 'Insert icon…',
+      editorCallback: editor => new IconPickerModal(this.app, id => editor.replaceSelection(id)).open(),
+    })
+    this.registry.getAll().forEach(block => this.registerInsertCommands(block))
+  }
+
+  /**
+   * Adds an "Insert …" command for each template of a block, available while the block is enabled
+   */
+  private registerInsertCommands(block: BlockDefinition): void {
+    block.templates?.forEach((template) => {
+      this.addCommand({
+        id: `insert-${template.id}`,
+        name: `Insert ${template.name.charAt(0).toLowerCase()}${template.name.slice(1)}`,
+        editorCheckCallback: (checking, editor) => {
+          if (!this.isBlockEnabled(block) || (template.needsSelection && !editor.somethingSelected()))
+            return false
+          if (!checking)
+            insertBlockTemplate(editor, template)
+          return true
+        },
+      })
+    })
+  }
+
+  /**
+   * Opens the picker listing the templates of every enabled block
+   */
+  private openBlockPicker(editor: Editor): void {
+    const items = this.registry.getAll()
+      .filter(block => this.isBlockEnabled(block))
+      .flatMap(block => getBlockTemplates(block).map(template => ({ block, template })))
+      .filter(({ template }) => !template.needsSelection || editor.somethingSelected())
+
+    new BlockPickerModal(this.app, items, ({ template }) => insertBlockTemplate(editor, template)).open()
+  }
+
+  /**
+   * Moves block states along when opened notes change outside the editor
+   */
+  private trackBlockStates(): void {
+    this.app.workspace.onLayoutReady(() => {
+      const file = this.app.workspace.getActiveFile()
+      if (file)
+        this.blockStateTracker.track(file)
+    })
+    this.registerEvent(this.app.workspace.on('file-open', (file) => {
+      if (file)
+        this.blockStateTracker.track(file)
+    }))
+    this.registerEvent(this.app.vault.on('modify', (file) => {
+      if (file instanceof TFile)
+        this.blockStateTracker.handleModify(file)
+    }))
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.blockStateTracker.handleRename(oldPath, file.path)))
+    this.registerEvent(this.app.vault.on('delete', file => this.blockStateTracker.forget(file.path)))
+  }
+
+  /**
+   * Resolves Iconify icons from the icon set folder and re-reads the sets when its files change
+   */
+  private configureIcons(): void {
+    setIconProvider(this.iconProvider)
+    // Icons used to be fetched on every render and cached here without limit
+    localStorage.removeItem('ginko-iconify-icons')
+
+    const refresh = (file: TAbstractFile) => this.iconProvider.handleFileChange(file.path)
+    this.registerEvent(this.app.vault.on('create', refresh))
+    this.registerEvent(this.app.vault.on('modify', refresh))
+    this.registerEvent(this.app.vault.on('delete', refresh))
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      refresh(file)
+      this.iconProvider.handleFileChange(oldPath)
+    }))
+  }
+
+  /**
+   * Caches gallery image sizes in the plugin data and drops those of changed or removed files
+   */
+  private configureImageMetaCache(): void {
+    setImageMetaCache(this.imageMetaCache)
+    // Sizes used to be cached here by image URL, which changes between sessions
+    localStorage.removeItem('ginko-blocks-image-gallery-meta')
+
+    const forget = (file: TAbstractFile) => this.imageMetaCache.remove([file.path])
+    this.registerEvent(this.app.vault.on('modify', forget))
+    this.registerEvent(this.app.vault.on('delete', forget))
+    this.registerEvent(this.app.vault.on('rename', (_file, oldPath) => this.imageMetaCache.remove([oldPath])))
+  }
+
+  /**
+   * Asks for Iconify JSON files and copies them into the icon set folder
+   */
+  importIconSets(): void {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.json,application/json'
+    input.multiple = true
+    input.addEventListener('change', async () => {
+      const { imported, failed } = await this.iconProvider.importSets(Array.from(input.files ?? []))
+      failed.forEach(({ file, message }) => {
+        new Notice(`Could not import ${file}: ${message}`)
+      })
+      if (imported.length > 0) {
+        new Notice(`Imported ${imported.length === 1 ? 'icon set' : 'icon sets'} ${imported.join(', ')} into ${this.settings.iconFolder}`)
+        this.refreshEditorExtensions()
+        this.rerenderReadingViews()
+      }
+    })
+    input.click()
+  }
+
+  /**
+   * Where migration logs are kept: the plugin folder, so they stay out of the note list
+   */
+  private get migrationLogFolder(): string {
+    return normalizePath(`${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/migrations`)
+  }
+
+  /**
+   * Scans the vault for notes written in the legacy `++block` syntax and, after a
+   * preview, rewrites them to the current `::block` syntax
+   */
+  private async migrateLegacySyntax(): Promise<void> {
+    const migrations = await findLegacySyntax(this.app)
+    if (migrations.length === 0) {
+      new Notice('No notes use the legacy ++ block syntax')
+      return
+    }
+
+    new MigrationModal(this.app, migrations, async (selected) => {
+      const outcome = await applyMigrations(this.app, selected, this.migrationLogFolder)
+      const skipped = outcome.skipped > 0 ? `, skipped ${outcome.skipped} changed since the scan` : ''
+      new Notice(`Migrated ${outcome.migrated} ${outcome.migrated === 1 ? 'note' : 'notes'}${skipped}`)
+    }).open()
+  }
+
+  private async undoLegacySyntaxMigration(): Promise<void> {
+    const outcome = await undoLastMigration(this.app, this.migrationLogFolder)
+    const skipped = outcome && outcome.skipped > 0 ? `, skipped ${outcome.skipped} edited since the migration` : ''
+    new Notice(outcome
+      ? `Restored ${outcome.migrated} ${outcome.migrated === 1 ? 'note' : 'notes'}${skipped}`
+      : 'No legacy syntax migration to undo')
+  }
+
+  /**
+   * Re-renders all open reading views so post processors pick up changed settings
+   */
+  private rerenderReadingViews(): void {
+    this.app.workspace.getLeavesOfType('markdown').forEach((leaf) => {
+      if (leaf.view instanceof MarkdownView) {
+        leaf.view.previewMode.rerender(true)
+      }
+    })
+  }
+
+  /**
+   * Extensions are created once per block so their state survives toggling other blocks
+   */
+  private getBlockExtension(block: BlockDefinition): Extension {
+    let extension = this.blockExtensions.get(block.id)
+    if (!extension) {
+      extension = block.livePreview(this.app, block)
+      this.blockExtensions.set(block.id, extension)
+    }
+    return extension
+  }
+
+  /**
+   * Post processors cannot be unregistered, so disabled blocks are skipped at render time
+   */
+  private registerPostProcessor(block: BlockDefinition) {
+    if (!block.readingMode)
+      return
+
+    const postProcessor = block.readingMode(this.app, block)
+    const guarded: MarkdownPostProcessor = (el, ctx) => {
+      if (this.isBlockEnabled(block)) {
+        return postProcessor(el, ctx)
+      }
+    }
+    this.registerMarkdownPostProcessor(guarded, postProcessor.sortOrder)
+  }
+
+  /**
+   * Applies the block state storage setting. Entries move between localStorage and
+   * the plugin data, including those saved to localStorage before the setting existed.
+   * States already written to note frontmatter stay in the notes.
+   */
+  private configureBlockStateStore(): void {
+    const { stateStorage } = this.settings
+    if (stateStorage === this.stateStorage)
+      return
+
+    this.stateStorage = stateStorage
+    this.frontmatterStore?.flush()
+    this.frontmatterStore = null
+
+    const localStore = new LocalStorageStore()
+    if (stateStorage === 'local') {
+      moveBlockStates(this.pluginDataStore, localStore)
+      cleanupExpiredStates(localStore)
+      setBlockStateStore(localStore)
+      return
+    }
+
+    moveBlockStates(localStore, this.pluginDataStore)
+    cleanupExpiredStates(this.pluginDataStore)
+    if (stateStorage === 'frontmatter') {
+      this.frontmatterStore = new FrontmatterStore(this.app, this.pluginDataStore)
+    }
+    setBlockStateStore(this.frontmatterStore ?? this.pluginDataStore)
   }
 
   onunload() {
-    console.log("[GinkoBlocks] Plugin unloading...");
-    this.app.workspace.detachLeavesOfType(WELCOME_VIEW_TYPE);
+    console.log('[GinkoBlocks] Plugin unloading...')
+    setIconProvider(null)
+    setImageMetaCache(null)
+    this.frontmatterStore?.flush()
+    this.requestSaveData.run()
+    this.app.workspace.detachLeavesOfType(WELCOME_VIEW_TYPE)
     // Potentially add cleanup for GlobalTabsManager if needed, e.g., clearing all its file managers
     // For now, Obsidian's unload should handle most DOM cleanup.
-    this.app.workspace.updateOptions(); // Force editor refresh
-    console.log("[GinkoBlocks] Plugin unloaded.");
+    this.app.workspace.updateOptions() // Force editor refresh
+    console.log('[GinkoBlocks] Plugin unloaded.')
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Block states and image sizes saved with the plugin data are kept next to the settings
+    const { blockState, imageMeta, ...data } = await this.loadData() ?? {}
+    this.settings = {
+      ...DEFAULT_SETTINGS,
+      ...data,
+      components: { ...DEFAULT_SETTINGS.components, ...data?.components },
+      utilities: { ...DEFAULT_SETTINGS.utilities, ...data?.utilities },
+    }
+    this.pluginDataStore = new PluginDataStore(blockState ?? {}, () => this.requestSaveData())
+    this.imageMetaCache = new ImageMetaCache(this.app, imageMeta ?? {}, () => this.requestSaveData())
+  }
+
+  private async persistData() {
+    await this.saveData({
+      ...this.settings,
+      blockState: this.pluginDataStore.entries(),
+      imageMeta: this.imageMetaCache.entries(),
+    })
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    await this.persistData()
+    this.configureBlockStateStore()
+    if (this.isLoaded) {
+      this.refreshEditorExtensions()
+      this.rerenderReadingViews()
+    }
   }
 
   async activateWelcomeView(forceShow = false) {
-    const storageKey = `ginko-blocks-welcome-shown-v${CURRENT_WELCOME_VERSION}`;
+    const storageKey = `ginko-blocks-welcome-shown-v${CURRENT_WELCOME_VERSION}`
     if (!forceShow && localStorage.getItem(storageKey)) {
-      return;
+      return
     }
-    const { workspace } = this.app;
-    const existingLeaves = workspace.getLeavesOfType(WELCOME_VIEW_TYPE);
+    const { workspace } = this.app
+    const existingLeaves = workspace.getLeavesOfType(WELCOME_VIEW_TYPE)
     if (existingLeaves.length > 0) {
-      workspace.revealLeaf(existingLeaves[0]);
-      return;
+      workspace.revealLeaf(existingLeaves[0])
+      return
     }
-    const leaf = workspace.getLeaf(true);
+    const leaf = workspace.getLeaf(true)
     if (leaf) {
       await leaf.setViewState({
         type: WELCOME_VIEW_TYPE,
         active: true,
-      });
-      workspace.revealLeaf(leaf);
+      })
+      workspace.revealLeaf(leaf)
     }
   }
-}
\ No newline at end of file
+}
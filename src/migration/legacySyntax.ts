@@ -0,0 +1,132 @@
+/**
+ * One rewritten line of a note, numbered from 1 as in the original note
+ */
+export interface SyntaxChange {
+  line: number
+  before: string
+  after: string // May span several lines when a marker is split
+}
+
+export interface MigrationResult {
+  content: string
+  changes: SyntaxChange[]
+}
+
+const FENCE = /^(`{3,}|~{3,})/
+const LEGACY_OPEN = /^(\s*)\+\+([a-z][\w-]*)([(\s].*)?$/i
+const CURRENT_OPEN = /^::[a-z][\w-]*/i
+const COLUMN = /^(\s*)--col(?:\(([^)]*)\))?(.*)$/
+
+// The legacy layout accepted 12-column grid units, the current one only named sizes
+const GRID_SIZES: Record<string, string> = {
+  3: 'xs',
+  4: 'sm',
+  6: 'md',
+  8: 'lg',
+  9: 'xl',
+}
+const NAMED_SIZES = new Set(Object.values(GRID_SIZES))
+
+/**
+ * Rewrites the props of a legacy `--col(...)` marker: grid units such as `6`
+ * become named sizes and sizes are lower cased. Other props are kept as written.
+ */
+function migrateColumnProps(props: string): string {
+  const toSize = (value: string) => GRID_SIZES[value] ?? (NAMED_SIZES.has(value.toLowerCase()) ? value.toLowerCase() : null)
+
+  // Props are split on the spaces outside quoted values
+  const tokens = props.match(/(?:[^\s"]|"[^"]*")+/g) ?? []
+  const migrated = tokens.map((token) => {
+    const sizeProp = token.match(/^size=("?)(\w+)\1$/)
+    if (sizeProp) {
+      const size = toSize(sizeProp[2])
+      return size ? `size="${size}"` : token
+    }
+    return /^\w+$/.test(token) ? toSize(token) ?? token : token
+  })
+
+  return migrated.some((token, i) => token !== tokens[i]) ? migrated.join(' ') : props
+}
+
+/**
+ * Rewrites a `--col` line inside a block. The legacy layout rendered text after the
+ * marker as column content, where the current syntax reads it as a title, so it
+ * moves to its own line.
+ */
+function migrateColumnLine(line: string): string {
+  const match = line.match(COLUMN)
+  if (!match)
+    return line
+
+  const [, indent, props, rest] = match
+  // `--column` and other names starting with `col` are not column markers
+  if (props === undefined && rest && !/^\s/.test(rest))
+    return line
+
+  const marker = props === undefined ? '--col' : `--col(${migrateColumnProps(props)})`
+  const content = rest.trim()
+  return content ? `${indent}${marker}\n${indent}${content}` : `${indent}${marker}`
+}
+
+/**
+ * Rewrites the legacy `++block` syntax of a note to the current `::block` syntax:
+ *
+ * - `++name(...)` opens become `::name(...)`, and the `++` lines closing them become `::`
+ * - `--col` markers directly inside legacy blocks get named sizes and their inline content on its own line
+ *
+ * Fenced code is left alone, as are `++` lines that close no legacy block.
+ */
+export function migrateLegacySyntax(source: string): MigrationResult {
+  const lines = source.split('\n')
+  const changes: SyntaxChange[] = []
+  // Open blocks, innermost last; only legacy blocks are closed by `++`
+  const stack: Array<'legacy' | 'current'> = []
+  let fence: string | null = null
+
+  const output = lines.map((rawLine, index) => {
+    const eol = rawLine.endsWith('\r') ? '\r' : ''
+    const line = eol ? rawLine.slice(0, -1) : rawLine
+    const trimmed = line.trim()
+
+    const fenceMatch = trimmed.match(FENCE)
+    if (fence) {
+      if (fenceMatch && trimmed.startsWith(fence) && trimmed.slice(fence.length).trim() === '')
+        fence = null
+      return rawLine
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1]
+      return rawLine
+    }
+
+    let migrated = line
+    const legacyOpen = line.match(LEGACY_OPEN)
+    if (legacyOpen) {
+      const [, indent, name, rest = ''] = legacyOpen
+      migrated = `${indent}::${name}${rest}`
+      stack.push('legacy')
+    }
+    else if (trimmed === '++' && stack.at(-1) === 'legacy') {
+      migrated = line.replace('++', '::')
+      stack.pop()
+    }
+    else if (CURRENT_OPEN.test(trimmed)) {
+      stack.push('current')
+    }
+    else if (trimmed === '::' && stack.at(-1) === 'current') {
+      stack.pop()
+    }
+    // Columns of blocks already in the current syntax keep their inline titles
+    else if (stack.at(-1) === 'legacy') {
+      migrated = migrateColumnLine(line)
+    }
+
+    if (migrated === line)
+      return rawLine
+
+    changes.push({ line: index + 1, before: line, after: migrated })
+    return migrated.split('\n').join(`${eol}\n`) + eol
+  })
+
+  return { content: changes.length > 0 ? output.join('\n') : source, changes }
+}
@@ -0,0 +1,94 @@
+import type { App } from 'obsidian'
+import type { FileMigration } from './vaultMigration'
+import { Modal, Setting } from 'obsidian'
+
+/**
+ * Previews the legacy syntax migration note by note, as a diff of the rewritten lines.
+ * Notes can be left out before the migration is applied.
+ */
+export class MigrationModal extends Modal {
+  private readonly migrations: FileMigration[]
+  private readonly onApply: (selected: FileMigration[]) => Promise<void>
+  private readonly selected: Set<FileMigration>
+
+  constructor(app: App, migrations: FileMigration[], onApply: (selected: FileMigration[]) => Promise<void>) {
+    super(app)
+    this.migrations = migrations
+    this.onApply = onApply
+    this.selected = new Set(migrations)
+  }
+
+  onOpen() {
+    const { contentEl, titleEl } = this
+    titleEl.setText('Migrate legacy block syntax')
+    contentEl.addClass('ginko-blocks-migration-modal')
+
+    const changeCount = this.migrations.reduce((count, migration) => count + migration.result.changes.length, 0)
+    contentEl.createEl('p', {
+      text: `${this.migrations.length} ${this.migrations.length === 1 ? 'note uses' : 'notes use'} the legacy ++ syntax, with ${changeCount} ${changeCount === 1 ? 'line' : 'lines'} to rewrite. Code blocks are left as they are.`,
+    })
+
+    const list = contentEl.createDiv('ginko-blocks-migration-files')
+    this.migrations.forEach(migration => this.renderFile(list, migration))
+
+    contentEl.createEl('p', {
+      text: 'Every migration is logged, and the "Undo last legacy syntax migration" command restores the notes it changed.',
+      cls: 'ginko-blocks-migration-note',
+    })
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Cancel')
+        .onClick(() => this.close()),
+      )
+      .addButton((button) => {
+        const update = () => button
+          .setButtonText(`Migrate ${this.selected.size} ${this.selected.size === 1 ? 'note' : 'notes'}`)
+          .setDisabled(this.selected.size === 0)
+        update()
+        list.addEventListener('change', update)
+        button
+          .setCta()
+          .onClick(async () => {
+            this.close()
+            await this.onApply(this.migrations.filter(migration => this.selected.has(migration)))
+          })
+      })
+  }
+
+  onClose() {
+    const { contentEl } = this
+    contentEl.empty()
+  }
+
+  private renderFile(list: HTMLElement, migration: FileMigration): void {
+    const details = list.createEl('details', { cls: 'ginko-blocks-migration-file' })
+    const summary = details.createEl('summary')
+
+    const checkbox = summary.createEl('input', { type: 'checkbox' })
+    checkbox.checked = true
+    checkbox.addEventListener('click', event => event.stopPropagation())
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked)
+        this.selected.add(migration)
+      else
+        this.selected.delete(migration)
+    })
+
+    summary.createSpan({ text: migration.file.path, cls: 'ginko-blocks-migration-path' })
+    summary.createSpan({
+      text: `${migration.result.changes.length} ${migration.result.changes.length === 1 ? 'change' : 'changes'}`,
+      cls: 'ginko-blocks-migration-count',
+    })
+
+    const diff = details.createDiv('ginko-blocks-migration-diff')
+    for (const change of migration.result.changes) {
+      diff.createDiv({ text: `${change.line}`, cls: 'ginko-blocks-migration-line' })
+      const lines = diff.createDiv('ginko-blocks-migration-lines')
+      lines.createDiv({ text: `- ${change.before}`, cls: 'ginko-blocks-migration-removed' })
+      change.after.split('\n').forEach((line) => {
+        lines.createDiv({ text: `+ ${line}`, cls: 'ginko-blocks-migration-added' })
+      })
+    }
+  }
+}
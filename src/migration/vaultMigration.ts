@@ -0,0 +1,130 @@
+import type { App } from 'obsidian'
+import type { MigrationResult } from './legacySyntax'
+import { normalizePath, TFile } from 'obsidian'
+import { migrateLegacySyntax } from './legacySyntax'
+
+/**
+ * A note that uses the legacy syntax, with its content as scanned and as migrated
+ */
+export interface FileMigration {
+  file: TFile
+  original: string
+  result: MigrationResult
+}
+
+/**
+ * What a migration changed, kept so it can be undone
+ */
+export interface MigrationLog {
+  createdAt: number // Unix timestamp in milliseconds
+  files: Array<{ path: string, before: string, after: string }>
+}
+
+export interface MigrationOutcome {
+  migrated: number
+  skipped: number // Notes changed since they were scanned, or no longer there
+  logPath: string | null
+}
+
+const LOG_SUFFIX = '.json'
+const UNDONE_SUFFIX = '.undone.json'
+
+/**
+ * Scans every note of the vault for the legacy syntax
+ */
+export async function findLegacySyntax(app: App): Promise<FileMigration[]> {
+  const migrations: FileMigration[] = []
+  for (const file of app.vault.getMarkdownFiles()) {
+    const original = await app.vault.cachedRead(file)
+    // Cheap check first, most notes have no legacy markers
+    if (!original.includes('++'))
+      continue
+
+    const result = migrateLegacySyntax(original)
+    if (result.changes.length > 0)
+      migrations.push({ file, original, result })
+  }
+  return migrations.sort((a, b) => a.file.path.localeCompare(b.file.path))
+}
+
+async function writeLog(app: App, logPath: string, log: MigrationLog): Promise<void> {
+  const { adapter } = app.vault
+  const folder = logPath.slice(0, logPath.lastIndexOf('/'))
+  if (!(await adapter.exists(folder)))
+    await adapter.mkdir(folder)
+  await adapter.write(logPath, JSON.stringify(log, null, 2))
+}
+
+/**
+ * Rewrites the notes of `migrations` and records the changes in a log in `logFolder`.
+ * Notes edited since they were scanned are skipped rather than overwritten.
+ */
+export async function applyMigrations(app: App, migrations: FileMigration[], logFolder: string): Promise<MigrationOutcome> {
+  const createdAt = Date.now()
+  const logPath = normalizePath(`${logFolder}/${createdAt}${LOG_SUFFIX}`)
+  const log: MigrationLog = {
+    createdAt,
+    files: migrations.map(({ file, original, result }) => ({ path: file.path, before: original, after: result.content })),
+  }
+
+  // The log is written before any note changes, so a failure midway can still be undone
+  await writeLog(app, logPath, log)
+
+  const applied = new Set<string>()
+  for (const { file, original, result } of migrations) {
+    if (!(app.vault.getAbstractFileByPath(file.path) instanceof TFile))
+      continue
+    await app.vault.process(file, (data) => {
+      if (data !== original)
+        return data
+      applied.add(file.path)
+      return result.content
+    })
+  }
+
+  log.files = log.files.filter(entry => applied.has(entry.path))
+  if (log.files.length > 0)
+    await writeLog(app, logPath, log)
+  else
+    await app.vault.adapter.remove(logPath)
+
+  return {
+    migrated: applied.size,
+    skipped: migrations.length - applied.size,
+    logPath: log.files.length > 0 ? logPath : null,
+  }
+}
+
+/**
+ * Restores the notes of the latest migration logged in `logFolder`. Notes edited
+ * since the migration are skipped. Returns null when there is nothing to undo.
+ */
+export async function undoLastMigration(app: App, logFolder: string): Promise<MigrationOutcome | null> {
+  const { adapter } = app.vault
+  if (!(await adapter.exists(logFolder)))
+    return null
+
+  const logPaths = (await adapter.list(logFolder)).files.filter(path => path.endsWith(LOG_SUFFIX) && !path.endsWith(UNDONE_SUFFIX)).sort()
+  const logPath = logPaths.at(-1)
+  if (!logPath)
+    return null
+
+  const log = JSON.parse(await adapter.read(logPath)) as MigrationLog
+  let restored = 0
+  for (const entry of log.files) {
+    const file = app.vault.getAbstractFileByPath(entry.path)
+    if (!(file instanceof TFile))
+      continue
+    await app.vault.process(file, (data) => {
+      if (data !== entry.after)
+        return data
+      restored++
+      return entry.before
+    })
+  }
+
+  // Kept for reference, but no longer the latest migration
+  await adapter.rename(logPath, logPath.slice(0, -LOG_SUFFIX.length) + UNDONE_SUFFIX)
+
+  return { migrated: restored, skipped: log.files.length - restored, logPath }
+}
@@ -8,7 +8,7 @@ export class ResetModal extends Modal {
     app: App,
     public component: string,
     public resetScope: GinkoScope,
-    public onReset: () => void,
+    public onReset: () => void | Promise<void>,
   ) {
     super(app)
   }
@@ -46,10 +46,13 @@ export class ResetModal extends Modal {
     consequencesDiv.createEl('p', { text: 'This will:' })
     const consequencesList = consequencesDiv.createEl('ul')
     consequencesList.createEl('li', {
-      text: `Remove all ${this.component} configurations${this.resetScope === 'file' ? ' in this note' : ' across your vault'}`,
+      text: `Forget the saved state of ${this.component}${this.resetScope === 'file' ? ' in this note' : ' across your vault'}, such as active tabs and collapsed callouts`,
     })
     consequencesList.createEl('li', {
-      text: 'Restore default settings for the affected components',
+      text: 'Drop cached data such as gallery image sizes',
+    })
+    consequencesList.createEl('li', {
+      text: 'Re-render open notes with the default state',
     })
 
     new Setting(contentEl)
@@ -60,9 +63,9 @@ export class ResetModal extends Modal {
       .addButton(button => button
         .setButtonText('Reset')
         .setCta()
-        .onClick(() => {
-          this.onReset()
+        .onClick(async () => {
           this.close()
+          await this.onReset()
         }),
       )
   }
@@ -18,9 +18,15 @@ interface Utility {
   links: UtilityLink[]
 }
 
+/**
+ * Where block states such as the active tab are saved
+ */
+export type BlockStateStorage = 'plugin' | 'frontmatter' | 'local'
+
 export interface GinkoBlocksSettings {
   components: {
     aspectImage: boolean
+    callout: boolean
     card: boolean
     cardGrid: boolean
     fileTree: boolean
@@ -34,29 +40,38 @@ export interface GinkoBlocksSettings {
   utilities: {
     iconify: boolean
     syntaxHighlight: boolean
+    lint: boolean
+    autocomplete: boolean
     debug: boolean
     [key: string]: boolean
   }
+  stateStorage: BlockStateStorage
+  iconFolder: string
   mySetting: string
 }
 
 export const DEFAULT_SETTINGS: GinkoBlocksSettings = {
   components: {
-    aspectImage: false,
-    card: false,
-    cardGrid: false,
-    fileTree: false,
-    gallery: false,
-    galleryFolder: false,
-    layout: false,
-    steps: false,
-    tabs: false,
+    aspectImage: true,
+    callout: true,
+    card: true,
+    cardGrid: true,
+    fileTree: true,
+    gallery: true,
+    galleryFolder: true,
+    layout: true,
+    steps: true,
+    tabs: true,
   },
   utilities: {
     iconify: false,
-    syntaxHighlight: false,
+    syntaxHighlight: true,
+    lint: true,
+    autocomplete: true,
     debug: false,
   },
+  stateStorage: 'plugin',
+  iconFolder: 'Ginko/icons',
   mySetting: 'default',
 }
 
@@ -117,62 +132,7 @@ export class GinkoBlocksSettingTab extends PluginSettingTab {
     // Components Section
     containerEl.createEl('h2', { text: 'Components' })
 
-    const components = [
-      {
-        id: 'aspectImage',
-        name: 'Aspect',
-        description: 'Create responsive images with maintained aspect ratios',
-        docLink: '/aspect-image',
-      },
-      {
-        id: 'card',
-        name: 'Card',
-        description: 'Design beautiful content cards with customizable layouts and styles',
-        docLink: '/card',
-      },
-      {
-        id: 'cardGrid',
-        name: 'Card Grid',
-        description: 'Organize cards in responsive grid layouts with automatic spacing',
-        docLink: '/card-grid',
-      },
-      {
-        id: 'fileTree',
-        name: 'File Tree',
-        description: 'Display your vault structure in an interactive tree view',
-        docLink: '/file-tree',
-      },
-      {
-        id: 'gallery',
-        name: 'Gallery',
-        description: 'Create beautiful image galleries with customizable layouts',
-        docLink: '/gallery',
-      },
-      {
-        id: 'galleryFolder',
-        name: 'Gallery Folder',
-        description: 'Automatically generate galleries from folder contents',
-        docLink: '/gallery-folder',
-      },
-      {
-        id: 'layout',
-        name: 'Layout',
-        description: 'Create flexible layouts with columns, rows, and nested components',
-        docLink: '/layout',
-      },
-      {
-        id: 'steps',
-        name: 'Steps',
-        description: 'Create step-by-step guides with numbered or custom markers',
-        docLink: '/steps',
-      },
-      {
-        id: 'tabs',
-        name: 'Tabs',
-        description: 'Organize content in tabbed interfaces for better navigation',
-        docLink: '/tabs',
-      },
-    ]
+    const components = this.plugin.registry.getSettingEntries()
 
     components.forEach((component) => {
       const setting = new Setting(containerEl)
@@ -219,8 +179,8 @@ export class GinkoBlocksSettingTab extends PluginSettingTab {
     const utilities: Utility[] = [
       {
         id: 'iconify',
-        name: 'Iconify Icons',
-        description: 'Extend the standard Lucide icons with 200,000+ ready-to-use icons from Iconify.',
+        name: 'Fetch Missing Iconify Icons',
+        description: 'Download icons that are not in your imported icon sets from the Iconify API, which has 200,000+ icons.',
         warning: 'Note: This feature makes network requests to the Iconify API to fetch icons.',
         links: [
           { text: 'Read our documentation', url: 'https://ginko.build/docs/utilities/iconify' },
@@ -237,6 +197,20 @@ export class GinkoBlocksSettingTab extends PluginSettingTab {
           { text: 'Read our documentation', url: 'https://ginko.build/docs/utilities/syntax-highlight' },
         ],
       },
+      {
+        id: 'lint',
+        name: 'Block Linting',
+        description: 'Underline problems in blocks while editing, such as unclosed blocks, misspelled props and invalid values, with quick fixes.',
+        warning: '',
+        links: [],
+      },
+      {
+        id: 'autocomplete',
+        name: 'Block Autocomplete',
+        description: 'Suggest block names after ::, sections after -- and props inside a marker\'s parentheses, and close new blocks for you.',
+        warning: '',
+        links: [],
+      },
       {
         id: 'debug',
         name: 'Debug Mode',
@@ -287,6 +261,38 @@ export class GinkoBlocksSettingTab extends PluginSettingTab {
         }))
     })
 
+    new Setting(containerEl)
+      .setName('Icon Set Folder')
+      .setDesc('Vault folder with Iconify JSON icon sets, such as mdi.json from @iconify/json. Their icons work offline as prefix:name, e.g. mdi:home.')
+      .addText((text) => {
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.iconFolder)
+          .setValue(this.plugin.settings.iconFolder)
+        // Saved when editing ends rather than per keystroke, as saving re-renders open notes
+        text.inputEl.addEventListener('change', async () => {
+          this.plugin.settings.iconFolder = text.getValue().trim() || DEFAULT_SETTINGS.iconFolder
+          await this.plugin.saveSettings()
+        })
+      })
+      .addButton(button => button
+        .setButtonText('Import Icon Sets')
+        .onClick(() => this.plugin.importIconSets()))
+
+    new Setting(containerEl)
+      .setName('Block State Storage')
+      .setDesc('Where the active tab, collapsed callouts and other block states are saved. Plugin data and note frontmatter sync with your vault; local storage stays on this device. Frontmatter writes a "ginko-blocks" property into each note.')
+      .addDropdown(dropdown => dropdown
+        .addOptions({
+          plugin: 'Plugin data',
+          frontmatter: 'Note frontmatter',
+          local: 'Local storage (this device)',
+        })
+        .setValue(this.plugin.settings.stateStorage)
+        .onChange(async (value) => {
+          this.plugin.settings.stateStorage = value as BlockStateStorage
+          await this.plugin.saveSettings()
+        }))
+
     // Reset Section - Danger Zone
     containerEl.createEl('h2', { text: 'Danger Zone' })
 
@@ -311,11 +317,11 @@ export class GinkoBlocksSettingTab extends PluginSettingTab {
         .setName(`Reset ${component.name}`)
         .addButton(button => button
           .setButtonText('Current File')
-          .onClick(() => this.showResetConfirmation(component.name, 'file')),
+          .onClick(() => this.showResetConfirmation(component.name, component.id, 'file')),
         )
         .addButton(button => button
           .setButtonText('Whole Vault')
-          .onClick(() => this.showResetConfirmation(component.name, 'vault')),
+          .onClick(() => this.showResetConfirmation(component.name, component.id, 'vault')),
         )
     })
 
@@ -325,11 +331,11 @@ export class GinkoBlocksSettingTab extends PluginSettingTab {
       .setDesc('Reset all components at once')
       .addButton(button => button
         .setButtonText('Reset Current File')
-        .onClick(() => this.showResetConfirmation('all components', 'file')),
+        .onClick(() => this.showResetConfirmation('all components', null, 'file')),
       )
       .addButton(button => button
         .setButtonText('Reset Whole Vault')
-        .onClick(() => this.showResetConfirmation('all components', 'vault')),
+        .onClick(() => this.showResetConfirmation('all components', null, 'vault')),
       )
 
     // Add Local Storage Reset Section
@@ -344,14 +350,15 @@ export class GinkoBlocksSettingTab extends PluginSettingTab {
         }))
   }
 
-  private showResetConfirmation(component: string, scope: GinkoScope): void {
+  /**
+   * `settingKey` null resets every component
+   */
+  private showResetConfirmation(component: string, settingKey: string | null, scope: GinkoScope): void {
     new ResetModal(
       this.app,
       component,
       scope,
-      () => {
-        // TODO: Implement actual reset logic here
-      },
+      () => this.plugin.resetBlocks(settingKey, scope, component),
     ).open()
   }
 }
@@ -0,0 +1,89 @@
+import type { App, MarkdownPostProcessorContext } from 'obsidian'
+import type { BaseWidget } from '../src/editor/_base/baseWidget'
+import { describe, expect, it } from 'vitest'
+import { createBlockParser } from '../src/core/blockParser'
+import { BasePostProcessor } from '../src/editor/_base/basePostProcessor'
+
+const markers = { start: '::steps', end: '::' }
+
+class TestPostProcessor extends BasePostProcessor<BaseWidget> {
+  readonly rendered: string[] = []
+
+  constructor() {
+    super({} as App, {
+      id: 'steps',
+      name: 'Steps',
+      description: 'Steps',
+      markers,
+      parser: createBlockParser(markers),
+      livePreview: () => [],
+    }, { fieldName: 'stepsPreview' })
+  }
+
+  protected createWidget(content: string, id: string): BaseWidget {
+    this.rendered.push(content)
+    return { toReadingDOM: () => ({ id }) } as unknown as BaseWidget
+  }
+}
+
+function createSection() {
+  const children: unknown[] = []
+  return {
+    children,
+    style: { display: '' },
+    classList: { add: () => {} },
+    empty: () => { children.length = 0 },
+    appendChild: (child: unknown) => children.push(child),
+    createDiv: () => {
+      const div = { type: 'text' }
+      children.push(div)
+      return div
+    },
+  }
+}
+
+/**
+ * Runs the post processor over a note split into sections of [lineStart, lineEnd]
+ */
+function render(text: string, sections: Array<[number, number]>) {
+  const processor = new TestPostProcessor()
+  const elements = sections.map(([lineStart, lineEnd]) => {
+    const el = createSection()
+    const ctx = { getSectionInfo: () => ({ text, lineStart, lineEnd }), addChild: () => {} } as unknown as MarkdownPostProcessorContext
+    processor.process(el as unknown as HTMLElement, ctx)
+    return el
+  })
+  return { processor, elements }
+}
+
+describe('basePostProcessor', () => {
+  const note = 'Intro\n\n::steps\n--step One\n\nFirst\n\n::\n\nOutro'
+
+  it('renders the block in the section it starts in', () => {
+    const { processor, elements } = render(note, [[0, 0], [2, 3], [5, 5], [7, 7], [9, 9]])
+
+    expect(processor.rendered).toEqual(['::steps\n--step One\n\nFirst\n\n::'])
+    expect(elements[1].children).toHaveLength(1)
+  })
+
+  it('hides the other sections of the block and leaves the rest alone', () => {
+    const { elements } = render(note, [[0, 0], [2, 3], [5, 5], [7, 7], [9, 9]])
+
+    expect(elements.map(el => el.style.display)).toEqual(['', '', 'none', 'none', ''])
+  })
+
+  it('renders a block opening right after a paragraph along with the paragraph', () => {
+    const { processor, elements } = render('Intro\n::steps\n--step One\n\nFirst\n::\n\nOutro', [[0, 2], [4, 5], [7, 7]])
+
+    expect(processor.rendered).toEqual(['::steps\n--step One\n\nFirst\n::'])
+    expect(elements[0].children).toEqual([{ type: 'text' }, { id: expect.any(String) }])
+    expect(elements.map(el => el.style.display)).toEqual(['', 'none', ''])
+  })
+
+  it('ignores unclosed blocks and blocks of other types', () => {
+    const { processor, elements } = render('::steps\nopen\n\n::tabs\n::', [[0, 1], [3, 4]])
+
+    expect(processor.rendered).toEqual([])
+    expect(elements.map(el => el.style.display)).toEqual(['', ''])
+  })
+})
@@ -0,0 +1,126 @@
+import type { BlockNode } from '../src/core/blockAst'
+import { describe, expect, it } from 'vitest'
+import { findBlockAt, getLeadingBody, getSections, parseBlock, parseDocument, parseMarkerLine, walkBlocks } from '../src/core/blockAst'
+
+function collectBlocks(source: string): BlockNode[] {
+  const blocks: BlockNode[] = []
+  walkBlocks(parseDocument(source), block => blocks.push(block))
+  return blocks
+}
+
+describe('parseMarkerLine', () => {
+  it('parses name, props and title with offsets', () => {
+    const line = '--tab(icon="star") First tab'
+    const marker = parseMarkerLine(line, '--', 10)!
+
+    expect(marker.name).toBe('tab')
+    expect(marker.props).toEqual({ icon: 'star' })
+    expect(marker.title).toBe('First tab')
+    expect(marker.nameRange).toEqual({ from: 10, to: 15 })
+    expect(marker.propsRange).toEqual({ from: 15, to: 28 })
+    expect(line.slice(marker.titleRange!.from - 10, marker.titleRange!.to - 10)).toBe('First tab')
+  })
+
+  it('keeps a closing parenthesis inside quoted props', () => {
+    const marker = parseMarkerLine('::card(title="Hello (world)") rest', '::')!
+
+    expect(marker.rawProps).toBe('title="Hello (world)"')
+    expect(marker.props).toEqual({ title: 'Hello (world)' })
+    expect(marker.title).toBe('rest')
+  })
+
+  it('keeps unquoted prop values and reads bare keys as true', () => {
+    const marker = parseMarkerLine('::card-grid(cols=3 stagger wrap=false)', '::')!
+
+    expect(marker.name).toBe('card-grid')
+    expect(marker.props).toEqual({ cols: '3', stagger: true, wrap: false })
+  })
+
+  it('rejects lines that are not markers', () => {
+    expect(parseMarkerLine('::', '::')).toBeNull()
+    expect(parseMarkerLine('---', '--')).toBeNull()
+    expect(parseMarkerLine('text ::tabs', '::')).toBeNull()
+  })
+})
+
+describe('parseDocument', () => {
+  it('nests blocks and keeps absolute offsets', () => {
+    const source = 'intro\n::layout\n--col\n::tabs\n--tab A\nx\n::\n::\noutro'
+    const root = parseDocument(source, 100)
+    const [layout, tabs] = collectBlocks(source)
+
+    expect(root.children.map(child => child.type)).toEqual(['text', 'block', 'text'])
+    expect(layout.marker.name).toBe('layout')
+    expect(tabs.marker.name).toBe('tabs')
+    expect(tabs.closed).toBe(true)
+
+    const offsetLayout = root.children[1] as BlockNode
+    expect(source.slice(offsetLayout.from - 100, offsetLayout.to - 100)).toBe('::layout\n--col\n::tabs\n--tab A\nx\n::\n::')
+  })
+
+  it('splits a block into sections', () => {
+    const source = '::steps\nlead\n--step One\nfirst\n--step(icon="x") Two\nsecond\n::'
+    const block = parseBlock(source)!
+    const sections = getSections(block)
+
+    expect(getLeadingBody(block, source)).toBe('lead')
+    expect(sections.map(section => section.marker.title)).toEqual(['One', 'Two'])
+    expect(sections.map(section => section.body)).toEqual(['first', 'second'])
+    expect(sections[1].marker.props).toEqual({ icon: 'x' })
+  })
+
+  it('ignores markers inside fenced code', () => {
+    const source = '::tabs\n```\n::\n--tab fake\n```\n::'
+    const block = parseBlock(source)!
+
+    expect(block.closed).toBe(true)
+    expect(block.to).toBe(source.length)
+    expect(getSections(block)).toHaveLength(0)
+  })
+
+  it('reads a trailing dash as a collapsed block', () => {
+    const block = parseBlock('::note-\n--title Heads up\nbody\n::')!
+
+    expect(block.marker.name).toBe('note')
+    expect(block.collapsed).toBe(true)
+    expect(getSections(block)[0].marker.title).toBe('Heads up')
+  })
+
+  it('extends unclosed blocks to the end of the document', () => {
+    const source = 'a\n::gallery\n![img](x.png)'
+    const [gallery] = collectBlocks(source)
+
+    expect(gallery.closed).toBe(false)
+    expect(gallery.to).toBe(source.length)
+    expect(gallery.body).toBe('![img](x.png)')
+  })
+
+  it('treats a stray end marker as text', () => {
+    const root = parseDocument('::\ntext')
+
+    expect(root.children).toHaveLength(1)
+    expect(root.children[0].type).toBe('text')
+  })
+
+  it('finds the innermost block at a position', () => {
+    const source = '::layout\n--col\n::aspect(square)\n![a](b)\n::\n::'
+    const root = parseDocument(source)
+
+    expect(findBlockAt(root, source.indexOf('![a]'))?.marker.name).toBe('aspect')
+    expect(findBlockAt(root, source.indexOf('--col'))?.marker.name).toBe('layout')
+  })
+})
+
+describe('parseBlock', () => {
+  it('stops after the first block', () => {
+    const source = '::aspect\n![a](b)\n::\n::gallery\n::'
+    const block = parseBlock(source)!
+
+    expect(block.marker.name).toBe('aspect')
+    expect(block.to).toBe(source.indexOf('\n::gallery'))
+  })
+
+  it('returns null when the text does not start with a block', () => {
+    expect(parseBlock('plain text\n::tabs\n::')).toBeNull()
+  })
+})
@@ -0,0 +1,77 @@
+import type { BlockDefinition } from '../src/core/types'
+import { describe, expect, it } from 'vitest'
+import { createBlockParser } from '../src/core/blockParser'
+import { getBlockCompletions, getClosingSnippet, needsClosingMarker } from '../src/editor/_suggest/blockCompletions'
+
+function defineBlock(name: string, block: Partial<BlockDefinition> = {}): BlockDefinition {
+  const markers = { start: `::${name}`, end: '::', child: block.markers?.child }
+  return { id: name, name, description: name, markers, parser: createBlockParser(markers), livePreview: () => [], ...block }
+}
+
+const tabs = defineBlock('tabs', { markers: { start: '::tabs', end: '::', child: '--tab' }, childProps: { tab: { icon: { type: 'icon' } } } })
+const folder = defineBlock('gallery-folder', {
+  props: {
+    sort: { type: 'enum', values: ['name', 'mtime'], default: 'name' },
+    recursive: { type: 'boolean', default: false },
+    limit: { type: 'number', min: 1 },
+  },
+})
+const blocks = [tabs, folder, defineBlock('gallery')]
+
+function complete(line: string, enclosing?: BlockDefinition) {
+  const ch = line.indexOf('|')
+  const result = getBlockCompletions(blocks, line.replace('|', ''), ch, () => enclosing)
+  return result && { ...result, labels: result.completions.map(completion => completion.label) }
+}
+
+describe('getBlockCompletions', () => {
+  it('suggests block names after ::, prefix matches first', () => {
+    expect(complete('::gal|')).toMatchObject({ from: 2, to: 5, labels: ['::gallery-folder', '::gallery'] })
+    expect(complete('::folder|')?.labels).toEqual(['::gallery-folder'])
+    expect(complete('::|')).toBeNull()
+  })
+
+  it('suggests the child marker of the enclosing block', () => {
+    expect(complete('--|', tabs)).toMatchObject({ from: 0, labels: ['--tab'] })
+    expect(complete('--|', folder)).toBeNull()
+  })
+
+  it('suggests props that are not set yet', () => {
+    const result = complete('::gallery-folder(sort="mtime" r|)')
+
+    expect(result).toMatchObject({ query: 'r', labels: ['recursive'] })
+    expect(complete('::gallery-folder(|)')?.completions.find(completion => completion.label === 'limit')).toMatchObject({ detail: 'number', insert: 'limit=' })
+    expect(complete('--tab(|) A', tabs)?.completions[0]).toMatchObject({ insert: 'icon=""', cursor: 6 })
+  })
+
+  it('suggests enum values and replaces a paired quote', () => {
+    const line = '::gallery-folder(sort="m|")'
+    const result = complete(line)
+
+    expect(result).toMatchObject({ from: 22, to: 25, labels: ['mtime', 'name'] })
+    expect(result?.completions[0].insert).toBe('"mtime"')
+  })
+
+  it('offers the icon picker for icon values', () => {
+    expect(complete('--tab(icon="star|") A', tabs)).toMatchObject({ from: 11, to: 17, query: 'star', completions: [{ pickIcon: true }] })
+  })
+
+  it('suggests nothing inside quoted text or after the props', () => {
+    expect(complete('::gallery-folder(limit="a b |")')).toBeNull()
+    expect(complete('::gallery-folder(limit=2) |')).toBeNull()
+  })
+})
+
+describe('needsClosingMarker', () => {
+  it('closes new blocks, not blocks that are closed already', () => {
+    expect(needsClosingMarker('::tabs\ntext', 0, 6)).toBe(true)
+    expect(needsClosingMarker('::tabs\n--tab A\n::', 0, 6)).toBe(false)
+  })
+
+  it('closes a block that would take the end marker of the block around it', () => {
+    const source = '::tabs\n--tab A\n::gallery\n::'
+
+    expect(needsClosingMarker(source, source.indexOf('::gallery'), source.indexOf('::gallery') + 9)).toBe(true)
+    expect(getClosingSnippet(tabs, '  ')).toEqual({ text: '\n  --tab \n  ::', cursor: { line: 1, ch: 8 } })
+  })
+})
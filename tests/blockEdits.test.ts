@@ -0,0 +1,35 @@
+import type { TextChange } from '../src/core/types'
+import { describe, expect, it } from 'vitest'
+import { getSections, parseBlock } from '../src/core/blockAst'
+import { appendSection, moveSection, removeSection, setMarkerTitle, updateMarkerProps } from '../src/core/blockEdits'
+
+const source = '::tabs\n--tab(icon="star") One\nfirst\n--tab Two\nsecond\n\n--tab Three\nthird\n::'
+const block = parseBlock(source)!
+const sections = getSections(block)
+
+function apply(changes: TextChange[]): string {
+  return [...changes]
+    .sort((a, b) => b.from - a.from)
+    .reduce((text, change) => text.slice(0, change.from) + change.insert + text.slice(change.to), source)
+}
+
+describe('block edits', () => {
+  it('set, add and remove marker titles', () => {
+    expect(apply(setMarkerTitle(sections[0].marker, '  Renamed  tab '))).toContain('--tab(icon="star") Renamed tab\n')
+    expect(apply(setMarkerTitle(sections[1].marker, ''))).toContain('\n--tab\nsecond')
+    expect(apply(setMarkerTitle(block.marker, 'Title'))).toMatch(/^::tabs Title\n/)
+  })
+
+  it('update props, keeping the others as written', () => {
+    expect(apply(updateMarkerProps(sections[0].marker, { icon: null, label: 'a "b"', wide: true }))).toContain('--tab(label="a \\"b\\"" wide) One')
+    expect(apply(updateMarkerProps(sections[0].marker, { icon: null }))).toContain('\n--tab One\n')
+    expect(apply(updateMarkerProps(sections[1].marker, { md: true }))).toContain('\n--tab(md) Two\n')
+    expect(apply(updateMarkerProps(sections[1].marker, { width: '40%', label: 'true' }))).toContain('\n--tab(width=40% label="true") Two\n')
+  })
+
+  it('add, remove and move sections', () => {
+    expect(apply(appendSection(block, '--tab Four'))).toMatch(/third\n--tab Four\n\n::$/)
+    expect(apply(removeSection(sections[1]))).toBe('::tabs\n--tab(icon="star") One\nfirst\n--tab Three\nthird\n::')
+    expect(apply(moveSection(sections, source, 2, 0))).toBe('::tabs\n--tab Three\nthird\n--tab(icon="star") One\nfirst\n--tab Two\nsecond\n\n::')
+  })
+})
@@ -0,0 +1,127 @@
+import type { LintFix } from '../src/core/types'
+import { describe, expect, it } from 'vitest'
+import { parseDocument } from '../src/core/blockAst'
+import { lintDocument } from '../src/core/blockLint'
+import { createBlockParser } from '../src/core/blockParser'
+import { BlockRegistry } from '../src/core/blockRegistry'
+
+const registry = new BlockRegistry()
+const tabsMarkers = { start: '::tabs', end: '::', child: '--tab' }
+registry.register({
+  id: 'tabs',
+  name: 'Tabs',
+  description: 'Tabs',
+  markers: tabsMarkers,
+  parser: createBlockParser(tabsMarkers),
+  livePreview: () => [],
+  props: {},
+  childProps: { tab: { icon: { type: 'string' } } },
+})
+const folderMarkers = { start: '::gallery-folder', end: '::' }
+registry.register({
+  id: 'gallery-folder',
+  name: 'Gallery Folder',
+  description: 'Gallery Folder',
+  markers: folderMarkers,
+  parser: createBlockParser(folderMarkers),
+  livePreview: () => [],
+  props: { limit: { type: 'number' }, sort: { type: 'enum', values: ['name', 'mtime'] } },
+})
+const ratioMarkers = { start: '::ratio', end: '::' }
+registry.register({
+  id: 'ratio',
+  name: 'Ratio',
+  description: 'Ratio',
+  markers: ratioMarkers,
+  parser: createBlockParser(ratioMarkers),
+  livePreview: () => [],
+  props: { square: { type: 'boolean' }, video: { type: 'boolean' } },
+  lint: ({ marker: { rawProps, propsRange } }) => rawProps && propsRange && !['square', 'video'].includes(rawProps)
+    ? [{ ...propsRange, severity: 'warning', message: `Unknown ratio "${rawProps}"`, fixes: [{ label: 'Use square', changes: [{ ...propsRange, insert: '(square)' }] }] }]
+    : [],
+})
+
+function lint(source: string) {
+  return lintDocument(parseDocument(source), source, registry)
+}
+
+function applyFix(source: string, fix: LintFix): string {
+  return [...fix.changes]
+    .sort((a, b) => b.from - a.from)
+    .reduce((text, change) => text.slice(0, change.from) + change.insert + text.slice(change.to), source)
+}
+
+describe('lintDocument', () => {
+  it('reports nothing for valid blocks', () => {
+    expect(lint('::tabs(id="a")\n--tab(icon="star") A\nx\n::\n::gallery-folder(limit=4 sort="mtime")\n::')).toEqual([])
+  })
+
+  it('reports unclosed blocks with a fix that closes them', () => {
+    const source = 'intro\n::tabs\n--tab A\nx'
+    const [issue] = lint(source)
+
+    expect(issue.severity).toBe('error')
+    expect(source.slice(issue.from, issue.to)).toBe('::tabs')
+    expect(applyFix(source, issue.fixes[0])).toBe(`${source}\n::`)
+  })
+
+  it('reports stray end markers outside fenced code', () => {
+    const source = 'text\n::\n```\n::\n```'
+    const issues = lint(source)
+
+    expect(issues).toHaveLength(1)
+    expect(applyFix(source, issues[0].fixes[0])).toBe('text\n```\n::\n```')
+  })
+
+  it('suggests registered names for unknown blocks', () => {
+    const source = '::tab\n::'
+    const [issue] = lint(source)
+
+    expect(issue.message).toContain('Unknown block')
+    expect(applyFix(source, issue.fixes[0])).toBe('::tabs\n::')
+  })
+
+  it('reports unknown and mistyped props', () => {
+    const source = '::gallery-folder(limit=many sort="size")\n::\n::tabs\n--tab(icn="x") A\n::'
+    const issues = lint(source)
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      '`limit` expects a number',
+      '`sort` expects one of "name", "mtime"',
+      'Unknown prop `icn` for `--tab`',
+    ])
+    expect(issues[2].fixes.map(fix => applyFix(source, fix).split('\n')[3])).toEqual(['--tab(icon="x") A', '--tab A'])
+
+    const withOthers = '::tabs\n--tab(icon="y" icn="x") A\n::'
+    const [unknown] = lint(withOthers)
+    expect(applyFix(withOthers, unknown.fixes[1]).split('\n')[1]).toBe('--tab(icon="y") A')
+  })
+
+  it('lets a block check its own props instead of the schema', () => {
+    const source = '::ratio(squre)\n::'
+    const issues = lint(source)
+
+    expect(issues.map(issue => issue.message)).toEqual(['Unknown ratio "squre"'])
+    expect(applyFix(source, issues[0].fixes[0])).toBe('::ratio(square)\n::')
+  })
+
+  it('reports props that cannot be read', () => {
+    const source = '::gallery-folder(sort="name limit=4)\n::\n::tabs\n--tab(=x) A\n::'
+    const issues = lint(source)
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'These props are never closed. Check for an unclosed quote or a missing `)`.',
+      'Unexpected "=x"',
+    ])
+    expect(source.slice(issues[1].from, issues[1].to)).toBe('=x')
+  })
+
+  it('reports blocks of one type sharing an id', () => {
+    const source = '::tabs(id="a")\n::\n::tabs(id="a")\n::'
+    const issues = lint(source)
+
+    expect(issues).toHaveLength(1)
+    expect(issues[0].from).toBe(source.lastIndexOf('id="a"'))
+    expect(applyFix(source, issues[0].fixes[0])).toBe('::tabs(id="a")\n::\n::tabs(id="a-2")\n::')
+  })
+})
@@ -0,0 +1,93 @@
+import type { BlockDefinition } from '../src/core/types'
+import { describe, expect, it } from 'vitest'
+import { createBlockParser } from '../src/core/blockParser'
+import { BlockRegistry } from '../src/core/blockRegistry'
+
+function defineBlock(id: string, overrides: Partial<BlockDefinition> = {}): BlockDefinition {
+  const markers = { start: `::${id}`, end: '::' }
+  return {
+    id,
+    name: id,
+    description: `${id} block`,
+    markers,
+    parser: createBlockParser(markers),
+    livePreview: () => [],
+    ...overrides,
+  }
+}
+
+describe('blockParser', () => {
+  const parser = createBlockParser({ start: '::gallery', end: '::' })
+
+  it('matches only its own start marker', () => {
+    expect(parser.matches('::gallery')).toBe(true)
+    expect(parser.matches('::gallery(columns)')).toBe(true)
+    expect(parser.matches('  ::gallery  ')).toBe(true)
+    expect(parser.matches('::gallery-folder')).toBe(false)
+    expect(parser.matches('::tabs')).toBe(false)
+  })
+
+  it('parses a block including nested blocks', () => {
+    const text = 'intro\n::gallery\n::note\ninner\n::\n![](a.png)\n::\nafter'
+    const from = text.indexOf('::gallery')
+    const range = parser.parse(text, from)
+
+    expect(range?.from).toBe(from)
+    expect(range?.to).toBe(text.indexOf('\nafter'))
+    expect(range?.content).toBe('::gallery\n::note\ninner\n::\n![](a.png)\n::')
+  })
+
+  it('returns null for unclosed blocks', () => {
+    expect(parser.parse('::gallery\n![](a.png)', 0)).toBeNull()
+  })
+
+  it('accepts collapsed markers when collapsible', () => {
+    const note = createBlockParser({ start: '::note', end: '::' }, { collapsible: true })
+    expect(note.matches('::note-')).toBe(true)
+    expect(parser.matches('::gallery-')).toBe(false)
+  })
+})
+
+describe('blockRegistry', () => {
+  it('registers blocks once', () => {
+    const registry = new BlockRegistry()
+
+    expect(registry.register(defineBlock('tabs'))).toBe(true)
+    expect(registry.register(defineBlock('tabs'))).toBe(false)
+    expect(registry.getAll()).toHaveLength(1)
+    expect(registry.has('tabs')).toBe(true)
+
+    registry.unregister('tabs')
+    expect(registry.has('tabs')).toBe(false)
+  })
+
+  it('finds the block opened by a line', () => {
+    const registry = new BlockRegistry()
+    registry.register(defineBlock('gallery'))
+    registry.register(defineBlock('gallery-folder'))
+
+    expect(registry.findByStartLine('::gallery-folder(path="x")')?.id).toBe('gallery-folder')
+    expect(registry.findByStartLine('::gallery')?.id).toBe('gallery')
+    expect(registry.findByStartLine('::unknown')).toBeUndefined()
+  })
+
+  it('derives marker names and settings entries', () => {
+    const registry = new BlockRegistry()
+    registry.register(defineBlock('tabs', {
+      markers: { start: '::tabs', end: '::', child: '--tab' },
+      settingKey: 'tabs',
+      name: 'Tabs',
+    }))
+    registry.register(defineBlock('note'))
+    const callout = { settingKey: 'callout', settingLabel: { name: 'Callout', description: 'Callouts' } }
+    registry.register(defineBlock('info', callout))
+    registry.register(defineBlock('warning', callout))
+
+    expect(registry.getBlockNames()).toEqual(['tabs', 'note', 'info', 'warning'])
+    expect(registry.getChildNames()).toEqual(['tab'])
+    expect(registry.getSettingEntries()).toEqual([
+      { id: 'tabs', name: 'Tabs', description: 'tabs block', docLink: '/tabs' },
+      { id: 'callout', name: 'Callout', description: 'Callouts', docLink: '/info' },
+    ])
+  })
+})
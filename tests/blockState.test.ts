@@ -0,0 +1,139 @@
+import type { App, TFile } from 'obsidian'
+import { describe, expect, it } from 'vitest'
+import { createBlockParser } from '../src/core/blockParser'
+import { getBlockId } from '../src/editor/utils'
+import { createBlockStateReset } from '../src/editor/utils/blockReset'
+import { getBlockState, renameBlockState, renameBlockStatesBySuffix, setBlockState, setBlockStateStore } from '../src/editor/utils/blockState'
+import { moveBlockStates, PluginDataStore } from '../src/editor/utils/blockStateStore'
+import { BlockStateTracker } from '../src/editor/utils/blockStateTracker'
+
+function createStore() {
+  let saves = 0
+  const store = new PluginDataStore({}, () => saves++)
+  return { store, saves: () => saves }
+}
+
+describe('blockState', () => {
+  it('reads and writes through the selected store', () => {
+    const { store, saves } = createStore()
+    setBlockStateStore(store)
+
+    expect(getBlockState('tabs-a', 'tab', 0)).toBe(0)
+    setBlockState('tabs-a', 'tab', 2)
+
+    expect(getBlockState('tabs-a', 'tab', 0)).toBe(2)
+    expect(getBlockState('tabs-a', 'callout', false)).toBe(false)
+    expect(saves()).toBe(1)
+  })
+
+  it('moves the state of a renamed block', () => {
+    const { store } = createStore()
+    setBlockStateStore(store)
+    setBlockState('tabs-old', 'tab', 1)
+
+    renameBlockState('tabs-old', 'tabs-new')
+
+    expect(getBlockState('tabs-new', 'tab', 0)).toBe(1)
+    expect(store.entries()['tabs-old']).toBeUndefined()
+  })
+
+  it('moves the states of a block whose type is not known by their id suffix', () => {
+    const { store } = createStore()
+    setBlockStateStore(store)
+    setBlockState('tabPreview-old', 'tab', 1)
+    setBlockState('calloutPreview-note-other', 'callout', true)
+
+    renameBlockStatesBySuffix('-old', '-new', 'note.md')
+
+    expect(Object.keys(store.entries()).sort()).toEqual(['calloutPreview-note-other', 'tabPreview-new'])
+  })
+})
+
+describe('blockStateTracker', () => {
+  const file = { path: 'note.md', extension: 'md' } as TFile
+
+  function createTracker(versions: string[]) {
+    const app = { vault: { cachedRead: async () => versions.shift() } } as unknown as App
+    return new BlockStateTracker(app)
+  }
+
+  it('moves the state of a block edited outside the editor', async () => {
+    const { store } = createStore()
+    setBlockStateStore(store)
+    setBlockState(getBlockId('tabPreview', '::tabs\n--tab A\n::', {}), 'tab', 1)
+
+    const tracker = createTracker([
+      'Intro\n\n::tabs\n--tab A\n::\n\n::note\nText\n::',
+      'Intro, edited\n\n::tabs\n--tab A\n--tab B\n::\n\n::note\nText\n::',
+    ])
+    await tracker.track(file)
+    await tracker.handleModify(file)
+
+    expect(getBlockState(getBlockId('tabPreview', '::tabs\n--tab A\n--tab B\n::', {}), 'tab', 0)).toBe(1)
+    expect(Object.keys(store.entries())).toHaveLength(1)
+  })
+
+  it('leaves states alone when blocks were added or removed', async () => {
+    const { store } = createStore()
+    setBlockStateStore(store)
+    setBlockState(getBlockId('tabPreview', '::tabs\n--tab A\n::', {}), 'tab', 1)
+
+    const tracker = createTracker([
+      '::tabs\n--tab A\n::',
+      '::tabs\n--tab B\n::\n\n::tabs\n--tab C\n::',
+    ])
+    await tracker.track(file)
+    await tracker.handleModify(file)
+
+    expect(getBlockState(getBlockId('tabPreview', '::tabs\n--tab A\n::', {}), 'tab', 0)).toBe(1)
+  })
+})
+
+describe('createBlockStateReset', () => {
+  const markers = { start: '::tabs', end: '::', child: '--tab' }
+  const block = { id: 'tabs', name: 'Tabs', description: '', markers, parser: createBlockParser(markers), livePreview: () => [] }
+  const note = '::tabs\n--tab A\n::\n\n::tabs(id="setup")\n--tab B\n::'
+  const app = { vault: { cachedRead: async () => note } } as unknown as App
+  const file = { path: 'note.md' } as TFile
+  const reset = createBlockStateReset('tab')
+
+  it('removes the states of the blocks in a note only', async () => {
+    const { store } = createStore()
+    setBlockStateStore(store)
+    setBlockState(getBlockId('tabPreview', '::tabs\n--tab A\n::', {}), 'tab', 1)
+    setBlockState(getBlockId('tabPreview', '', { id: 'setup' }), 'tab', 1)
+    setBlockState(getBlockId('tabPreview', '::tabs\n--tab elsewhere\n::', {}), 'tab', 1)
+    setBlockState(getBlockId('calloutPreview-note', '::tabs\n--tab A\n::', {}), 'callout', true)
+
+    expect(await reset(app, block, file)).toBe(2)
+    expect(Object.keys(store.entries())).toHaveLength(2)
+  })
+
+  it('removes every state of its type across the vault', async () => {
+    const { store } = createStore()
+    setBlockStateStore(store)
+    setBlockState('tabPreview-a', 'tab', 1)
+    setBlockState('calloutPreview-note-a', 'callout', true)
+
+    expect(await reset(app, block, null)).toBe(1)
+    expect(Object.keys(store.entries())).toEqual(['calloutPreview-note-a'])
+  })
+})
+
+describe('moveBlockStates', () => {
+  it('moves entries without overwriting the target', () => {
+    const from = createStore().store
+    const to = createStore().store
+    from.set('a', '', { type: 'tab', state: 1, lastModified: 1 })
+    from.set('b', '', { type: 'tab', state: 1, lastModified: 1 })
+    to.set('b', '', { type: 'tab', state: 3, lastModified: 2 })
+
+    moveBlockStates(from, to)
+
+    expect(from.entries()).toEqual({})
+    expect(to.entries()).toEqual({
+      a: { type: 'tab', state: 1, lastModified: 1 },
+      b: { type: 'tab', state: 3, lastModified: 2 },
+    })
+  })
+})
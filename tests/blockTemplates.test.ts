@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { parseBlock } from '../src/core/blockAst'
+import { createImagesTemplate, createSectionsTemplate, createWrapTemplate } from '../src/core/blockTemplates'
+
+const tabs = createSectionsTemplate(
+  { start: '::tabs', end: '::', child: '--tab' },
+  { id: 'tabs', name: 'Tabs', count: 2, title: index => `Tab ${index + 1}` },
+)
+
+describe('block templates', () => {
+  it('build an empty skeleton without a selection', () => {
+    expect(tabs.build('')).toBe('::tabs\n--tab Tab 1\n\n--tab Tab 2\n\n::')
+  })
+
+  it('split selected paragraphs into sections, taking headings as titles', () => {
+    const source = tabs.build('## Setup\nInstall it.\n\nRun it.\n')
+    const block = parseBlock(source)!
+
+    expect(source).toBe('::tabs\n--tab Setup\nInstall it.\n--tab Tab 2\nRun it.\n::')
+    expect(block.closed).toBe(true)
+  })
+
+  it('wrap the selection or collect its images', () => {
+    const markers = { start: '::gallery', end: '::' }
+
+    expect(createWrapTemplate(markers, { id: 'gallery', name: 'Gallery' }).build('text\n')).toBe('::gallery\ntext\n::')
+    expect(createImagesTemplate(markers, { id: 'images', name: 'Images' }).build('See ![[a.png]] and\n![b](b.jpg)')).toBe('::gallery\n![[a.png]]\n![b](b.jpg)\n::')
+  })
+})
@@ -0,0 +1,36 @@
+import { requestUrl } from 'obsidian'
+import { describe, expect, it, vi } from 'vitest'
+import { parseIconSource, requestSvg } from '../src/editor/utils/iconResolver'
+
+describe('parseIconSource', () => {
+  it('tells every kind of icon apart', () => {
+    expect(parseIconSource('🚀')).toEqual({ type: 'emoji', text: '🚀' })
+    expect(parseIconSource('lucide:star')).toEqual({ type: 'builtin', name: 'star' })
+    expect(parseIconSource('file-text')).toEqual({ type: 'builtin', name: 'file-text' })
+    expect(parseIconSource('mdi:home-outline')).toEqual({ type: 'iconify', prefix: 'mdi', name: 'home-outline' })
+    expect(parseIconSource('[[logo.svg|Logo]]')).toEqual({ type: 'vault', path: 'logo.svg' })
+    expect(parseIconSource('assets/logo.png')).toEqual({ type: 'vault', path: 'assets/logo.png' })
+    expect(parseIconSource('https://example.com/logo.svg')).toEqual({ type: 'url', url: 'https://example.com/logo.svg' })
+  })
+
+  it('rejects values that cannot be icons', () => {
+    expect(parseIconSource('not an icon')).toBeNull()
+    expect(parseIconSource('javascript:alert(1)')).toBeNull()
+  })
+})
+
+describe('requestSvg', () => {
+  it('returns the markup of a URL icon', async () => {
+    vi.mocked(requestUrl).mockResolvedValueOnce({ status: 200, text: '<svg></svg>' } as Awaited<ReturnType<typeof requestUrl>>)
+    await expect(requestSvg('https://example.com/logo.svg')).resolves.toBe('<svg></svg>')
+    expect(requestUrl).toHaveBeenCalledWith({ url: 'https://example.com/logo.svg', throw: false })
+  })
+
+  it('rejects when the host answers with an error or cannot be reached', async () => {
+    vi.mocked(requestUrl).mockResolvedValueOnce({ status: 404, text: 'Not found' } as Awaited<ReturnType<typeof requestUrl>>)
+    await expect(requestSvg('https://example.com/missing.svg')).rejects.toThrow('status 404')
+
+    vi.mocked(requestUrl).mockRejectedValueOnce(new Error('net::ERR_NAME_NOT_RESOLVED'))
+    await expect(requestSvg('https://offline.example/logo.svg')).rejects.toThrow('ERR_NAME_NOT_RESOLVED')
+  })
+})
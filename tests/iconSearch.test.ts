@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { getBuiltinIconEntries, getIconifyEntries, searchIcons } from '../src/editor/_insert/iconSearch'
+import { parseIconifyCollection } from '../src/editor/utils/iconifySets'
+
+const entries = [
+  ...getBuiltinIconEntries(['lucide-file-code', 'lucide-code', 'lucide-file', 'obsidian-logo']),
+  ...getIconifyEntries(parseIconifyCollection('{"prefix": "mdi", "info": {"name": "Material Design Icons"}, "icons": {"file": {"body": ""}}, "aliases": {"file-outline": {"parent": "file"}}}')),
+]
+
+describe('icon search', () => {
+  it('lists icons by the id they are inserted as', () => {
+    expect(entries.map(entry => entry.id)).toEqual(['lucide:file-code', 'lucide:code', 'lucide:file', 'obsidian-logo', 'mdi:file', 'mdi:file-outline'])
+  })
+
+  it('matches every word, exact names first', () => {
+    expect(searchIcons(entries, 'file code', 10).map(entry => entry.id)).toEqual(['lucide:file-code'])
+    expect(searchIcons(entries, 'file', 10).map(entry => entry.id)).toEqual(['lucide:file', 'mdi:file', 'lucide:file-code', 'mdi:file-outline'])
+    expect(searchIcons(entries, 'mdi:file', 10)[0].id).toBe('mdi:file')
+    expect(searchIcons(entries, 'material', 1)).toHaveLength(1)
+  })
+})
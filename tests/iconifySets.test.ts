@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { getIconifySvg, parseIconifyCollection } from '../src/editor/utils/iconifySets'
+
+const collection = parseIconifyCollection(JSON.stringify({
+  prefix: 'demo',
+  width: 24,
+  height: 24,
+  icons: {
+    home: { body: '<path d="M0 0h24v24H0z"/>' },
+    wide: { body: '<path d="M0 0h48v24H0z"/>', width: 48 },
+  },
+  aliases: {
+    'home-flipped': { parent: 'home', hFlip: true },
+    'home-turned': { parent: 'home-flipped', hFlip: true, rotate: 1 },
+  },
+}))
+
+describe('iconify sets', () => {
+  it('build icons at the requested height', () => {
+    expect(getIconifySvg(collection, 'home')).toBe('<svg xmlns="http://www.w3.org/2000/svg" class="iconify-icon" width="16" height="16" viewBox="0 0 24 24"><path d="M0 0h24v24H0z"/></svg>')
+    expect(getIconifySvg(collection, 'wide', 12)).toContain('width="24" height="12" viewBox="0 0 48 24"')
+    expect(getIconifySvg(collection, 'missing')).toBeNull()
+  })
+
+  it('resolve aliases with their transformations', () => {
+    expect(getIconifySvg(collection, 'home-flipped')).toContain('<g transform="translate(24 0) scale(-1 1)">')
+    // Two flips cancel out, leaving the rotation
+    expect(getIconifySvg(collection, 'home-turned')).toContain('<g transform="rotate(90 12 12)">')
+  })
+
+  it('reject files that are not collections', () => {
+    expect(() => parseIconifyCollection('<svg/>')).toThrow('Not a JSON file')
+    expect(() => parseIconifyCollection('{"prefix": "Bad Prefix", "icons": {}}')).toThrow('invalid icon set prefix')
+    expect(() => parseIconifyCollection('{"prefix": "demo"}')).toThrow('has no icons')
+  })
+})
@@ -0,0 +1,43 @@
+import type { App, TFile } from 'obsidian'
+import { Buffer } from 'node:buffer'
+import { describe, expect, it, vi } from 'vitest'
+import { ImageMetaCache, parseImageLink, readImageSize } from '../src/editor/gallery/imageMetaCache'
+
+// The signature and IHDR chunk of a 640×480 PNG: all image-meta needs
+const PNG_HEADER = new Uint8Array(Buffer.from('89504e470d0a1a0a0000000d4948445200000280000001e0', 'hex'))
+
+function image(path: string, mtime: number, size = 2048): TFile {
+  return { path, stat: { mtime, size, ctime: 0 } } as TFile
+}
+
+describe('image sizes', () => {
+  it('are read from the first bytes of an image', () => {
+    expect(readImageSize(PNG_HEADER)).toEqual({ width: 640, height: 480 })
+    expect(readImageSize(PNG_HEADER.subarray(0, 12))).toBeNull()
+    expect(readImageSize(new Uint8Array([1, 2, 3]))).toBeNull()
+  })
+
+  it('take the link of markdown images', () => {
+    expect(parseImageLink('![Cat](photos/cat%20one.png)')).toBe('photos/cat%20one.png')
+    expect(parseImageLink(' ![](<photos/cat.png>) ')).toBe('photos/cat.png')
+    expect(parseImageLink('[Cat](photos/cat.png)')).toBeNull()
+  })
+
+  it('are cached until the file changes or is removed', () => {
+    const persist = vi.fn()
+    const cache = new ImageMetaCache({} as App, {
+      'a.png': { width: 640, height: 480, mtime: 1, size: 2048 },
+      'b.png': { width: 10, height: 20, mtime: 1, size: 2048 },
+    }, persist)
+
+    expect(cache.get(image('a.png', 1))).toEqual({ width: 640, height: 480 })
+    expect(cache.get(image('a.png', 2))).toBeNull()
+    expect(cache.get(image('a.png', 1, 4096))).toBeNull()
+
+    expect(cache.remove(['a.png', 'c.png'])).toBe(1)
+    expect(cache.get(image('a.png', 1))).toBeNull()
+    expect(cache.remove()).toBe(1)
+    expect(cache.entries()).toEqual({})
+    expect(persist).toHaveBeenCalledTimes(2)
+  })
+})
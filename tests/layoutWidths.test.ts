@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { getColumnWidths, getWidthProps, resizeColumns } from '../src/editor/layout/layoutWidths'
+
+describe('layout widths', () => {
+  it('share what sizes and widths leave between the other columns', () => {
+    expect(getColumnWidths([{}, {}])).toEqual([50, 50])
+    expect(getColumnWidths([{ size: 'xs' }, {}, {}])).toEqual([25, 37.5, 37.5])
+    expect(getColumnWidths([{ size: 'md', width: 40 }, {}])).toEqual([40, 60])
+    expect(getColumnWidths([{ size: 'xl' }, { size: 'xl' }])).toEqual([50, 50])
+    expect(getColumnWidths([{ size: 'md' }])).toEqual([50])
+  })
+
+  it('trade width between neighbours when resizing', () => {
+    expect(resizeColumns([50, 50], 0, -10)).toEqual([40, 60])
+    expect(resizeColumns([30, 30, 40], 1, 50)).toEqual([30, 65, 5])
+  })
+
+  it('snap dragged widths to close size keywords', () => {
+    expect(getWidthProps(49)).toMatchObject({ md: true, width: null, size: null })
+    expect(getWidthProps(40.4)).toMatchObject({ md: null, width: '40%' })
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { migrateLegacySyntax } from '../src/migration/legacySyntax'
+
+describe('migrateLegacySyntax', () => {
+  it('rewrites legacy delimiters, including nested blocks', () => {
+    const source = '++layout\n--col\n++steps(icon="x")\n--step One\n++\n++\ntext'
+    const { content, changes } = migrateLegacySyntax(source)
+
+    expect(content).toBe('::layout\n--col\n::steps(icon="x")\n--step One\n::\n::\ntext')
+    expect(changes.map(change => change.line)).toEqual([1, 3, 5, 6])
+  })
+
+  it('converts column sizes and moves inline column content to its own line', () => {
+    const source = '++layout\n--col(6) Left\n--col(MD title="a 6 b")\n--col(size=8)\nRight\n++'
+    const { content } = migrateLegacySyntax(source)
+
+    expect(content).toBe('::layout\n--col(md)\nLeft\n--col(md title="a 6 b")\n--col(size="lg")\nRight\n::')
+  })
+
+  it('leaves fenced code, stray ++ lines and current syntax alone', () => {
+    const source = '```\n++layout\n--col(6) x\n++\n```\n++\nC++ is fine\n::layout\n--col(md)\n::'
+    const result = migrateLegacySyntax(source)
+
+    expect(result.changes).toEqual([])
+    expect(result.content).toBe(source)
+  })
+
+  it('leaves columns of current blocks alone in notes with legacy blocks', () => {
+    const { content, changes } = migrateLegacySyntax('::layout\n--col(md) text\n::\n++steps\n--step One\n++')
+
+    expect(content).toBe('::layout\n--col(md) text\n::\n::steps\n--step One\n::')
+    expect(changes.map(change => change.line)).toEqual([4, 6])
+  })
+
+  it('keeps windows line endings', () => {
+    const { content } = migrateLegacySyntax('++layout\r\n--col Left\r\n++\r\n')
+
+    expect(content).toBe('::layout\r\n--col\r\nLeft\r\n::\r\n')
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { parseProps } from '../src/core/blockProperties'
+import { coerceProps, definePropSchema } from '../src/core/propSchema'
+
+const schema = definePropSchema({
+  cols: { type: 'number', default: 2, min: 1, max: 6, integer: true },
+  ratio: { type: 'number' },
+  stagger: { type: 'boolean', default: false },
+  sort: { type: 'enum', values: ['name', 'mtime'], default: 'name' },
+  title: { type: 'string' },
+  accent: { type: 'color' },
+  href: { type: 'link' },
+} as const)
+
+describe('coerceProps', () => {
+  it('coerces values to their types and fills in defaults', () => {
+    const { values, errors } = coerceProps(parseProps('cols=3 ratio="1.5" sort=MTime title="Hi" accent="#7c3aed" href="[[Note]]"'), schema)
+
+    expect(errors).toEqual([])
+    expect(values).toEqual({ cols: 3, ratio: 1.5, stagger: false, sort: 'mtime', title: 'Hi', accent: '#7c3aed', href: '[[Note]]' })
+  })
+
+  it('falls back to defaults for invalid values and reports them', () => {
+    const { values, errors } = coerceProps(parseProps('cols=many stagger="yes" sort=size accent="not a color" title'), schema)
+
+    expect(values.cols).toBe(2)
+    expect(values.stagger).toBe(false)
+    expect(values.sort).toBe('name')
+    expect(values.accent).toBeUndefined()
+    expect(values.title).toBeUndefined()
+    expect(errors.map(error => error.key)).toEqual(['cols', 'stagger', 'sort', 'accent', 'title'])
+    expect(errors.every(error => error.kind === 'invalid')).toBe(true)
+  })
+
+  it('clamps numbers out of range', () => {
+    const { values, errors } = coerceProps(parseProps('cols=9'), schema)
+
+    expect(values.cols).toBe(6)
+    expect(errors[0].message).toBe('`cols` must be between 1 and 6')
+  })
+
+  it('reads percentages with or without a percent sign', () => {
+    const widths = definePropSchema({ width: { type: 'percent', min: 5, max: 95 } } as const)
+
+    expect(coerceProps(parseProps('width=40%'), widths).values.width).toBe(40)
+    expect(coerceProps(parseProps('width="33.5"'), widths).values.width).toBe(33.5)
+    expect(coerceProps(parseProps('width=120%'), widths).errors[0].message).toBe('`width` must be between 5 and 95')
+    expect(coerceProps(parseProps('width=wide'), widths).errors[0].message).toContain('expects a percentage')
+  })
+
+  it('reports unknown props and leaves them out', () => {
+    const { values, errors } = coerceProps(parseProps('colour="red"'), schema)
+
+    expect(values).not.toHaveProperty('colour')
+    expect(errors).toEqual([{ key: 'colour', kind: 'unknown', message: 'Unknown prop `colour`' }])
+  })
+
+  it('rejects malformed links', () => {
+    expect(coerceProps(parseProps('href="[[Note"'), schema).errors[0].message).toContain('malformed wikilink')
+  })
+})
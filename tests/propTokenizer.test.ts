@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { parseMarkerLine } from '../src/core/blockAst'
+import { parseProps } from '../src/core/blockProperties'
+import { findClosingParen, tokenizeProps } from '../src/core/propTokenizer'
+
+describe('tokenizeProps', () => {
+  it('reads flags, bare, quoted and list values', () => {
+    expect(parseProps('stagger no-icons=false cols=3 ratio=-1.5 title=\'He said "hi"\' tags=[a, "b c"]')).toEqual({
+      'stagger': true,
+      'no-icons': false,
+      'cols': '3',
+      'ratio': '-1.5',
+      'title': 'He said "hi"',
+      'tags': ['a', 'b c'],
+    })
+  })
+
+  it('keeps quoted booleans as strings and unescapes backslashes', () => {
+    expect(parseProps('label="true" title="a \\"b\\" c"')).toEqual({ label: 'true', title: 'a "b" c' })
+  })
+
+  it('locates keys, equals signs and values', () => {
+    const [token] = tokenizeProps('  cols = 3', 10).tokens
+
+    expect(token.keyRange).toEqual({ from: 12, to: 16 })
+    expect(token.equalsRange).toEqual({ from: 17, to: 18 })
+    expect(token.valueRange).toEqual({ from: 19, to: 20 })
+    expect(token).toMatchObject({ from: 12, to: 20 })
+  })
+
+  it('reports syntax errors and reads the props around them', () => {
+    const { tokens, errors } = tokenizeProps('=x cols=2 title="open')
+
+    expect(tokens.map(token => token.key)).toEqual(['cols', 'title'])
+    expect(errors.map(error => error.message)).toEqual(['Unexpected "=x"', 'Missing closing "'])
+  })
+})
+
+describe('findClosingParen', () => {
+  it('skips parentheses inside quotes', () => {
+    const line = '::card(title="Step (1)" icon=\'a)\') Title'
+
+    expect(findClosingParen(line, line.indexOf('('))).toBe(line.indexOf(') Title'))
+    expect(parseMarkerLine(line, '::')).toMatchObject({ name: 'card', props: { title: 'Step (1)', icon: 'a)' }, title: 'Title' })
+  })
+})
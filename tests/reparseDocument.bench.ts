@@ -0,0 +1,36 @@
+import type { RenderedBlock } from '../src/editor/_base/renderedBlocks'
+import { ChangeSet } from '@codemirror/state'
+import { bench, describe, vi } from 'vitest'
+import { parseDocument, reparseDocument } from '../src/core/blockAst'
+import { mapRenderedBlocks } from '../src/editor/_base/renderedBlocks'
+import { syntheticNote } from './syntheticNote'
+
+// The setup file mocks the editor state, but keystrokes need real change sets
+vi.unmock('@codemirror/state')
+
+const source = syntheticNote(5000)
+const tree = parseDocument(source)
+const { children } = tree
+const blocks: RenderedBlock[] = children
+  .filter(node => node.type === 'block')
+  .map(node => ({ from: node.from, to: node.to, content: source.slice(node.from, node.to), id: String(node.from), decoration: null }))
+
+// One character typed in the middle of the note
+const at = Math.floor(source.length / 2)
+const next = `${source.slice(0, at)}x${source.slice(at)}`
+const text = { length: next.length, sliceString: (from: number, to?: number) => next.slice(from, to) }
+const changes = ChangeSet.of({ from: at, insert: 'x' }, source.length)
+
+describe('keystroke in a 5000 line note', () => {
+  bench('reparseDocument', () => {
+    reparseDocument(tree, text, [{ from: at, to: at }])
+  })
+
+  bench('mapRenderedBlocks', () => {
+    mapRenderedBlocks(blocks, changes)
+  })
+
+  bench('parseDocument (full parse, for comparison)', () => {
+    parseDocument(next)
+  })
+})
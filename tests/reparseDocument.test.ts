@@ -0,0 +1,134 @@
+import type { DocumentNode, SourceRange, SourceText } from '../src/core/blockAst'
+import type { RenderedBlock } from '../src/editor/_base/renderedBlocks'
+import { describe, expect, it, vi } from 'vitest'
+import { parseDocument, reparseDocument } from '../src/core/blockAst'
+import { mapRenderedBlocks } from '../src/editor/_base/renderedBlocks'
+import { syntheticNote } from './syntheticNote'
+
+function asText(source: string): SourceText {
+  return {
+    length: source.length,
+    sliceString: (from: number, to?: number) => source.slice(from, to),
+  }
+}
+
+/**
+ * Replaces `from`-`to` with `insert` and re-parses incrementally
+ */
+function edit(source: string, tree: DocumentNode, from: number, to: number, insert: string) {
+  const next = source.slice(0, from) + insert + source.slice(to)
+  const change: SourceRange = { from, to }
+  return { source: next, tree: reparseDocument(tree, asText(next), [change]) }
+}
+
+describe('reparseDocument', () => {
+  const base = '::tabs\n--tab A\none\n::\ntext\n::gallery\n![a](b)\n::\nend'
+
+  it('matches a full parse after typing inside a block', () => {
+    const at = base.indexOf('one') + 3
+    const result = edit(base, parseDocument(base), at, at, ' more')
+
+    expect(result.tree).toEqual(parseDocument(result.source))
+  })
+
+  it('matches a full parse when an edit opens a block that swallows the rest', () => {
+    const at = base.indexOf('text')
+    const result = edit(base, parseDocument(base), at, at + 4, '::steps')
+
+    expect(result.tree).toEqual(parseDocument(result.source))
+  })
+
+  it('matches a full parse when an edit closes a block early or removes a close marker', () => {
+    const close = base.indexOf('\n::\n') + 1
+    const removed = edit(base, parseDocument(base), close, close + 2, 'x')
+    expect(removed.tree).toEqual(parseDocument(removed.source))
+
+    const closed = edit(removed.source, removed.tree, close, close + 1, '::')
+    expect(closed.tree).toEqual(parseDocument(closed.source))
+    expect(closed.source).toBe(base)
+  })
+
+  it('matches a full parse when an edit opens a code fence', () => {
+    const at = base.indexOf('text')
+    const result = edit(base, parseDocument(base), at, at, '```\n')
+
+    expect(result.tree).toEqual(parseDocument(result.source))
+  })
+
+  it('keeps the nodes before the edit', () => {
+    const tree = parseDocument(base)
+    const at = base.indexOf('end')
+    const result = edit(base, tree, at, at, 'the ')
+
+    expect(result.tree.children[0]).toBe(tree.children[0])
+    expect(result.tree).toEqual(parseDocument(result.source))
+  })
+
+  it('stays in sync with a full parse over a series of edits', () => {
+    let source = syntheticNote(200)
+    let tree = parseDocument(source)
+    const inserts = ['x', '\n', '::', '::tabs\n', '--tab B\n', '```\n', '']
+
+    for (let i = 0; i < 60; i++) {
+      const from = (i * 7919) % source.length
+      const to = Math.min(source.length, from + (i % 3))
+      const result = edit(source, tree, from, to, inserts[i % inserts.length])
+      source = result.source
+      tree = result.tree
+      expect(tree).toEqual(parseDocument(source))
+    }
+  })
+
+  it('re-reads only a small window around each keystroke on a large note', () => {
+    const source = syntheticNote(5000)
+    const tree = parseDocument(source)
+
+    for (let i = 0; i < 20; i++) {
+      const at = Math.floor((i + 0.5) * source.length / 20)
+      const next = `${source.slice(0, at)}x${source.slice(at)}`
+      let read = 0
+      const text: SourceText = {
+        length: next.length,
+        sliceString: (from: number, to?: number) => {
+          const slice = next.slice(from, to)
+          read += slice.length
+          return slice
+        },
+      }
+
+      const result = reparseDocument(tree, text, [{ from: at, to: at }])
+      expect(read).toBeLessThan(source.length / 100)
+      expect(result).toEqual(parseDocument(next))
+    }
+  })
+
+  it('reuses the nodes outside the re-parsed window', () => {
+    const source = syntheticNote(200)
+    const tree = parseDocument(source)
+    // Same length, so the nodes after the edit keep their offsets and are reused as they are
+    const at = source.indexOf('First tab', source.length / 2)
+    const result = edit(source, tree, at, at + 5, 'Third')
+
+    const reused = result.tree.children.filter(node => tree.children.includes(node))
+    expect(result.tree.children.length - reused.length).toBeLessThanOrEqual(2)
+    expect(result.tree).toEqual(parseDocument(result.source))
+  })
+})
+
+describe('mapRenderedBlocks', () => {
+  it('marks only the block a keystroke touched as edited', async () => {
+    const { ChangeSet } = await vi.importActual<typeof import('@codemirror/state')>('@codemirror/state')
+    const source = syntheticNote(1000)
+    const { children } = parseDocument(source)
+    const blocks: RenderedBlock[] = children
+      .filter(node => node.type === 'block')
+      .map(node => ({ from: node.from, to: node.to, content: source.slice(node.from, node.to), id: String(node.from), decoration: null }))
+
+    const at = blocks[10].from + 10
+    const mapped = [...mapRenderedBlocks(blocks, ChangeSet.of({ from: at, insert: 'x' }, source.length)).values()]
+
+    expect(mapped.filter(block => block.edited).map(block => block.id)).toEqual([blocks[10].id])
+    expect(mapped[11].from).toBe(blocks[11].from + 1)
+    expect(mapped[9]).toEqual({ ...blocks[9], edited: false })
+  })
+})
@@ -17,7 +17,10 @@ vi.mock('obsidian', () => ({
     cloneNode: vi.fn(),
   })),
   Component: class MockComponent { },
+  MarkdownRenderChild: class MockMarkdownRenderChild { },
+  MarkdownRenderer: { render: vi.fn(() => Promise.resolve()) },
   Plugin: class MockPlugin { },
   Setting: class MockSetting { },
   PluginSettingTab: class MockPluginSettingTab { },
+  requestUrl: vi.fn(),
 })) 
\ No newline at end of file
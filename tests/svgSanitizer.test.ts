@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { sanitizeSvg } from '../src/editor/utils/svgSanitizer'
+
+const svg = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24">${body}</svg>`
+
+describe('sanitizeSvg', () => {
+  it('keeps icon markup intact', () => {
+    const icon = svg('<defs><linearGradient id="a"><stop offset="0" stop-color="#fff"/></linearGradient></defs><path fill="url(#a)" d="M0 0h24v24H0z"/><use href="#a"/>')
+
+    expect(sanitizeSvg(icon)).toBe(icon)
+    expect(sanitizeSvg('<?xml version="1.0"?><!-- icon --><SVG VIEWBOX="0 0 1 1"><PATH D="M0 0"></PATH></SVG>')).toBe('<svg viewBox="0 0 1 1"><path d="M0 0"></path></svg>')
+  })
+
+  it.each([
+    ['script elements', svg('<script>alert(1)</script><path d="M0 0"/>')],
+    ['script elements with markup inside', svg('<script type="text/javascript"><![CDATA[ if (a < b) alert(1) ]]></script><path d="M0 0"/>')],
+    ['event handlers', svg('<path onclick="alert(1)" OnLoad="alert(1)" d="M0 0"/>')],
+    ['foreign objects', svg('<foreignObject><iframe src="javascript:alert(1)"></iframe><img src="x" onerror="alert(1)"></foreignObject><path d="M0 0"/>')],
+    ['javascript links', svg('<a href="javascript:alert(1)"><text>link</text></a><path d="M0 0"/>')],
+    ['encoded javascript links', svg('<use xlink:href="&#106;ava&#x73;cript:alert(1)"/><path d="M0 0"/>')],
+    ['animations setting links', svg('<animate attributeName="href" to="javascript:alert(1)"/><set attributeName="onmouseover" to="alert(1)"/><path d="M0 0"/>')],
+    ['external resources', svg('<image href="https://example.com/x.png"/><use href="https://example.com/x.svg#a"/><path fill="url(https://example.com/track)" d="M0 0"/>')],
+    ['escaped external resources', svg('<path fill="u\\72l(https://example.com/track)" d="M0 0"/><path style="background:u\\72 l(https://example.com/x.png)" d="M0 0"/>')],
+    ['image sets', svg('<path style="background-image:image-set(\'https://example.com/x.png\' 1x)" d="M0 0"/><path style="background:-webkit-image-set(&quot;https://example.com/x.png&quot; 1x)" d="M0 0"/><path style="background:imag\\65-set(\'https://example.com/x.png\' 1x)" d="M0 0"/>')],
+    ['styles', svg('<style>@import url(https://example.com/x.css)</style><path style="background:url(javascript:alert(1))" d="M0 0"/>')],
+  ])('removes %s', (_, payload) => {
+    const clean = sanitizeSvg(payload)!
+
+    expect(clean).not.toMatch(/script|alert|onclick|onload|onerror|example\.com|iframe|<img|<a\b|animate|<set|<style/i)
+    expect(clean).toContain('<path d="M0 0"')
+  })
+
+  it('escapes text and attributes breaking out of their context', () => {
+    expect(sanitizeSvg(svg('<title>&lt;img src=x onerror=alert(1)&gt;</title><path d="&quot;><img src=x>"/>'))).toBe(
+      svg('<title>&lt;img src=x onerror=alert(1)&gt;</title><path d="&quot;&gt;&lt;img src=x&gt;"/>'),
+    )
+  })
+
+  it('closes unclosed elements and rejects markup without an svg root', () => {
+    expect(sanitizeSvg('<svg><g><path d="M0 0"/>')).toBe('<svg><g><path d="M0 0"/></g></svg>')
+    expect(sanitizeSvg('<div onclick="alert(1)">not an icon</div>')).toBeNull()
+    expect(sanitizeSvg('<img src=x onerror="alert(1)">')).toBeNull()
+  })
+})
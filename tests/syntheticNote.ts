@@ -0,0 +1,20 @@
+/**
+ * A note of about `lines` lines mixing every kind of block with plain text
+ */
+export function syntheticNote(lines: number): string {
+  const chunks = [
+    '## Section\nSome text with a :badge(type="info") inline component.\n',
+    '::tabs(id="t")\n--tab One\nFirst tab\n--tab Two\n```sh\n::\n```\n::\n',
+    '::layout\n--col(size="md")\n::aspect(square)\n![img](a.png)\n::\n--col\nRight\n::\n',
+    '::note-\n--title Heads up\nCollapsed body\n::\n',
+    'Plain paragraph line one\nPlain paragraph line two\n\n',
+  ]
+  const out: string[] = []
+  let count = 0
+  for (let i = 0; count < lines; i++) {
+    const chunk = chunks[i % chunks.length]
+    out.push(chunk)
+    count += chunk.split('\n').length - 1
+  }
+  return out.join('')
+}
@@ -1,10 +1,24 @@
 import { describe, it, expect } from 'vitest'
-import { hashContent, valueIsInRange } from '../src/editor/utils'
+import { getBlockId, hashContent, valueIsInRange } from '../src/editor/utils'
 
 // JUST DEMO TESTS; WE DID FOR CHECKING IF VITEST IS WORKING
 // PLEASE IGNORE IF THIS TESTS FAIL; WE NEED TO REFACTOR ANYWAY
 
 describe('Utils', () => {
+  describe('getBlockId', () => {
+    it('should derive the id from the content without an explicit id', () => {
+      expect(getBlockId('tabPreview', '::tabs\n::', {})).toBe(`tabPreview-${hashContent('::tabs\n::')}`)
+    })
+
+    it('should keep an explicit id when the content changes', () => {
+      const before = getBlockId('tabPreview', '::tabs(id="setup")\n--tab A\n::', { id: 'setup' })
+      const after = getBlockId('tabPreview', '::tabs(id="setup")\n--tab B\n::', { id: 'setup' })
+
+      expect(before).toBe('tabPreview-id-setup')
+      expect(after).toBe(before)
+    })
+  })
+
   describe('hashContent', () => {
     it('should generate a consistent hash for the same string', () => {
       const testString = 'Hello, World!'